@@ -2,27 +2,36 @@ import { useEffect, useState } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { AppProvider, useApp } from './contexts/AppContext';
 import { WebSocketProvider } from './contexts/WebSocketContext';
+import { PresenceProvider } from './contexts/PresenceContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { offlineStore } from './services/offlineStore';
 import ErrorBoundary from './components/ErrorBoundary/ErrorBoundary';
 import LoadingSpinner from './components/LoadingSpinner/LoadingSpinner';
 import Layout from './components/Layout/Layout';
 import HomePage from './pages/HomePage/HomePage';
 import BoardPage from './pages/BoardPage/BoardPage';
+import LoginPage from './pages/LoginPage/LoginPage';
+import InvitePage from './pages/InvitePage/InvitePage';
+import InvitesPage from './pages/InvitesPage/InvitesPage';
+
+const CACHE_BOARDS_DELAY_MS = 500;
 
 function AppContent() {
   const [isLoading, setIsLoading] = useState(true);
-  const { setBoards } = useApp();
+  const { boards, setBoards } = useApp();
 
   useEffect(() => {
-    // Fetch initial boards from API
+    // Fetch initial boards from API, or show the offline copy if the server is down
     const fetchBoards = async () => {
       try {
         const response = await fetch('/api/boards');
-        if (response.ok) {
-          const data = await response.json();
-          setBoards(data);
+        if (!response.ok) {
+          throw new Error(`Request failed with status ${response.status}`);
         }
+        setBoards(await response.json());
       } catch (error) {
         console.error('Failed to fetch boards:', error);
+        setBoards(await offlineStore.loadBoards().catch(() => []));
       } finally {
         setIsLoading(false);
       }
@@ -31,6 +40,16 @@ function AppContent() {
     fetchBoards();
   }, [setBoards]);
 
+  // Keep the offline copy current, including changes made while disconnected
+  useEffect(() => {
+    if (isLoading) return;
+
+    const timer = setTimeout(() => {
+      offlineStore.saveBoards(boards).catch(error => console.error('Failed to cache boards:', error));
+    }, CACHE_BOARDS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [boards, isLoading]);
+
   if (isLoading) {
     return <LoadingSpinner message="Loading boards..." />;
   }
@@ -41,20 +60,43 @@ function AppContent() {
         <Route path="/" element={<Layout />}>
           <Route index element={<HomePage />} />
           <Route path="board/:boardId" element={<BoardPage />} />
+          <Route path="invite/:token" element={<InvitePage />} />
+          <Route path="invites" element={<InvitesPage />} />
         </Route>
       </Routes>
     </BrowserRouter>
   );
 }
 
+// Boards and the WebSocket connection need a session, so they start after login
+function AuthenticatedApp() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <LoadingSpinner message="Checking session..." />;
+  }
+
+  if (!user) {
+    return <LoginPage />;
+  }
+
+  return (
+    <AppProvider key={user.id}>
+      <WebSocketProvider>
+        <PresenceProvider>
+          <AppContent />
+        </PresenceProvider>
+      </WebSocketProvider>
+    </AppProvider>
+  );
+}
+
 function App() {
   return (
     <ErrorBoundary>
-      <AppProvider>
-        <WebSocketProvider>
-          <AppContent />
-        </WebSocketProvider>
-      </AppProvider>
+      <AuthProvider>
+        <AuthenticatedApp />
+      </AuthProvider>
     </ErrorBoundary>
   );
 }
@@ -1,12 +1,20 @@
-import React, { useRef, useImperativeHandle, forwardRef, useEffect, useMemo } from 'react';
-import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
+import React, { useRef, useImperativeHandle, forwardRef, useEffect, useMemo, useState } from 'react';
+import { ReactZoomPanPinchRef, TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
 import { AnimatePresence } from 'framer-motion';
 import { useApp } from '../../contexts/AppContext';
 import { useWebSocket } from '../../contexts/WebSocketContext';
 import { PhysicsProvider, usePhysicsContext } from '../../contexts/PhysicsContext';
 import { TransformProvider, useTransform } from '../../contexts/TransformContext';
+import { usePresence } from '../../contexts/PresenceContext';
 import Note from '../Note/Note';
 import ErrorBoundary from '../ErrorBoundary/ErrorBoundary';
+import RemoteCursors from '../RemoteCursors/RemoteCursors';
+import Connectors from '../Connectors/Connectors';
+import Frames from '../Frames/Frames';
+import SelectionToolbar from '../SelectionToolbar/SelectionToolbar';
+import { useNoteGroupDrag, usePointerDrag } from '../../hooks/useBoardDrag';
+import { getNoteFrame } from '../../../../shared/src/frames';
+import { BulkNoteOperation } from '../../../../shared/src/types';
 import styles from './Board.module.css';
 
 export interface BoardRef {
@@ -19,33 +27,62 @@ export interface BoardRef {
 
 interface BoardProps {
   onZoomChange?: (scale: number) => void;
+  readOnly?: boolean; // Viewers can pan and zoom but not create or move notes
 }
 
-const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) => {
+const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange, readOnly = false }, ref) => {
   const { getCurrentBoard } = useApp();
-  const { sendCreateNote } = useWebSocket();
+  const { sendCreateNote, sendCreateConnector, sendBulkNotes } = useWebSocket();
   const transformWrapperRef = useRef<any>(null);
   const currentBoard = getCurrentBoard();
-  const { addOrUpdateNote, removeNote, setViewportBounds } = usePhysicsContext();
-  const { setTransformState } = useTransform();
+  const { addOrUpdateNote, removeNote, setViewportBounds, setFrames, getNotePosition } = usePhysicsContext();
+  const { setTransformState, screenToBoard } = useTransform();
+  const { sendCursorMove, sendViewport, getBoardPresence, followingSessionId, followUser } = usePresence();
   const previousNoteIdsRef = useRef<Set<string>>(new Set());
   const isTransformingRef = useRef(false);
   const firstClickRef = useRef<{ x: number; y: number; time: number } | null>(null);
+  // Note a new connector starts from, while waiting for the user to pick the other end
+  const [connectingFromId, setConnectingFromId] = useState<string | null>(null);
+  // Notes picked with shift-click or a shift-drag marquee, acted on together
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [marquee, setMarquee] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  // The click that follows a selection gesture shouldn't also expand a note or clear the selection
+  const suppressClickRef = useRef(false);
+  const pointerDownRef = useRef<{ x: number; y: number } | null>(null);
+  const trackPointer = usePointerDrag();
+  const dragNotes = useNoteGroupDrag();
+  const leader = currentBoard && followingSessionId
+    ? getBoardPresence(currentBoard.id).find(user => user.sessionId === followingSessionId)
+    : undefined;
+  const leaderViewport = leader?.viewport;
+
+  // Notes inside a collapsed frame are hidden, and left out of the physics world
+  const visibleNotes = useMemo(() => {
+    const frames = currentBoard?.frames || [];
+    const notes = currentBoard?.notes || [];
+    if (!frames.some(frame => frame.collapsed)) return notes;
+    return notes.filter(note => !getNoteFrame(note, frames)?.collapsed);
+  }, [currentBoard?.notes, currentBoard?.frames]);
+
+  const selectedNotes = useMemo(
+    () => visibleNotes.filter(note => selectedIds.has(note.id)),
+    [visibleNotes, selectedIds]
+  );
 
   // Sync notes with physics engine
   // Use note IDs to avoid re-rendering on every note update
   const noteIds = useMemo(() => 
-    currentBoard?.notes.map(note => note.id).join(',') || '', 
-    [currentBoard?.notes]
+    visibleNotes.map(note => note.id).join(','), 
+    [visibleNotes]
   );
   
   useEffect(() => {
     if (!currentBoard) return;
 
-    const currentNoteIds = new Set(currentBoard.notes.map(note => note.id));
+    const currentNoteIds = new Set(visibleNotes.map(note => note.id));
     
     // Add or update all notes in physics world
-    currentBoard.notes.forEach((note) => {
+    visibleNotes.forEach((note) => {
       addOrUpdateNote(note);
     });
 
@@ -58,7 +95,12 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
 
     // Update the previous note IDs
     previousNoteIdsRef.current = currentNoteIds;
-  }, [noteIds, currentBoard, addOrUpdateNote, removeNote]);
+  }, [noteIds, currentBoard, visibleNotes, addOrUpdateNote, removeNote]);
+
+  // Notes bounce off the edges of the frame they are in
+  useEffect(() => {
+    setFrames(currentBoard?.frames || []);
+  }, [currentBoard?.frames, setFrames]);
 
   // Clean up physics bodies when board changes
   useEffect(() => {
@@ -86,6 +128,57 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
     }
   }, [setTransformState]);
 
+  // Let followers know where we start out on this board
+  useEffect(() => {
+    if (currentBoard?.id) {
+      broadcastViewport(transformWrapperRef.current);
+    }
+  }, [currentBoard?.id]);
+
+  // Mirror the leader's pan and zoom, keeping their centre point in the middle of our screen
+  useEffect(() => {
+    const wrapper = transformWrapperRef.current?.instance?.wrapperComponent;
+    if (!leaderViewport || !wrapper) return;
+
+    const rect = wrapper.getBoundingClientRect();
+    const { x, y, scale } = leaderViewport;
+    transformWrapperRef.current.setTransform(rect.width / 2 - x * scale, rect.height / 2 - y * scale, scale, 200);
+  }, [leaderViewport]);
+
+  // Connecting and selections are per board, and Escape backs out of them
+  useEffect(() => {
+    setConnectingFromId(null);
+    setSelectedIds(new Set());
+  }, [currentBoard?.id]);
+
+  useEffect(() => {
+    if (!connectingFromId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setConnectingFromId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [connectingFromId]);
+
+  useEffect(() => {
+    if (selectedNotes.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      if (e.key === 'Escape') {
+        setSelectedIds(new Set());
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && !readOnly) {
+        e.preventDefault();
+        sendBulkOperation({ type: 'delete' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Expose zoom control methods to parent
   useImperativeHandle(ref, () => ({
     zoomIn: () => {
@@ -115,7 +208,134 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
     },
   }));
 
+  const sendBulkOperation = (operation: BulkNoteOperation) => {
+    if (!currentBoard || selectedNotes.length === 0) return;
+    sendBulkNotes({ boardId: currentBoard.id, noteIds: selectedNotes.map(note => note.id), operation });
+    if (operation.type === 'delete') {
+      setSelectedIds(new Set());
+    }
+  };
+
+  const toggleSelected = (noteId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(noteId)) {
+        next.add(noteId);
+      }
+      return next;
+    });
+  };
+
+  // Shift-drag on empty canvas draws a marquee that adds the notes it touches
+  const startMarquee = (e: React.PointerEvent) => {
+    const start = screenToBoard(e.clientX, e.clientY);
+    const rectFor = (dx: number, dy: number) => ({
+      x: Math.min(start.x, start.x + dx),
+      y: Math.min(start.y, start.y + dy),
+      width: Math.abs(dx),
+      height: Math.abs(dy),
+    });
+
+    trackPointer(
+      e,
+      (dx, dy) => setMarquee(rectFor(dx, dy)),
+      (dx, dy) => {
+        setMarquee(null);
+        const area = rectFor(dx, dy);
+        const touched = visibleNotes.filter(note => {
+          const position = getNotePosition(note.id) ?? { x: note.x, y: note.y };
+          const element = document.querySelector<HTMLElement>(`[data-note-id="${note.id}"]`);
+          const width = element?.offsetWidth || note.width;
+          const height = element?.offsetHeight || note.height;
+          return (
+            position.x < area.x + area.width &&
+            position.x + width > area.x &&
+            position.y < area.y + area.height &&
+            position.y + height > area.y
+          );
+        });
+        if (touched.length > 0) {
+          setSelectedIds(prev => new Set([...prev, ...touched.map(note => note.id)]));
+        }
+      }
+    );
+  };
+
+  // Dragging any selected note moves the whole selection, sent as one bulk move on drop
+  const startGroupDrag = (e: React.PointerEvent) => {
+    const group = dragNotes(selectedNotes);
+    trackPointer(
+      e,
+      (dx, dy) => group.moveBy(dx, dy),
+      (dx, dy) => {
+        group.release();
+        if (dx === 0 && dy === 0) return;
+        group.moveBy(dx, dy);
+        suppressClickRef.current = true;
+        sendBulkOperation({ type: 'move', dx, dy });
+      }
+    );
+  };
+
+  const handleSelectionPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointerDownRef.current = { x: e.clientX, y: e.clientY };
+    if (readOnly || connectingFromId || e.button !== 0) return;
+
+    const target = e.target as HTMLElement;
+    const noteId = target.closest<HTMLElement>('[data-note-id]')?.dataset.noteId;
+    const onControl = !!target.closest('button, input, textarea, [contenteditable="true"]');
+
+    if (e.shiftKey && !onControl) {
+      suppressClickRef.current = true;
+      if (noteId) {
+        e.preventDefault();
+        e.stopPropagation();
+        toggleSelected(noteId);
+      } else if (!target.closest('[data-frame-id]')) {
+        startMarquee(e);
+      }
+    } else if (noteId && !onControl && selectedIds.has(noteId) && selectedNotes.length > 1) {
+      startGroupDrag(e);
+    }
+  };
+
+  const handleClickCapture = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      e.stopPropagation();
+      return;
+    }
+    handleConnectClick(e);
+  };
+
+  // While connecting, the next click picks the target note instead of doing anything else
+  const handleConnectClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!connectingFromId || !currentBoard) return;
+    e.stopPropagation();
+
+    const targetNoteId = (e.target as HTMLElement).closest<HTMLElement>('[data-note-id]')?.dataset.noteId;
+    if (targetNoteId && targetNoteId !== connectingFromId) {
+      sendCreateConnector({
+        boardId: currentBoard.id,
+        sourceNoteId: connectingFromId,
+        targetNoteId,
+      });
+    }
+    setConnectingFromId(null);
+  };
+
   const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // A plain click on the board (not the end of a pan) drops the selection
+    const down = pointerDownRef.current;
+    const target = e.target as HTMLElement;
+    if (
+      selectedIds.size > 0 &&
+      !target.closest('[data-note]') &&
+      down && Math.abs(e.clientX - down.x) < 5 && Math.abs(e.clientY - down.y) < 5
+    ) {
+      setSelectedIds(new Set());
+    }
+
     // Track clicks for double-click detection
     const now = Date.now();
     const clickPos = { x: e.clientX, y: e.clientY, time: now };
@@ -146,13 +366,13 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
   };
 
   const handleDoubleClickCreate = (e: React.MouseEvent<HTMLDivElement>) => {
-    // Prevent if clicking on a note
+    // Prevent if clicking on a note or a frame's title bar
     const target = e.target as HTMLElement;
-    if (target.closest('[data-note]')) {
+    if (target.closest('[data-note]') || target.closest('[data-frame-id]')) {
       return;
     }
 
-    if (!currentBoard) return;
+    if (!currentBoard || readOnly) return;
 
     // Ignore if currently transforming (panning/zooming)
     if (isTransformingRef.current) {
@@ -179,6 +399,28 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
     });
   };
 
+  const broadcastViewport = (ref: ReactZoomPanPinchRef | null) => {
+    const state = ref?.instance.transformState;
+    const wrapper = ref?.instance.wrapperComponent;
+    if (!currentBoard || !state || !wrapper) return;
+
+    // Share the board point at the centre of the screen so followers with a
+    // different window size still see the same area
+    const rect = wrapper.getBoundingClientRect();
+    sendViewport(currentBoard.id, {
+      x: (rect.width / 2 - state.positionX) / state.scale,
+      y: (rect.height / 2 - state.positionY) / state.scale,
+      scale: state.scale,
+    });
+  };
+
+  // Any pan, zoom or pinch of our own ends follow mode
+  const stopFollowing = () => {
+    if (followingSessionId) {
+      followUser(null);
+    }
+  };
+
   const handleTransformChange = (ref: any) => {
     // Mark that we're transforming
     isTransformingRef.current = true;
@@ -194,6 +436,8 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
         offsetY: rect.top,
       });
     }
+
+    broadcastViewport(ref);
   };
 
   const handleTransformStop = (ref: any) => {
@@ -229,8 +473,14 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
     setViewportBounds({ minX, minY, maxX, maxY });
   };
 
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!currentBoard) return;
+    const position = screenToBoard(e.clientX, e.clientY);
+    sendCursorMove(currentBoard.id, position.x, position.y);
+  };
+
   return (
-    <div className={styles.board}>
+    <div className={styles.board} onPointerMove={handlePointerMove}>
       <TransformWrapper
         ref={transformWrapperRef}
         initialScale={1}
@@ -250,6 +500,9 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
         doubleClick={{ 
           disabled: true // We handle double-click manually
         }}
+        onPanningStart={stopFollowing}
+        onWheelStart={stopFollowing}
+        onPinchingStart={stopFollowing}
         onTransformed={handleTransformChange}
         onZoomStop={handleTransformStop}
         onPanningStop={handleTransformStop}
@@ -260,23 +513,71 @@ const BoardContent = forwardRef<BoardRef, BoardProps>(({ onZoomChange }, ref) =>
           contentClass={styles.transformContent}
         >
           <div
-            className={styles.canvas}
+            className={`${styles.canvas} ${connectingFromId ? styles.connecting : ''}`}
             onClick={handleCanvasClick}
+            onClickCapture={handleClickCapture}
+            onPointerDownCapture={handleSelectionPointerDown}
           >
             {/* Background grid pattern */}
             <div className={styles.grid} />
+
+            {currentBoard && (
+              <Frames frames={currentBoard.frames || []} notes={currentBoard.notes} readOnly={readOnly} />
+            )}
+
+            {currentBoard && (
+              <Connectors connectors={currentBoard.connectors || []} notes={visibleNotes} readOnly={readOnly} />
+            )}
             
             {/* Render notes */}
             <AnimatePresence mode="popLayout">
-              {currentBoard?.notes.map((note) => (
+              {currentBoard && visibleNotes.map((note) => (
                 <ErrorBoundary key={`${currentBoard.id}-${note.id}`}>
-                  <Note note={note} />
+                  <Note
+                    note={note}
+                    readOnly={readOnly}
+                    onStartConnector={readOnly ? undefined : setConnectingFromId}
+                    isSelected={selectedIds.has(note.id)}
+                  />
                 </ErrorBoundary>
               ))}
             </AnimatePresence>
+
+            {marquee && (
+              <div
+                className={styles.marquee}
+                style={{ left: marquee.x, top: marquee.y, width: marquee.width, height: marquee.height }}
+              />
+            )}
           </div>
         </TransformComponent>
       </TransformWrapper>
+      {currentBoard && <RemoteCursors boardId={currentBoard.id} />}
+      {leader && (
+        <div className={styles.banner} style={{ borderColor: leader.color }}>
+          <span>Following {leader.name}</span>
+          <button className={styles.bannerButton} onClick={() => followUser(null)}>
+            Stop following
+          </button>
+        </div>
+      )}
+      {selectedNotes.length > 0 && !readOnly && (
+        <SelectionToolbar
+          count={selectedNotes.length}
+          onRecolor={(backgroundColor) => sendBulkOperation({ type: 'update', updates: { backgroundColor } })}
+          onFontSize={(fontSize) => sendBulkOperation({ type: 'update', updates: { fontSize } })}
+          onDelete={() => sendBulkOperation({ type: 'delete' })}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
+      {connectingFromId && !leader && (
+        <div className={styles.banner}>
+          <span>Click another note to connect it</span>
+          <button className={styles.bannerButton} onClick={() => setConnectingFromId(null)}>
+            Cancel
+          </button>
+        </div>
+      )}
     </div>
   );
 });
@@ -297,7 +598,7 @@ const Board = forwardRef<BoardRef, BoardProps>((props, ref) => {
 
   return (
     <TransformProvider>
-      <PhysicsProvider enabled={true} onPositionUpdate={handlePhysicsPositionUpdate}>
+      <PhysicsProvider enabled={true} onPositionUpdate={props.readOnly ? undefined : handlePhysicsPositionUpdate}>
         <BoardContent {...props} ref={ref} />
       </PhysicsProvider>
     </TransformProvider>
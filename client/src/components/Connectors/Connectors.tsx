@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Connector, ConnectorArrowheads, ConnectorStyle, Note } from '../../../../shared/src/types';
+import { MAX_CONNECTOR_LABEL_LENGTH } from '../../../../shared/src/validation';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+import { usePhysicsContext } from '../../contexts/PhysicsContext';
+import styles from './Connectors.module.css';
+
+interface ConnectorsProps {
+  connectors: Connector[];
+  notes: Note[];
+  readOnly?: boolean;
+}
+
+interface NoteRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const DASH_PATTERNS: Record<ConnectorStyle, string | undefined> = {
+  solid: undefined,
+  dashed: '10 6',
+  dotted: '1 7',
+};
+
+const STYLE_OPTIONS: ConnectorStyle[] = ['solid', 'dashed', 'dotted'];
+
+const ARROWHEAD_OPTIONS: Array<{ value: ConnectorArrowheads; label: string }> = [
+  { value: 'end', label: '→' },
+  { value: 'start', label: '←' },
+  { value: 'both', label: '↔' },
+  { value: 'none', label: '—' },
+];
+
+const LINE_COLOR = 'rgba(0, 0, 0, 0.55)';
+
+/**
+ * Where a line from the centre of a note towards a point leaves the note
+ */
+function edgePoint(rect: NoteRect, towards: Point): Point {
+  const center = { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+  const dx = towards.x - center.x;
+  const dy = towards.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : rect.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : rect.height / 2 / Math.abs(dy)
+  );
+  return { x: center.x + dx * Math.min(scale, 1), y: center.y + dy * Math.min(scale, 1) };
+}
+
+/**
+ * The visible part of a connector, from edge to edge of the two notes
+ */
+function connectorLine(source: NoteRect, target: NoteRect): { start: Point; end: Point } {
+  const sourceCenter = { x: source.x + source.width / 2, y: source.y + source.height / 2 };
+  const targetCenter = { x: target.x + target.width / 2, y: target.y + target.height / 2 };
+  return { start: edgePoint(source, targetCenter), end: edgePoint(target, sourceCenter) };
+}
+
+const sameRect = (a: NoteRect | undefined, b: NoteRect) =>
+  !!a && Math.abs(a.x - b.x) < 0.5 && Math.abs(a.y - b.y) < 0.5 && a.width === b.width && a.height === b.height;
+
+// Lines between related notes, drawn under the notes in board coordinates
+const Connectors: React.FC<ConnectorsProps> = ({ connectors, notes, readOnly = false }) => {
+  const { sendUpdateConnector, sendDeleteConnector } = useWebSocket();
+  const { getNotePosition } = usePhysicsContext();
+  const [rects, setRects] = useState<Record<string, NoteRect>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  const connectedNotes = useMemo(() => {
+    const ids = new Set(connectors.flatMap(c => [c.sourceNoteId, c.targetNoteId]));
+    return notes.filter(note => ids.has(note.id));
+  }, [connectors, notes]);
+
+  // Follow the notes every frame: dragging and thrown notes move their physics
+  // bodies long before the new position comes back from the server
+  useEffect(() => {
+    if (connectedNotes.length === 0) return;
+
+    let frame = 0;
+    let current: Record<string, NoteRect> = {};
+    const measure = () => {
+      const next: Record<string, NoteRect> = {};
+      let changed = Object.keys(current).length !== connectedNotes.length;
+      for (const note of connectedNotes) {
+        const element = document.querySelector<HTMLElement>(`[data-note-id="${note.id}"]`);
+        const position = getNotePosition(note.id) ?? { x: note.x, y: note.y };
+        next[note.id] = {
+          x: position.x,
+          y: position.y,
+          width: element?.offsetWidth || note.width,
+          height: element?.offsetHeight || note.height,
+        };
+        changed = changed || !sameRect(current[note.id], next[note.id]);
+      }
+      if (changed) {
+        current = next;
+        setRects(next);
+      }
+      frame = requestAnimationFrame(measure);
+    };
+
+    measure();
+    return () => cancelAnimationFrame(frame);
+  }, [connectedNotes, getNotePosition]);
+
+  const selected = connectors.find(c => c.id === selectedId);
+
+  useEffect(() => {
+    setLabelDraft(selected?.label ?? '');
+  }, [selected?.id, selected?.label]);
+
+  // Clicking anywhere else closes the editor
+  useEffect(() => {
+    if (!selectedId) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target as Element;
+      if (!editorRef.current?.contains(target) && !target.closest?.(`[data-connector-id="${selectedId}"]`)) {
+        setSelectedId(null);
+      }
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [selectedId]);
+
+  const update = (connector: Connector, updates: Partial<Pick<Connector, 'label' | 'style' | 'arrowheads'>>) => {
+    sendUpdateConnector({ connectorId: connector.id, updates });
+  };
+
+  const commitLabel = () => {
+    if (selected && labelDraft !== selected.label) {
+      update(selected, { label: labelDraft.trim() });
+    }
+  };
+
+  const lines = connectors.flatMap(connector => {
+    const source = rects[connector.sourceNoteId];
+    const target = rects[connector.targetNoteId];
+    if (!source || !target) return [];
+    return [{ connector, ...connectorLine(source, target) }];
+  });
+
+  const selectedLine = lines.find(line => line.connector.id === selectedId);
+
+  return (
+    <>
+      <svg className={styles.connectorLayer} aria-hidden="true">
+        <defs>
+          <marker
+            id="connector-arrow"
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="8"
+            markerHeight="8"
+            orient="auto-start-reverse"
+          >
+            <path d="M0 0 L10 5 L0 10 Z" fill={LINE_COLOR} />
+          </marker>
+        </defs>
+        {lines.map(({ connector, start, end }) => {
+          const { arrowheads } = connector;
+          return (
+            <g key={connector.id} data-connector-id={connector.id}>
+              <line
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                className={`${styles.line} ${connector.id === selectedId ? styles.selected : ''}`}
+                stroke={LINE_COLOR}
+                strokeDasharray={DASH_PATTERNS[connector.style]}
+                markerStart={arrowheads === 'start' || arrowheads === 'both' ? 'url(#connector-arrow)' : undefined}
+                markerEnd={arrowheads === 'end' || arrowheads === 'both' ? 'url(#connector-arrow)' : undefined}
+              />
+              {/* Wider invisible line so the connector is easy to click */}
+              {!readOnly && (
+                <line
+                  x1={start.x}
+                  y1={start.y}
+                  x2={end.x}
+                  y2={end.y}
+                  className={styles.hitArea}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSelectedId(connector.id);
+                  }}
+                />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {lines.map(({ connector, start, end }) => connector.label && connector.id !== selectedId && (
+        <div
+          key={connector.id}
+          className={styles.label}
+          style={{ left: (start.x + end.x) / 2, top: (start.y + end.y) / 2 }}
+          data-connector-id={connector.id}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (!readOnly) setSelectedId(connector.id);
+          }}
+        >
+          {connector.label}
+        </div>
+      ))}
+
+      {selected && selectedLine && !readOnly && (
+        <div
+          ref={editorRef}
+          className={styles.editor}
+          style={{
+            left: (selectedLine.start.x + selectedLine.end.x) / 2,
+            top: (selectedLine.start.y + selectedLine.end.y) / 2,
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <input
+            className={styles.labelInput}
+            value={labelDraft}
+            maxLength={MAX_CONNECTOR_LABEL_LENGTH}
+            placeholder="Label"
+            aria-label="Connector label"
+            onChange={(e) => setLabelDraft(e.target.value)}
+            onBlur={commitLabel}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                commitLabel();
+                setSelectedId(null);
+              } else if (e.key === 'Escape') {
+                setSelectedId(null);
+              }
+            }}
+          />
+          <select
+            className={styles.select}
+            value={selected.style}
+            aria-label="Line style"
+            onChange={(e) => update(selected, { style: e.target.value as ConnectorStyle })}
+          >
+            {STYLE_OPTIONS.map(style => (
+              <option key={style} value={style}>{style}</option>
+            ))}
+          </select>
+          <select
+            className={styles.select}
+            value={selected.arrowheads}
+            aria-label="Arrowheads"
+            onChange={(e) => update(selected, { arrowheads: e.target.value as ConnectorArrowheads })}
+          >
+            {ARROWHEAD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            className={styles.deleteButton}
+            aria-label="Delete connector"
+            onClick={() => {
+              sendDeleteConnector({ connectorId: selected.id });
+              setSelectedId(null);
+            }}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default Connectors;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Frame, Note } from '../../../../shared/src/types';
+import { MAX_FRAME_NAME_LENGTH } from '../../../../shared/src/validation';
+import { getFrameNotes } from '../../../../shared/src/frames';
+import { useApp } from '../../contexts/AppContext';
+import { useWebSocket } from '../../contexts/WebSocketContext';
+import { useNoteGroupDrag, usePointerDrag } from '../../hooks/useBoardDrag';
+import styles from './Frames.module.css';
+
+interface FramesProps {
+  frames: Frame[];
+  notes: Note[];
+  readOnly?: boolean;
+}
+
+interface FrameViewProps {
+  frame: Frame;
+  frames: Frame[];
+  notes: Note[];
+  readOnly: boolean;
+}
+
+const MIN_FRAME_WIDTH = 200;
+const MIN_FRAME_HEIGHT = 120;
+
+const FrameView: React.FC<FrameViewProps> = ({ frame, frames, notes, readOnly }) => {
+  const { moveFrame, addOrUpdateFrame } = useApp();
+  const { sendUpdateFrame, sendMoveFrame, sendDeleteFrame } = useWebSocket();
+  const trackPointer = usePointerDrag();
+  const dragNotes = useNoteGroupDrag();
+  const [offset, setOffset] = useState<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nameDraft, setNameDraft] = useState(frame.name);
+
+  const contained = getFrameNotes(frame, notes, frames);
+
+  const isControl = (target: EventTarget) => !!(target as HTMLElement).closest('button, input');
+
+  // Dragging the title bar carries the notes inside along. They are moved
+  // directly for feedback, and the server hears about it once on drop.
+  const handleTitlePointerDown = (e: React.PointerEvent) => {
+    if (readOnly || isRenaming || isControl(e.target)) return;
+
+    const group = dragNotes(contained);
+
+    trackPointer(
+      e,
+      (dx, dy) => {
+        setOffset({ x: dx, y: dy });
+        group.moveBy(dx, dy);
+      },
+      (dx, dy) => {
+        setOffset(null);
+        group.release();
+        if (dx === 0 && dy === 0) return;
+
+        group.moveBy(dx, dy);
+        const x = frame.x + dx;
+        const y = frame.y + dy;
+        moveFrame({ frame: { ...frame, x, y }, notes: group.positions(dx, dy) });
+        sendMoveFrame({ frameId: frame.id, x, y });
+      }
+    );
+  };
+
+  const handleResizePointerDown = (e: React.PointerEvent) => {
+    const resized = (dx: number, dy: number) => ({
+      width: Math.max(MIN_FRAME_WIDTH, frame.width + dx),
+      height: Math.max(MIN_FRAME_HEIGHT, frame.height + dy),
+    });
+
+    trackPointer(
+      e,
+      (dx, dy) => setSize(resized(dx, dy)),
+      (dx, dy) => {
+        setSize(null);
+        const next = resized(dx, dy);
+        if (next.width === frame.width && next.height === frame.height) return;
+        addOrUpdateFrame({ ...frame, ...next });
+        sendUpdateFrame({ frameId: frame.id, updates: next });
+      }
+    );
+  };
+
+  const startRenaming = () => {
+    if (readOnly) return;
+    setNameDraft(frame.name);
+    setIsRenaming(true);
+  };
+
+  const commitName = () => {
+    setIsRenaming(false);
+    const name = nameDraft.trim();
+    if (name && name !== frame.name) {
+      sendUpdateFrame({ frameId: frame.id, updates: { name } });
+    }
+  };
+
+  const width = size?.width ?? frame.width;
+  const height = size?.height ?? frame.height;
+
+  return (
+    <div
+      className={`${styles.frame} ${frame.collapsed ? styles.collapsed : ''} ${offset ? styles.dragging : ''}`}
+      style={{
+        left: frame.x + (offset?.x ?? 0),
+        top: frame.y + (offset?.y ?? 0),
+        width,
+        height: frame.collapsed ? undefined : height,
+      }}
+      data-frame-id={frame.id}
+    >
+      <div
+        className={`${styles.titleBar} ${readOnly ? '' : styles.movable}`}
+        onPointerDown={handleTitlePointerDown}
+        onDoubleClick={startRenaming}
+      >
+        {!readOnly && (
+          <button
+            className={styles.titleButton}
+            aria-label={frame.collapsed ? 'Expand frame' : 'Collapse frame'}
+            aria-expanded={!frame.collapsed}
+            onClick={() => sendUpdateFrame({ frameId: frame.id, updates: { collapsed: !frame.collapsed } })}
+          >
+            {frame.collapsed ? '▸' : '▾'}
+          </button>
+        )}
+        {isRenaming ? (
+          <input
+            className={styles.nameInput}
+            value={nameDraft}
+            maxLength={MAX_FRAME_NAME_LENGTH}
+            aria-label="Frame name"
+            autoFocus
+            onChange={(e) => setNameDraft(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                commitName();
+              } else if (e.key === 'Escape') {
+                setIsRenaming(false);
+              }
+            }}
+          />
+        ) : (
+          <span className={styles.name}>{frame.name}</span>
+        )}
+        {frame.collapsed && (
+          <span className={styles.count}>
+            {contained.length} {contained.length === 1 ? 'note' : 'notes'}
+          </span>
+        )}
+        {!readOnly && (
+          <button
+            className={styles.titleButton}
+            aria-label="Delete frame"
+            onClick={() => sendDeleteFrame({ frameId: frame.id })}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {!readOnly && !frame.collapsed && (
+        <div className={styles.resizeHandle} onPointerDown={handleResizePointerDown} aria-hidden="true" />
+      )}
+    </div>
+  );
+};
+
+// Named areas that group the notes inside them, drawn under the notes
+const Frames: React.FC<FramesProps> = ({ frames, notes, readOnly = false }) => (
+  <>
+    {frames.map(frame => (
+      <FrameView key={frame.id} frame={frame} frames={frames} notes={notes} readOnly={readOnly} />
+    ))}
+  </>
+);
+
+export default Frames;
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../../../../shared/src/markdown';
+import styles from './Markdown.module.css';
+
+interface MarkdownProps {
+  source: string;
+  // Called with the source line of a task checkbox; checkboxes are read-only without it
+  onToggleTask?: (line: number) => void;
+}
+
+// Keep clicks on links and checkboxes from also starting to edit the note
+const stopPropagation = (e: React.MouseEvent) => e.stopPropagation();
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index} className={styles.code}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        // Links whose URL was unsafe are shown as plain text
+        return node.href ? (
+          <a
+            key={index}
+            className={styles.link}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            onClick={stopPropagation}
+          >
+            {renderInline(node.children)}
+          </a>
+        ) : (
+          <span key={index}>{renderInline(node.children)}</span>
+        );
+    }
+  });
+}
+
+// Note content rendered from its Markdown source. Everything becomes React
+// elements, so nothing in the source is ever inserted as HTML.
+const Markdown: React.FC<MarkdownProps> = ({ source, onToggleTask }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  const renderBlock = (block: MarkdownBlock, index: number) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={index} className={styles.heading}>{renderInline(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={index} className={styles.paragraph}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map(item => (
+          <li key={item.line} className={item.checked !== undefined ? styles.task : undefined}>
+            {item.checked !== undefined && (
+              <input
+                type="checkbox"
+                className={styles.checkbox}
+                checked={item.checked}
+                disabled={!onToggleTask}
+                onClick={stopPropagation}
+                onChange={() => onToggleTask?.(item.line)}
+              />
+            )}
+            {renderInline(item.children)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={index} className={styles.list} start={block.start}>{items}</ol>
+        ) : (
+          <ul key={index} className={styles.list}>{items}</ul>
+        );
+      }
+    }
+  };
+
+  if (blocks.length === 0) {
+    return null;
+  }
+  return <>{blocks.map(renderBlock)}</>;
+};
+
+export default Markdown;
@@ -1,14 +1,26 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import Note from './Note';
 import { Note as NoteType } from '../../../../shared/src/types';
 
+const { sendContentChange } = vi.hoisted(() => ({ sendContentChange: vi.fn() }));
+
 // Mock contexts
 vi.mock('../../contexts/WebSocketContext', () => ({
   useWebSocket: () => ({
     sendUpdateNote: vi.fn(),
+    sendContentChange,
     sendDeleteNote: vi.fn(),
     sendMoveNote: vi.fn(),
+    sendEditingStart: vi.fn(),
+    sendEditingHeartbeat: vi.fn(),
+    sendEditingEnd: vi.fn(),
+    editingLost: {},
+    clearEditingLost: vi.fn(),
+    noteConflicts: {},
+    resolveNoteConflict: vi.fn(),
+    noteErrors: {},
+    clearNoteError: vi.fn(),
   }),
 }));
 
@@ -60,4 +72,27 @@ describe('Note Component', () => {
     render(<Note note={expandedNote} />);
     expect(screen.getByText(/Test note content/)).toBeInTheDocument();
   });
+
+  it('renders expanded content as Markdown', () => {
+    const content = '# Launch\n- [ ] **Write** notes\n[docs](https://example.com) [bad](javascript:alert) <b>raw</b>';
+    render(<Note note={{ ...mockNote, isExpanded: true, content }} />);
+
+    expect(screen.getByRole('heading', { name: 'Launch' })).toBeInTheDocument();
+    expect(screen.getByText('Write').tagName).toBe('STRONG');
+    expect(screen.getByRole('link', { name: 'docs' })).toHaveAttribute('href', 'https://example.com');
+    expect(screen.queryByRole('link', { name: 'bad' })).not.toBeInTheDocument();
+    expect(screen.getByText(/<b>raw<\/b>/)).toBeInTheDocument();
+  });
+
+  it('ticks a task by editing the Markdown source', () => {
+    render(<Note note={{ ...mockNote, isExpanded: true, content: 'Todo\n- [ ] Ship it' }} />);
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    expect(sendContentChange).toHaveBeenCalledWith('note-1', 'Todo\n- [x] Ship it');
+  });
+
+  it('previews collapsed notes without Markdown syntax', () => {
+    render(<Note note={{ ...mockNote, content: '## **Bold** plan' }} />);
+    expect(screen.getByText('Bold plan')).toBeInTheDocument();
+  });
 });
@@ -1,20 +1,27 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Note as NoteType, Sticker } from '../../../../shared/src/types';
+import { Image as NoteImage, Note as NoteType, Sticker } from '../../../../shared/src/types';
+import { diffTextOperation, transformTextIndex } from '../../../../shared/src/textOperation';
+import { markdownToPlainText, toggleMarkdownTask } from '../../../../shared/src/markdown';
 import { useWebSocket } from '../../contexts/WebSocketContext';
 import { usePhysicsContext } from '../../contexts/PhysicsContext';
 import { useTransform } from '../../contexts/TransformContext';
 import { useApp } from '../../contexts/AppContext';
 import { websocketService } from '../../services/websocket';
+import { uploadBlob } from '../../services/blobs';
 import Tooltip from '../Tooltip/Tooltip';
 import ProgressIndicator from '../ProgressIndicator/ProgressIndicator';
+import Markdown from '../Markdown/Markdown';
 import styles from './Note.module.css';
 
 interface NoteProps {
   note: NoteType;
+  readOnly?: boolean; // Viewers can expand notes but not change them
+  onStartConnector?: (noteId: string) => void;
+  isSelected?: boolean; // Part of the board's multi-selection
 }
 
-const SOLID_COLORS = [
+export const SOLID_COLORS = [
   '#FFD60A', // Yellow
   '#FF9F0A', // Orange
   '#FF453A', // Red
@@ -33,6 +40,19 @@ const GRADIENTS = [
   'linear-gradient(135deg, #FFD60A 0%, #FF9F0A 100%)', // Dawn
 ];
 
+const IMAGE_WIDTH = 200; // Width of newly added images
+const EDITING_HEARTBEAT_MS = 10000; // Keeps the editing lease; the server drops it after 30s without one
+
+/**
+ * Pick the smallest thumbnail that stays sharp at the given display width,
+ * falling back to the full-size image
+ */
+function getThumbnailUrl(image: NoteImage, displayWidth: number): string {
+  const neededWidth = displayWidth * (window.devicePixelRatio || 1);
+  const thumbnail = image.thumbnails?.find(t => t.width >= neededWidth);
+  return thumbnail ? thumbnail.url : image.url;
+}
+
 const FONT_SIZES = {
   small: '13px',
   medium: '15px',
@@ -45,8 +65,24 @@ const STICKER_EMOJIS = [
   '🎨', '🎵', '📷', '🎯'
 ];
 
-const Note: React.FC<NoteProps> = ({ note }) => {
-  const { sendUpdateNote, sendDeleteNote, sendMoveNote, sendEditingStart, sendEditingEnd } = useWebSocket();
+const Note: React.FC<NoteProps> = ({ note, readOnly = false, onStartConnector, isSelected = false }) => {
+  const {
+    sendUpdateNote,
+    sendContentChange,
+    sendDeleteNote,
+    sendMoveNote,
+    sendEditingStart,
+    sendEditingHeartbeat,
+    sendEditingEnd,
+    editingLost,
+    clearEditingLost,
+    noteConflicts,
+    resolveNoteConflict,
+    noteErrors,
+    clearNoteError,
+  } = useWebSocket();
+  const conflict = noteConflicts[note.id];
+  const saveError = noteErrors[note.id];
   const { applyMomentum, setNoteStatic, setNotePosition } = usePhysicsContext();
   const { screenToBoard } = useTransform();
   const { addToast } = useApp();
@@ -76,8 +112,12 @@ const Note: React.FC<NoteProps> = ({ note }) => {
   const isInPhysicsMotionRef = useRef(false);
   const physicsMotionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
-  // Debounce content updates
-  const contentUpdateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Caret position to restore after merging a remote edit
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  // Sticker drags are sent at the same rate as note drags. Kept across the
+  // re-renders each echoed update causes, so the throttle isn't reset by them.
+  const stickerDragRef = useRef<{ lastSent: number; pending: Sticker[] | null }>({ lastSent: 0, pending: null });
 
   // Sync position with prop changes (from remote updates)
   // Use smooth animation for remote updates
@@ -129,6 +169,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
 
     const newExpanded = !isExpanded;
     setIsExpanded(newExpanded);
+    if (readOnly) return; // Expanding is local-only for viewers
     sendUpdateNote({
       noteId: note.id,
       updates: { isExpanded: newExpanded },
@@ -139,6 +180,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     // Don't start drag if clicking on interactive elements
     const target = e.target as HTMLElement;
     if (
+      readOnly ||
       target.closest('button') ||
       target.closest('[contenteditable]') ||
       target.closest('textarea') ||
@@ -302,51 +344,77 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     };
   }, [isDragging, dragStart, position, note.id, sendMoveNote, applyMomentum, setNoteStatic, setNotePosition]);
 
-  // Sync content with prop changes (only when not editing)
+  // Merge content changes from collaborators, keeping the caret in place while editing
   useEffect(() => {
-    if (!isEditing) {
-      setContent(note.content);
+    if (note.content === content) return;
+
+    const textarea = contentEditableRef.current;
+    if (isEditing && textarea instanceof HTMLTextAreaElement) {
+      const operation = diffTextOperation(content, note.content);
+      pendingSelectionRef.current = {
+        start: transformTextIndex(textarea.selectionStart, operation),
+        end: transformTextIndex(textarea.selectionEnd, operation),
+      };
     }
-  }, [note.content, isEditing]);
+    setContent(note.content);
+  }, [note.content]);
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    const textarea = contentEditableRef.current;
+    if (!selection || !(textarea instanceof HTMLTextAreaElement)) return;
+
+    pendingSelectionRef.current = null;
+    textarea.setSelectionRange(selection.start, selection.end);
+  }, [content]);
 
   const handleContentChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newContent = e.target.value;
     // Keep local state in sync while editing
     setContent(newContent);
 
-    // Debounce content updates (500ms) for real-time collaboration
-    if (contentUpdateTimeoutRef.current) {
-      clearTimeout(contentUpdateTimeoutRef.current);
-    }
+    // Edits are sent as text operations and merged with concurrent edits on the server
+    sendContentChange(note.id, newContent);
+  }, [note.id, sendContentChange]);
 
-    contentUpdateTimeoutRef.current = setTimeout(() => {
-      if (newContent !== note.content) {
-        sendUpdateNote({
-          noteId: note.id,
-          updates: { content: newContent },
-        });
-      }
-    }, 500);
-  }, [note.content, note.id, sendUpdateNote]);
+  // Ticking a checkbox in the rendered note edits its Markdown source
+  const handleToggleTask = useCallback((line: number) => {
+    const newContent = toggleMarkdownTask(content, line);
+    setContent(newContent);
+    sendContentChange(note.id, newContent);
+  }, [content, note.id, sendContentChange]);
 
   const handleContentBlur = useCallback(() => {
     setIsEditing(false);
     sendEditingEnd(note.id);
-    
-    // Send final update on blur
-    if (content !== note.content) {
-      sendUpdateNote({
-        noteId: note.id,
-        updates: { content },
-      });
-    }
-  }, [content, note.content, note.id, sendUpdateNote, sendEditingEnd]);
+  }, [note.id, sendEditingEnd]);
 
   const handleContentFocus = useCallback(() => {
+    // The lease was requested when editing began
+    setIsEditing(true);
+  }, []);
+
+  const handleTakeOver = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
     setIsEditing(true);
-    sendEditingStart(note.id);
+    sendEditingStart(note.id, true);
   }, [note.id, sendEditingStart]);
 
+  // Renew the editing lease for as long as we're editing
+  useEffect(() => {
+    if (!isEditing) return;
+    const interval = setInterval(() => sendEditingHeartbeat(note.id), EDITING_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [isEditing, note.id, sendEditingHeartbeat]);
+
+  // Leave edit mode if the server refused or revoked our lease
+  const lostEditing = editingLost[note.id];
+  useEffect(() => {
+    if (!lostEditing) return;
+    setIsEditing(false);
+    clearEditingLost(note.id);
+  }, [lostEditing, note.id, clearEditingLost]);
+
   const handleDelete = useCallback(() => {
     setShowDeleteConfirm(true);
   }, []);
@@ -373,7 +441,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     });
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -392,19 +460,17 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     }
 
     // Validate file type
-    const validTypes = ['image/jpeg', 'image/png', 'image/gif'];
+    const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
     if (!validTypes.includes(file.type)) {
       addToast({
-        message: 'Invalid file type. Please upload JPEG, PNG, or GIF images.',
+        message: 'Invalid file type. Please upload JPEG, PNG, GIF, or WebP images.',
         type: 'error',
         duration: 4000,
       });
       return;
     }
 
-    // Validate file size (10MB)
-    // Note: Base64 encoding increases size by ~33%, so 10MB file becomes ~13MB in memory
-    // TODO: Consider implementing proper file storage (file system or cloud) for better performance
+    // Validate file size (10MB, matching the server's upload limit)
     const maxSize = 10 * 1024 * 1024;
     if (file.size > maxSize) {
       const sizeMB = (file.size / (1024 * 1024)).toFixed(2);
@@ -420,82 +486,40 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     setIsUploadingImage(true);
     setUploadProgress(0);
 
-    // Convert to Base64
-    const reader = new FileReader();
-    
-    // Track progress during file read
-    reader.onprogress = (event) => {
-      if (event.lengthComputable) {
-        const progress = Math.round((event.loaded / event.total) * 100);
-        setUploadProgress(progress);
-      }
-    };
-    
-    reader.onload = (event) => {
-      try {
-        const dataUrl = event.target?.result as string;
-        
-        if (!dataUrl || typeof dataUrl !== 'string') {
-          throw new Error('Invalid data URL');
-        }
-
-        // Set to 100% before processing
-        setUploadProgress(100);
-
-        const newImage = {
-          id: `img-${Date.now()}`,
-          url: dataUrl,
-          width: 200,
-          height: 150,
-          x: 0,
-          y: 0,
-        };
-
-        sendUpdateNote({
-          noteId: note.id,
-          updates: {
-            images: [...note.images, newImage],
-          },
-        });
+    try {
+      // The file goes to the blob store; the note only keeps a reference to it
+      const blob = await uploadBlob(file, setUploadProgress);
+
+      const newImage: NoteImage = {
+        id: `img-${Date.now()}`,
+        url: blob.url,
+        width: IMAGE_WIDTH,
+        height: blob.width > 0 ? Math.round((IMAGE_WIDTH * blob.height) / blob.width) : 150,
+        x: 0,
+        y: 0,
+        thumbnails: blob.thumbnails,
+      };
 
-        addToast({
-          message: 'Image uploaded successfully',
-          type: 'success',
-          duration: 2000,
-        });
-      } catch (error) {
-        console.error('Error processing image:', error);
-        addToast({
-          message: 'Error processing image. Please try again.',
-          type: 'error',
-          duration: 4000,
-        });
-      } finally {
-        setIsUploadingImage(false);
-        setUploadProgress(0);
-      }
-    };
+      sendUpdateNote({
+        noteId: note.id,
+        updates: {
+          images: [...note.images, newImage],
+        },
+      });
 
-    reader.onerror = (error) => {
-      console.error('FileReader error:', error);
       addToast({
-        message: 'Error reading file. Please try again.',
-        type: 'error',
-        duration: 4000,
+        message: 'Image uploaded successfully',
+        type: 'success',
+        duration: 2000,
       });
-      setIsUploadingImage(false);
-      setUploadProgress(0);
-    };
-
-    try {
-      reader.readAsDataURL(file);
     } catch (error) {
-      console.error('Error starting file read:', error);
+      console.error('Error uploading image:', error);
       addToast({
-        message: 'Error reading file. Please try again.',
+        message: 'Error uploading image. Please try again.',
         type: 'error',
         duration: 4000,
       });
+    } finally {
       setIsUploadingImage(false);
       setUploadProgress(0);
     }
@@ -558,6 +582,16 @@ const Note: React.FC<NoteProps> = ({ note }) => {
   useEffect(() => {
     if (!draggingStickerId) return;
 
+    const networkUpdateThrottle = 50; // Send position updates every 50ms (20 updates/sec)
+    const drag = stickerDragRef.current;
+
+    const sendStickers = () => {
+      if (!drag.pending) return;
+      sendUpdateNote({ noteId: note.id, updates: { stickers: drag.pending } });
+      drag.pending = null;
+      drag.lastSent = Date.now();
+    };
+
     const handleStickerMove = (e: PointerEvent) => {
       const sticker = note.stickers.find(s => s.id === draggingStickerId);
       if (!sticker) return;
@@ -567,17 +601,17 @@ const Note: React.FC<NoteProps> = ({ note }) => {
       const newY = Math.max(0, Math.min(note.height - 60, e.clientY - stickerDragStart.y));
 
       // Update sticker position
-      sendUpdateNote({
-        noteId: note.id,
-        updates: {
-          stickers: note.stickers.map(s =>
-            s.id === draggingStickerId ? { ...s, x: newX, y: newY } : s
-          ),
-        },
-      });
+      drag.pending = note.stickers.map(s =>
+        s.id === draggingStickerId ? { ...s, x: newX, y: newY } : s
+      );
+      if (Date.now() - drag.lastSent >= networkUpdateThrottle) {
+        sendStickers();
+      }
     };
 
     const handleStickerUp = () => {
+      // Send where the sticker was dropped, if the throttle held it back
+      sendStickers();
       setDraggingStickerId(null);
     };
 
@@ -592,9 +626,11 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     };
   }, [draggingStickerId, stickerDragStart, note.stickers, note.id, note.width, note.height, sendUpdateNote]);
 
+  const plainText = useMemo(() => markdownToPlainText(content), [content]);
+
   const getPreviewContent = () => {
-    if (!content) return 'New note...';
-    return content.length > 50 ? content.substring(0, 50) + '...' : content;
+    if (!plainText) return 'New note...';
+    return plainText.length > 50 ? plainText.substring(0, 50) + '...' : plainText;
   };
 
   const characterCount = content.length;
@@ -609,7 +645,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
       }
 
       // Ctrl+Delete to delete note (avoids conflict with text editing)
-      if (e.key === 'Delete' && (e.ctrlKey || e.metaKey)) {
+      if (e.key === 'Delete' && (e.ctrlKey || e.metaKey) && !readOnly) {
         e.preventDefault();
         handleDelete();
       }
@@ -632,9 +668,6 @@ const Note: React.FC<NoteProps> = ({ note }) => {
       if (physicsMotionTimeoutRef.current) {
         clearTimeout(physicsMotionTimeoutRef.current);
       }
-      if (contentUpdateTimeoutRef.current) {
-        clearTimeout(contentUpdateTimeoutRef.current);
-      }
     };
   }, []);
 
@@ -642,11 +675,12 @@ const Note: React.FC<NoteProps> = ({ note }) => {
     <>
       <motion.div
         ref={noteRef}
-        className={`${styles.note} ${isDragging ? styles.dragging : ''} ${isExpanded ? styles.expanded : styles.collapsed}`}
+        className={`${styles.note} ${isDragging ? styles.dragging : ''} ${isSelected ? styles.selected : ''} ${isExpanded ? styles.expanded : styles.collapsed}`}
         data-note
+        data-note-id={note.id}
         tabIndex={0}
         role="article"
-        aria-label={`Note: ${content || 'Empty note'}`}
+        aria-label={`Note: ${plainText || 'Empty note'}`}
         aria-live="polite"
         style={{
           width: `${note.width}px`,
@@ -678,60 +712,78 @@ const Note: React.FC<NoteProps> = ({ note }) => {
       >
         {/* Header */}
         <div className={styles.header}>
-          <div className={styles.headerButtons}>
-            <Tooltip content="Customize Note">
-              <button
-                className={styles.iconButton}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setShowCustomization(!showCustomization);
-                }}
-                aria-label="Customize Note"
-              >
-                🎨
-              </button>
-            </Tooltip>
-            <Tooltip content={isUploadingImage ? 'Uploading...' : 'Add Image'}>
-              <button
-                className={styles.iconButton}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  if (!isUploadingImage) {
-                    fileInputRef.current?.click();
-                  }
-                }}
-                aria-label="Add Image"
-                disabled={isUploadingImage}
-                style={{ opacity: isUploadingImage ? 0.5 : 1 }}
-              >
-                {isUploadingImage ? '⏳' : '📷'}
-              </button>
-            </Tooltip>
-            <Tooltip content="Add Sticker">
-              <button
-                className={styles.iconButton}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setShowStickerLibrary(!showStickerLibrary);
-                }}
-                aria-label="Add Sticker"
-              >
-                ⭐
-              </button>
-            </Tooltip>
-            <Tooltip content="Delete Note" shortcut="Delete">
-              <button
-                className={styles.deleteButton}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleDelete();
-                }}
-                aria-label="Delete Note"
-              >
-                ✕
-              </button>
-            </Tooltip>
-          </div>
+          {readOnly ? (
+            <span className={styles.readOnlyBadge}>View only</span>
+          ) : (
+            <div className={styles.headerButtons}>
+              <Tooltip content="Customize Note">
+                <button
+                  className={styles.iconButton}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowCustomization(!showCustomization);
+                  }}
+                  aria-label="Customize Note"
+                >
+                  🎨
+                </button>
+              </Tooltip>
+              <Tooltip content={isUploadingImage ? 'Uploading...' : 'Add Image'}>
+                <button
+                  className={styles.iconButton}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (!isUploadingImage) {
+                      fileInputRef.current?.click();
+                    }
+                  }}
+                  aria-label="Add Image"
+                  disabled={isUploadingImage}
+                  style={{ opacity: isUploadingImage ? 0.5 : 1 }}
+                >
+                  {isUploadingImage ? '⏳' : '📷'}
+                </button>
+              </Tooltip>
+              <Tooltip content="Add Sticker">
+                <button
+                  className={styles.iconButton}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowStickerLibrary(!showStickerLibrary);
+                  }}
+                  aria-label="Add Sticker"
+                >
+                  ⭐
+                </button>
+              </Tooltip>
+              {onStartConnector && (
+                <Tooltip content="Connect to Another Note">
+                  <button
+                    className={styles.iconButton}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onStartConnector(note.id);
+                    }}
+                    aria-label="Connect to Another Note"
+                  >
+                    🔗
+                  </button>
+                </Tooltip>
+              )}
+              <Tooltip content="Delete Note" shortcut="Delete">
+                <button
+                  className={styles.deleteButton}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete();
+                  }}
+                  aria-label="Delete Note"
+                >
+                  ✕
+                </button>
+              </Tooltip>
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -761,6 +813,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
                   ref={contentEditableRef as React.RefObject<HTMLDivElement>}
                   onClick={(e) => {
                     e.stopPropagation();
+                    if (readOnly) return;
                     setIsEditing(true);
                     sendEditingStart(note.id);
                   }}
@@ -768,9 +821,10 @@ const Note: React.FC<NoteProps> = ({ note }) => {
                   data-placeholder="Type here..."
                   role="textbox"
                   aria-multiline="true"
+                  aria-readonly={readOnly}
                   tabIndex={0}
                 >
-                  {content}
+                  <Markdown source={content} onToggleTask={readOnly || isRemoteEditing ? undefined : handleToggleTask} />
                 </div>
               )}
               
@@ -785,13 +839,19 @@ const Note: React.FC<NoteProps> = ({ note }) => {
                   {note.images.map((image) => (
                     <img
                       key={image.id}
-                      src={image.url}
+                      src={getThumbnailUrl(image, image.width)}
                       alt=""
+                      title="Open full size"
                       className={styles.image}
                       style={{
                         width: `${image.width}px`,
                         height: `${image.height}px`,
                       }}
+                      onClick={(e) => {
+                        // The full-size image is only loaded when asked for
+                        e.stopPropagation();
+                        window.open(image.url, '_blank', 'noopener');
+                      }}
                     />
                   ))}
                 </div>
@@ -808,47 +868,63 @@ const Note: React.FC<NoteProps> = ({ note }) => {
                         fontSize: `${28 * sticker.scale}px`,
                         left: `${sticker.x}px`,
                         top: `${sticker.y}px`,
-                        cursor: draggingStickerId === sticker.id ? 'grabbing' : 'grab',
+                        cursor: readOnly ? 'default' : draggingStickerId === sticker.id ? 'grabbing' : 'grab',
                       }}
-                      onPointerDown={(e) => handleStickerPointerDown(e, sticker)}
+                      onPointerDown={readOnly ? undefined : (e) => handleStickerPointerDown(e, sticker)}
                     >
                       <span style={{ pointerEvents: 'none' }}>{sticker.type}</span>
-                      <div className={styles.stickerControls}>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleStickerResize(sticker.id, Math.max(0.5, sticker.scale - 0.25));
-                          }}
-                          className={styles.stickerButton}
-                        >
-                          −
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleStickerResize(sticker.id, Math.min(2.0, sticker.scale + 0.25));
-                          }}
-                          className={styles.stickerButton}
-                        >
-                          +
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleRemoveSticker(sticker.id);
-                          }}
-                          className={styles.stickerButton}
-                        >
-                          ✕
-                        </button>
-                      </div>
+                      {!readOnly && (
+                        <div className={styles.stickerControls}>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleStickerResize(sticker.id, Math.max(0.5, sticker.scale - 0.25));
+                            }}
+                            className={styles.stickerButton}
+                          >
+                            −
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleStickerResize(sticker.id, Math.min(2.0, sticker.scale + 0.25));
+                            }}
+                            className={styles.stickerButton}
+                          >
+                            +
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRemoveSticker(sticker.id);
+                            }}
+                            className={styles.stickerButton}
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
               )}
             </>
           ) : (
-            <div className={styles.preview}>{getPreviewContent()}</div>
+            <>
+              <div className={styles.preview}>{getPreviewContent()}</div>
+              {note.images.length > 0 && (
+                <div className={styles.previewImages}>
+                  {note.images.map((image) => (
+                    <img
+                      key={image.id}
+                      src={getThumbnailUrl(image, 24)}
+                      alt=""
+                      className={styles.previewImage}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </div>
 
@@ -856,6 +932,58 @@ const Note: React.FC<NoteProps> = ({ note }) => {
         {isRemoteEditing && (
           <div className={styles.editingIndicator}>
             <span className={styles.editingBadge}>✏️ Being edited</span>
+            {!readOnly && (
+              <button className={styles.takeOverButton} onClick={handleTakeOver}>
+                Take over
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Version conflict banner */}
+        {conflict && (
+          <div className={styles.conflictBanner} role="alert">
+            <span className={styles.conflictMessage}>
+              Someone else changed {conflict.conflictingFields.join(', ')} while you were editing
+            </span>
+            <div className={styles.conflictActions}>
+              <button
+                className={styles.conflictButton}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  resolveNoteConflict(note.id, 'theirs');
+                }}
+              >
+                Keep theirs
+              </button>
+              <button
+                className={`${styles.conflictButton} ${styles.conflictButtonPrimary}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  resolveNoteConflict(note.id, 'mine');
+                }}
+              >
+                Use mine
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Change the server refused, and which has been undone */}
+        {saveError && (
+          <div className={styles.saveErrorBanner} role="alert">
+            <span>Your change could not be saved: {saveError}</span>
+            <div className={styles.conflictActions}>
+              <button
+                className={styles.conflictButton}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  clearNoteError(note.id);
+                }}
+              >
+                Dismiss
+              </button>
+            </div>
           </div>
         )}
 
@@ -874,7 +1002,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/jpeg,image/png,image/gif"
+          accept="image/jpeg,image/png,image/gif,image/webp"
           style={{ display: 'none' }}
           onChange={handleImageUpload}
         />
@@ -882,7 +1010,7 @@ const Note: React.FC<NoteProps> = ({ note }) => {
 
       {/* Customization Panel */}
       <AnimatePresence>
-        {showCustomization && (
+        {showCustomization && !readOnly && (
           <motion.div
             className={styles.customizationPanel}
             style={{
@@ -0,0 +1,47 @@
+import React from 'react';
+import { useApp } from '../../contexts/AppContext';
+import { usePresence } from '../../contexts/PresenceContext';
+import { PresenceInfo } from '../../../../shared/src/types';
+import styles from './PresenceAvatars.module.css';
+
+const MAX_AVATARS = 5;
+
+const PresenceAvatars: React.FC = () => {
+  const { currentBoardId } = useApp();
+  const { getBoardPresence, followingSessionId, followUser } = usePresence();
+
+  if (!currentBoardId) return null;
+
+  // One avatar per person, even with several tabs open
+  const people = new Map<string, PresenceInfo>();
+  for (const user of getBoardPresence(currentBoardId)) {
+    people.set(user.userId, user);
+  }
+  const visible = Array.from(people.values()).slice(0, MAX_AVATARS);
+  const hidden = people.size - visible.length;
+
+  if (people.size === 0) return null;
+
+  return (
+    <div className={styles.avatarStack} aria-label={`${people.size} other people on this board`}>
+      {visible.map(user => {
+        const isFollowing = user.sessionId === followingSessionId;
+        return (
+          <button
+            key={user.userId}
+            className={`${styles.avatar} ${isFollowing ? styles.following : ''}`}
+            style={{ background: user.color, ...(isFollowing && { boxShadow: `0 0 0 2px ${user.color}` }) }}
+            title={isFollowing ? `Stop following ${user.name}` : `Follow ${user.name}`}
+            aria-pressed={isFollowing}
+            onClick={() => followUser(isFollowing ? null : user.sessionId)}
+          >
+            {user.name.charAt(0).toUpperCase()}
+          </button>
+        );
+      })}
+      {hidden > 0 && <div className={`${styles.avatar} ${styles.more}`}>+{hidden}</div>}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { usePresence } from '../../contexts/PresenceContext';
+import { useTransform } from '../../contexts/TransformContext';
+import styles from './RemoteCursors.module.css';
+
+interface RemoteCursorsProps {
+  boardId: string;
+}
+
+// Other people's pointers, drawn over the board at a constant size whatever the zoom
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ boardId }) => {
+  const { getBoardPresence } = usePresence();
+  const { boardToScreen, transformState } = useTransform();
+
+  return (
+    <div className={styles.cursorLayer} aria-hidden="true">
+      {getBoardPresence(boardId).map(user => {
+        if (!user.cursor) return null;
+        // The layer covers the board, so screen positions are taken relative to it
+        const screen = boardToScreen(user.cursor.x, user.cursor.y);
+        const position = { x: screen.x - transformState.offsetX, y: screen.y - transformState.offsetY };
+
+        return (
+          <div
+            key={user.sessionId}
+            className={styles.cursor}
+            style={{ transform: `translate(${position.x}px, ${position.y}px)` }}
+          >
+            <svg width="16" height="20" viewBox="0 0 16 20" className={styles.pointer}>
+              <path d="M1 1 L1 16 L5 12 L8 19 L11 18 L8 11 L14 11 Z" fill={user.color} stroke="#FFFFFF" strokeWidth="1.5" />
+            </svg>
+            <span className={styles.label} style={{ background: user.color }}>
+              {user.name}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RemoteCursors;
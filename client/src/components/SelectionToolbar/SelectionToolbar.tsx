@@ -0,0 +1,59 @@
+import React from 'react';
+import { Note } from '../../../../shared/src/types';
+import { SOLID_COLORS } from '../Note/Note';
+import styles from './SelectionToolbar.module.css';
+
+interface SelectionToolbarProps {
+  count: number;
+  onRecolor: (color: string) => void;
+  onFontSize: (fontSize: Note['fontSize']) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const FONT_SIZE_OPTIONS: Array<{ value: Note['fontSize']; label: string }> = [
+  { value: 'small', label: 'S' },
+  { value: 'medium', label: 'M' },
+  { value: 'large', label: 'L' },
+];
+
+// Actions for every selected note at once
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ count, onRecolor, onFontSize, onDelete, onClear }) => (
+  <div className={styles.selectionToolbar} role="toolbar" aria-label="Selected notes">
+    <span className={styles.count}>{count} selected</span>
+
+    <div className={styles.group}>
+      {SOLID_COLORS.map(color => (
+        <button
+          key={color}
+          className={styles.colorButton}
+          style={{ backgroundColor: color }}
+          aria-label={`Colour ${color}`}
+          onClick={() => onRecolor(color)}
+        />
+      ))}
+    </div>
+
+    <div className={styles.group}>
+      {FONT_SIZE_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          className={styles.textButton}
+          aria-label={`Font size ${option.value}`}
+          onClick={() => onFontSize(option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+
+    <button className={styles.deleteButton} onClick={onDelete}>
+      Delete
+    </button>
+    <button className={styles.textButton} aria-label="Clear selection" onClick={onClear}>
+      ✕
+    </button>
+  </div>
+);
+
+export default SelectionToolbar;
@@ -23,7 +23,24 @@ vi.mock('../../contexts/WebSocketContext', () => ({
   }),
 }));
 
+vi.mock('../../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', username: 'alice', createdAt: Date.now() },
+    logout: vi.fn(),
+  }),
+}));
+
 describe('Sidebar Component', () => {
+  it('shows the signed-in user', () => {
+    render(
+      <BrowserRouter>
+        <Sidebar />
+      </BrowserRouter>
+    );
+    expect(screen.getByText('alice')).toBeInTheDocument();
+    expect(screen.getByText('Sign out')).toBeInTheDocument();
+  });
+
   it('renders board list', () => {
     render(
       <BrowserRouter>
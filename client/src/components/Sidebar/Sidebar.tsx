@@ -3,13 +3,21 @@ import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useApp } from '../../contexts/AppContext';
 import { useWebSocket } from '../../contexts/WebSocketContext';
+import { useAuth } from '../../contexts/AuthContext';
 import Tooltip from '../Tooltip/Tooltip';
+import { Note, TrashContents } from '../../../../shared/src/types';
+import { markdownToPlainText } from '../../../../shared/src/markdown';
 import styles from './Sidebar.module.css';
 
+// Search what the note says, not its Markdown syntax
+const noteMatches = (note: Note, query: string) =>
+  markdownToPlainText(note.content).toLowerCase().includes(query);
+
 const Sidebar: React.FC = () => {
   const navigate = useNavigate();
   const { boards, currentBoardId, setCurrentBoardId, addToast, addBoard, deleteBoard } = useApp();
-  const { sendCreateBoard, sendDeleteBoard, sendRenameBoard } = useWebSocket();
+  const { sendCreateBoard, sendDeleteBoard, sendRenameBoard, sendRestoreBoard, sendRestoreNote } = useWebSocket();
+  const { user, logout } = useAuth();
   
   const [isCollapsed, setIsCollapsed] = useState(() => {
     // Load from localStorage or default based on screen size
@@ -26,6 +34,7 @@ const Sidebar: React.FC = () => {
   const [editingBoardId, setEditingBoardId] = useState<string | null>(null);
   const [editingBoardName, setEditingBoardName] = useState('');
   const [deletingBoardId, setDeletingBoardId] = useState<string | null>(null);
+  const [trash, setTrash] = useState<TrashContents | null>(null);
   
   const newBoardInputRef = useRef<HTMLInputElement>(null);
   const editBoardInputRef = useRef<HTMLInputElement>(null);
@@ -125,6 +134,38 @@ const Sidebar: React.FC = () => {
     }
   };
 
+  const handleOpenTrash = async () => {
+    try {
+      const response = await fetch('/api/trash');
+      if (response.ok) {
+        setTrash(await response.json());
+      } else {
+        addToast({
+          message: 'Failed to load trash. Please try again.',
+          type: 'error',
+          duration: 4000,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      addToast({
+        message: 'Failed to load trash. Please check your connection.',
+        type: 'error',
+        duration: 4000,
+      });
+    }
+  };
+
+  const handleRestoreBoard = (boardId: string) => {
+    sendRestoreBoard({ boardId });
+    setTrash(prev => prev && { ...prev, boards: prev.boards.filter(b => b.id !== boardId) });
+  };
+
+  const handleRestoreNote = (noteId: string) => {
+    sendRestoreNote({ noteId });
+    setTrash(prev => prev && { ...prev, notes: prev.notes.filter(n => n.id !== noteId) });
+  };
+
   const handleStartRename = (boardId: string, currentName: string) => {
     setEditingBoardId(boardId);
     setEditingBoardName(currentName);
@@ -171,9 +212,7 @@ const Sidebar: React.FC = () => {
         return true;
       }
       // Check if any note content matches
-      return board.notes.some(note => 
-        note.content.toLowerCase().includes(query)
-      );
+      return board.notes.some(note => noteMatches(note, query));
     });
   }, [boards, searchQuery]);
 
@@ -289,13 +328,9 @@ const Sidebar: React.FC = () => {
                         title={board.name}
                       >
                         <span className={styles.boardName}>{board.name}</span>
-                        {searchQuery && board.notes.some(note => 
-                          note.content.toLowerCase().includes(searchQuery.toLowerCase())
-                        ) && (
+                        {searchQuery && board.notes.some(note => noteMatches(note, searchQuery.toLowerCase())) && (
                           <span className={styles.matchBadge}>
-                            {board.notes.filter(note => 
-                              note.content.toLowerCase().includes(searchQuery.toLowerCase())
-                            ).length}
+                            {board.notes.filter(note => noteMatches(note, searchQuery.toLowerCase())).length}
                           </span>
                         )}
                       </button>
@@ -313,6 +348,22 @@ const Sidebar: React.FC = () => {
             </motion.ul>
           )}
         </div>
+
+        {/* Trash, invites and account */}
+        <div className={styles.footer}>
+          <button className={styles.trashButton} onClick={handleOpenTrash}>
+            🗑 Trash
+          </button>
+          <button className={styles.trashButton} onClick={() => navigate('/invites')}>
+            🔗 Invites
+          </button>
+          <div className={styles.account}>
+            <span className={styles.username}>{user?.username}</span>
+            <button className={styles.logoutButton} onClick={logout}>
+              Sign out
+            </button>
+          </div>
+        </div>
       </motion.aside>
 
       {/* Toggle Button */}
@@ -410,7 +461,7 @@ const Sidebar: React.FC = () => {
             >
               <h3>Delete Board</h3>
               <p>Are you sure you want to delete "{boards.find(b => b.id === deletingBoardId)?.name}"?</p>
-              <p className={styles.warningText}>This action cannot be undone.</p>
+              <p className={styles.warningText}>The board will be moved to the trash.</p>
               <div className={styles.dialogActions}>
                 <button
                   className={styles.cancelButton}
@@ -429,6 +480,76 @@ const Sidebar: React.FC = () => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Trash Dialog */}
+      <AnimatePresence>
+        {trash && (
+          <motion.div
+            className={styles.dialogOverlay}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            onClick={() => setTrash(null)}
+          >
+            <motion.div
+              className={styles.dialog}
+              initial={{ scale: 0.8, opacity: 0, y: 20 }}
+              animate={{ scale: 1, opacity: 1, y: 0 }}
+              exit={{ scale: 0.8, opacity: 0, y: 20 }}
+              transition={{
+                type: 'spring',
+                stiffness: 300,
+                damping: 25
+              }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h3>Trash</h3>
+              {trash.boards.length === 0 && trash.notes.length === 0 ? (
+                <p>The trash is empty.</p>
+              ) : (
+                <ul className={styles.trashList}>
+                  {trash.boards.map((board) => (
+                    <li key={board.id} className={styles.trashItem}>
+                      <span className={styles.trashName}>📋 {board.name}</span>
+                      <button
+                        className={styles.cancelButton}
+                        onClick={() => handleRestoreBoard(board.id)}
+                      >
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                  {trash.notes.map((note) => (
+                    <li key={note.id} className={styles.trashItem}>
+                      <span className={styles.trashName}>
+                        📝 {markdownToPlainText(note.content).trim().slice(0, 40) || 'Empty note'}
+                        <span className={styles.trashBoardName}>
+                          {boards.find(b => b.id === note.boardId)?.name}
+                        </span>
+                      </span>
+                      <button
+                        className={styles.cancelButton}
+                        onClick={() => handleRestoreNote(note.id)}
+                      >
+                        Restore
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className={styles.dialogActions}>
+                <button
+                  className={styles.cancelButton}
+                  onClick={() => setTrash(null)}
+                >
+                  Close
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </>
   );
 };
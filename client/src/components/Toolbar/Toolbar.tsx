@@ -1,5 +1,6 @@
 import React from 'react';
 import ConnectionStatus from '../ConnectionStatus/ConnectionStatus';
+import PresenceAvatars from '../PresenceAvatars/PresenceAvatars';
 import Tooltip from '../Tooltip/Tooltip';
 import styles from './Toolbar.module.css';
 
@@ -9,7 +10,10 @@ interface ToolbarProps {
   onResetZoom?: () => void;
   onFitToScreen?: () => void;
   onNewNote?: () => void;
+  onNewFrame?: () => void;
+  onInvite?: () => void;
   zoomLevel?: number;
+  readOnly?: boolean;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -18,7 +22,10 @@ const Toolbar: React.FC<ToolbarProps> = ({
   onResetZoom,
   onFitToScreen,
   onNewNote,
+  onNewFrame,
+  onInvite,
   zoomLevel = 1,
+  readOnly = false,
 }) => {
   const formatZoomLevel = (level: number) => {
     return `${Math.round(level * 100)}%`;
@@ -41,6 +48,19 @@ const Toolbar: React.FC<ToolbarProps> = ({
           </Tooltip>
         )}
 
+        {onNewFrame && (
+          <Tooltip content="Group notes in a named frame">
+            <button
+              className={styles.secondaryButton}
+              onClick={onNewFrame}
+              aria-label="Create New Frame"
+            >
+              <span className={styles.icon}>⬚</span>
+              New Frame
+            </button>
+          </Tooltip>
+        )}
+
         {/* Zoom Controls */}
         <div className={styles.zoomControls}>
           {onZoomOut && (
@@ -97,6 +117,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
       </div>
       
       <div className={styles.status}>
+        {readOnly && <span className={styles.readOnlyBadge}>View only</span>}
+        {onInvite && (
+          <Tooltip content="Invite people to this board">
+            <button className={styles.iconButton} onClick={onInvite} aria-label="Invite people">
+              <span className={styles.icon}>🔗</span>
+            </button>
+          </Tooltip>
+        )}
+        <PresenceAvatars />
         <ConnectionStatus />
       </div>
     </div>
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { Board, Note } from '../../../shared/src/types';
+import { BatchResultPayload, Board, BoardSyncDelta, BulkNoteResultPayload, Connector, Frame, FrameMovedPayload, Note } from '../../../shared/src/types';
 import { ToastMessage } from '../components/Toast/Toast';
 
 export type ConnectionStatus = 'connected' | 'disconnected' | 'reconnecting';
@@ -20,11 +20,30 @@ interface AppContextType {
   addNote: (note: Note) => void;
   updateNote: (noteId: string, updates: Partial<Note>) => void;
   deleteNote: (noteId: string) => void;
+  applyBulkNotes: (result: BulkNoteResultPayload) => void;
+  applyBatch: (result: BatchResultPayload) => void;
+  applyBoardDelta: (delta: BoardSyncDelta) => void;
+  addOrUpdateConnector: (connector: Connector) => void;
+  deleteConnector: (connectorId: string) => void;
+  addOrUpdateFrame: (frame: Frame) => void;
+  moveFrame: (moved: FrameMovedPayload) => void;
+  deleteFrame: (frameId: string) => void;
   getCurrentBoard: () => Board | undefined;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Replace changed items in place, drop deleted ones and append new ones
+const mergeById = <T extends { id: string }>(items: T[] = [], changed: T[], deletedIds: string[]) => {
+  const deleted = new Set(deletedIds);
+  const changedById = new Map(changed.map(item => [item.id, item]));
+  const existing = new Set(items.map(item => item.id));
+  return [
+    ...items.filter(item => !deleted.has(item.id)).map(item => changedById.get(item.id) ?? item),
+    ...changed.filter(item => !existing.has(item.id)),
+  ];
+};
+
 export const useApp = () => {
   const context = useContext(AppContext);
   if (!context) {
@@ -107,10 +126,131 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   }, []);
 
   const deleteNote = useCallback((noteId: string) => {
+    // The server drops connectors to a deleted note without announcing each one
     setBoards(prev =>
       prev.map(board => ({
         ...board,
         notes: board.notes.filter(note => note.id !== noteId),
+        connectors: board.connectors?.filter(
+          connector => connector.sourceNoteId !== noteId && connector.targetNoteId !== noteId
+        ),
+      }))
+    );
+  }, []);
+
+  // Every note in a bulk change updates in the same render
+  const applyBulkNotes = useCallback(({ boardId, notes, deletedNoteIds }: BulkNoteResultPayload) => {
+    const changed = new Map(notes.map(note => [note.id, note]));
+    const deleted = new Set(deletedNoteIds);
+    setBoards(prev =>
+      prev.map(board => {
+        if (board.id !== boardId) {
+          return board;
+        }
+        return {
+          ...board,
+          notes: board.notes
+            .filter(note => !deleted.has(note.id))
+            .map(note => changed.get(note.id) ?? note),
+          connectors: deleted.size === 0 ? board.connectors : board.connectors?.filter(
+            connector => !deleted.has(connector.sourceNoteId) && !deleted.has(connector.targetNoteId)
+          ),
+        };
+      })
+    );
+  }, []);
+
+  // A batch lands in a single render, so no one sees it half applied
+  const applyBatch = useCallback((result: BatchResultPayload) => {
+    setBoards(prev =>
+      prev.map(board => {
+        if (board.id !== result.boardId) {
+          return board;
+        }
+        const deletedNotes = new Set(result.deletedNoteIds);
+        return {
+          ...board,
+          notes: mergeById(board.notes, result.notes, result.deletedNoteIds),
+          connectors: mergeById(board.connectors, result.connectors, result.deletedConnectorIds).filter(
+            connector => !deletedNotes.has(connector.sourceNoteId) && !deletedNotes.has(connector.targetNoteId)
+          ),
+          frames: mergeById(board.frames, result.frames, result.deletedFrameIds),
+        };
+      })
+    );
+  }, []);
+
+  // Bring a board up to date from a sync that sent only what changed
+  const applyBoardDelta = useCallback((delta: BoardSyncDelta) => {
+    setBoards(prev =>
+      prev.map(board => (
+        board.id === delta.board.id
+          ? { ...delta.board, notes: mergeById(board.notes, delta.notes, delta.deletedNoteIds) }
+          : board
+      ))
+    );
+  }, []);
+
+  const addOrUpdateConnector = useCallback((connector: Connector) => {
+    setBoards(prev =>
+      prev.map(board => {
+        if (board.id !== connector.boardId) {
+          return board;
+        }
+        const others = (board.connectors || []).filter(c => c.id !== connector.id);
+        return { ...board, connectors: [...others, connector] };
+      })
+    );
+  }, []);
+
+  const deleteConnector = useCallback((connectorId: string) => {
+    setBoards(prev =>
+      prev.map(board => ({
+        ...board,
+        connectors: board.connectors?.filter(connector => connector.id !== connectorId),
+      }))
+    );
+  }, []);
+
+  const addOrUpdateFrame = useCallback((frame: Frame) => {
+    setBoards(prev =>
+      prev.map(board => {
+        if (board.id !== frame.boardId) {
+          return board;
+        }
+        const frames = board.frames || [];
+        return frames.some(f => f.id === frame.id)
+          ? { ...board, frames: frames.map(f => (f.id === frame.id ? frame : f)) }
+          : { ...board, frames: [...frames, frame] };
+      })
+    );
+  }, []);
+
+  // The frame and the notes it carries move in one render
+  const moveFrame = useCallback(({ frame, notes }: FrameMovedPayload) => {
+    const positions = new Map(notes.map(({ noteId, x, y }) => [noteId, { x, y }]));
+    setBoards(prev =>
+      prev.map(board => {
+        if (board.id !== frame.boardId) {
+          return board;
+        }
+        return {
+          ...board,
+          frames: (board.frames || []).map(f => (f.id === frame.id ? frame : f)),
+          notes: board.notes.map(note => {
+            const position = positions.get(note.id);
+            return position ? { ...note, ...position } : note;
+          }),
+        };
+      })
+    );
+  }, []);
+
+  const deleteFrame = useCallback((frameId: string) => {
+    setBoards(prev =>
+      prev.map(board => ({
+        ...board,
+        frames: board.frames?.filter(frame => frame.id !== frameId),
       }))
     );
   }, []);
@@ -135,6 +275,14 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     addNote,
     updateNote,
     deleteNote,
+    applyBulkNotes,
+    applyBatch,
+    applyBoardDelta,
+    addOrUpdateConnector,
+    deleteConnector,
+    addOrUpdateFrame,
+    moveFrame,
+    deleteFrame,
     getCurrentBoard,
   };
 
@@ -0,0 +1,120 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { User } from '../../../shared/src/types';
+import { websocketService } from '../services/websocket';
+import { offlineStore } from '../services/offlineStore';
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean; // True until the existing session has been checked
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+// The last user to sign in, so the app can open from its offline cache when
+// the server can't be reached to check the session
+const CACHED_USER_KEY = 'cachedUser';
+
+const loadCachedUser = (): User | null => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHED_USER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+};
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const signIn = useCallback((signedIn: User | null) => {
+    if (signedIn) {
+      websocketService.setUserId(signedIn.id);
+      localStorage.setItem(CACHED_USER_KEY, JSON.stringify(signedIn));
+    } else {
+      localStorage.removeItem(CACHED_USER_KEY);
+    }
+    offlineStore.setUser(signedIn?.id ?? null);
+    setUser(signedIn);
+  }, []);
+
+  useEffect(() => {
+    // Pick up an existing session cookie
+    const fetchUser = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (response.ok) {
+          signIn(await response.json());
+        } else if (response.status === 401) {
+          signIn(null);
+        } else {
+          // The server is down; carry on offline as whoever was signed in
+          signIn(loadCachedUser());
+        }
+      } catch (error) {
+        console.error('Failed to check session:', error);
+        signIn(loadCachedUser());
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUser();
+  }, [signIn]);
+
+  const submitCredentials = useCallback(async (path: string, username: string, password: string) => {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(data.message || 'Request failed');
+    }
+    signIn(data as User);
+  }, [signIn]);
+
+  const login = useCallback(
+    (username: string, password: string) => submitCredentials('/api/auth/login', username, password),
+    [submitCredentials]
+  );
+
+  const register = useCallback(
+    (username: string, password: string) => submitCredentials('/api/auth/register', username, password),
+    [submitCredentials]
+  );
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      signIn(null);
+    }
+  }, [signIn]);
+
+  const value: AuthContextType = {
+    user,
+    isLoading,
+    login,
+    register,
+    logout,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useRef, useEffect, useCallback } from 'react';
 import { PhysicsManager } from '../services/physicsManager';
-import { Note } from '../../../shared/src/types';
+import { Frame, Note } from '../../../shared/src/types';
 
 interface ViewportBounds {
   minX: number;
@@ -16,6 +16,8 @@ interface PhysicsContextType {
   addOrUpdateNote: (note: Note) => void;
   removeNote: (noteId: string) => void;
   setViewportBounds: (bounds: ViewportBounds) => void;
+  getNotePosition: (noteId: string) => { x: number; y: number } | undefined;
+  setFrames: (frames: Frame[]) => void;
 }
 
 const PhysicsContext = createContext<PhysicsContextType | null>(null);
@@ -31,6 +33,8 @@ export const usePhysicsContext = () => {
       addOrUpdateNote: () => {},
       removeNote: () => {},
       setViewportBounds: () => {},
+      getNotePosition: () => undefined,
+      setFrames: () => {},
     };
   }
   return context;
@@ -100,6 +104,16 @@ export const PhysicsProvider: React.FC<PhysicsProviderProps> = ({
     }
   }, []);
 
+  const getNotePosition = useCallback((noteId: string) => {
+    return physicsManagerRef.current?.getNotePosition(noteId);
+  }, []);
+
+  const setFrames = useCallback((frames: Frame[]) => {
+    if (physicsManagerRef.current) {
+      physicsManagerRef.current.setFrames(frames);
+    }
+  }, []);
+
   const value: PhysicsContextType = {
     applyMomentum,
     setNoteStatic,
@@ -107,6 +121,8 @@ export const PhysicsProvider: React.FC<PhysicsProviderProps> = ({
     addOrUpdateNote,
     removeNote,
     setViewportBounds,
+    getNotePosition,
+    setFrames,
   };
 
   return (
@@ -0,0 +1,175 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { websocketService } from '../services/websocket';
+import {
+  WSMessage,
+  PresenceInfo,
+  PresenceStatePayload,
+  CursorMovePayload,
+  Viewport,
+  ViewportPayload,
+  WSMessageType,
+} from '../../../shared/src/types';
+
+const PRESENCE_THROTTLE_MS = 50; // Same rate as note drags
+
+interface PresenceContextType {
+  // Other connections with the board open (this tab is left out)
+  getBoardPresence: (boardId: string) => PresenceInfo[];
+  sendCursorMove: (boardId: string, x: number, y: number) => void;
+  sendViewport: (boardId: string, viewport: Viewport) => void;
+  // The connection whose viewport this tab is mirroring
+  followingSessionId: string | null;
+  followUser: (sessionId: string | null) => void;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('usePresence must be used within PresenceProvider');
+  }
+  return context;
+};
+
+type BoardPresence = Record<string, Record<string, PresenceInfo>>; // boardId -> sessionId -> info
+
+/**
+ * Send at most one message per interval, always finishing with the latest payload.
+ * Nothing is queued while offline since positions go stale immediately.
+ */
+function useThrottledSend<T>(type: WSMessageType) {
+  const lastSentRef = useRef(0);
+  const pendingRef = useRef<T | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+  }, []);
+
+  return useCallback((payload: T) => {
+    if (!websocketService.isConnected()) return;
+
+    pendingRef.current = payload;
+    if (timerRef.current) return;
+
+    const flush = () => {
+      timerRef.current = null;
+      if (pendingRef.current) {
+        websocketService.send(type, pendingRef.current);
+        pendingRef.current = null;
+        lastSentRef.current = Date.now();
+      }
+    };
+    const wait = PRESENCE_THROTTLE_MS - (Date.now() - lastSentRef.current);
+    if (wait <= 0) {
+      flush();
+    } else {
+      timerRef.current = setTimeout(flush, wait);
+    }
+  }, [type]);
+}
+
+interface PresenceProviderProps {
+  children: ReactNode;
+}
+
+export const PresenceProvider: React.FC<PresenceProviderProps> = ({ children }) => {
+  const [presence, setPresence] = useState<BoardPresence>({});
+  const [followingSessionId, setFollowingSessionId] = useState<string | null>(null);
+  const sendCursor = useThrottledSend<CursorMovePayload>('presence:cursor');
+  const sendViewportUpdate = useThrottledSend<ViewportPayload>('presence:viewport');
+
+  useEffect(() => {
+    const updateBoard = (boardId: string, update: (sessions: Record<string, PresenceInfo>) => Record<string, PresenceInfo>) => {
+      setPresence(prev => ({ ...prev, [boardId]: update(prev[boardId] || {}) }));
+    };
+
+    const handleState = (message: WSMessage) => {
+      const { boardId, users } = message.payload as PresenceStatePayload;
+      updateBoard(boardId, () => Object.fromEntries(users.map(user => [user.sessionId, user])));
+    };
+
+    const handleJoin = (message: WSMessage) => {
+      const { boardId, user } = message.payload as { boardId: string; user: PresenceInfo };
+      updateBoard(boardId, sessions => ({ ...sessions, [user.sessionId]: user }));
+    };
+
+    const handleLeave = (message: WSMessage) => {
+      const { boardId, sessionId } = message.payload as { boardId: string; sessionId: string };
+      updateBoard(boardId, ({ [sessionId]: _left, ...rest }) => rest);
+    };
+
+    const handleCursor = (message: WSMessage) => {
+      const { boardId, sessionId, x, y } = message.payload as CursorMovePayload;
+      updateBoard(boardId, sessions => {
+        const user = sessionId ? sessions[sessionId] : undefined;
+        return user ? { ...sessions, [user.sessionId]: { ...user, cursor: { x, y } } } : sessions;
+      });
+    };
+
+    const handleViewport = (message: WSMessage) => {
+      const { boardId, sessionId, x, y, scale } = message.payload as ViewportPayload;
+      updateBoard(boardId, sessions => {
+        const user = sessionId ? sessions[sessionId] : undefined;
+        return user ? { ...sessions, [user.sessionId]: { ...user, viewport: { x, y, scale } } } : sessions;
+      });
+    };
+
+    const handleConnectionChange = (message: WSMessage) => {
+      // The server sends the full list again when boards are re-joined
+      if (message.payload?.status === 'disconnected') {
+        setPresence({});
+        setFollowingSessionId(null);
+      }
+    };
+
+    websocketService.on('presence:state', handleState);
+    websocketService.on('presence:join', handleJoin);
+    websocketService.on('presence:leave', handleLeave);
+    websocketService.on('presence:cursor', handleCursor);
+    websocketService.on('presence:viewport', handleViewport);
+    websocketService.on('sync:response', handleConnectionChange);
+
+    return () => {
+      websocketService.off('presence:state', handleState);
+      websocketService.off('presence:join', handleJoin);
+      websocketService.off('presence:leave', handleLeave);
+      websocketService.off('presence:cursor', handleCursor);
+      websocketService.off('presence:viewport', handleViewport);
+      websocketService.off('sync:response', handleConnectionChange);
+    };
+  }, []);
+
+  // Stop following once the leader closes the board or drops off
+  useEffect(() => {
+    if (followingSessionId && !Object.values(presence).some(sessions => sessions[followingSessionId])) {
+      setFollowingSessionId(null);
+    }
+  }, [presence, followingSessionId]);
+
+  const getBoardPresence = useCallback((boardId: string) => {
+    const ownSessionId = websocketService.getSessionId();
+    return Object.values(presence[boardId] || {}).filter(user => user.sessionId !== ownSessionId);
+  }, [presence]);
+
+  const sendCursorMove = useCallback((boardId: string, x: number, y: number) => {
+    sendCursor({ boardId, x: Math.round(x), y: Math.round(y) });
+  }, [sendCursor]);
+
+  const sendViewport = useCallback((boardId: string, viewport: Viewport) => {
+    sendViewportUpdate({ boardId, ...viewport });
+  }, [sendViewportUpdate]);
+
+  const value: PresenceContextType = React.useMemo(() => ({
+    getBoardPresence,
+    sendCursorMove,
+    sendViewport,
+    followingSessionId,
+    followUser: setFollowingSessionId,
+  }), [getBoardPresence, sendCursorMove, sendViewport, followingSessionId]);
+
+  return <PresenceContext.Provider value={value}>{children}</PresenceContext.Provider>;
+};
@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useEffect, ReactNode } from 'react';
-import { websocketService } from '../services/websocket';
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { websocketService, PendingOperation, OperationRejection } from '../services/websocket';
+import { NoteContentSync } from '../services/noteContentSync';
 import { useApp, ConnectionStatus } from './AppContext';
 import {
   WSMessage,
@@ -7,21 +8,72 @@ import {
   Board,
   CreateNotePayload,
   UpdateNotePayload,
+  NoteEditedPayload,
+  NoteEditAckPayload,
+  NoteEditRejectedPayload,
+  NoteConflictPayload,
   DeleteNotePayload,
   MoveNotePayload,
+  BulkNotePayload,
+  BulkNoteResultPayload,
   CreateBoardPayload,
   DeleteBoardPayload,
   RenameBoardPayload,
+  RestoreNotePayload,
+  RestoreBoardPayload,
   SyncResponsePayload,
+  EditingDeniedPayload,
+  EditingRevokedPayload,
+  Connector,
+  CreateConnectorPayload,
+  UpdateConnectorPayload,
+  DeleteConnectorPayload,
+  Frame,
+  FrameMovedPayload,
+  CreateFramePayload,
+  UpdateFramePayload,
+  MoveFramePayload,
+  DeleteFramePayload,
+  BatchPayload,
+  BatchResultPayload,
 } from '../../../shared/src/types';
 
+// Why this tab can't (or can no longer) edit a note
+export type EditingLostReason = 'denied' | EditingRevokedPayload['reason'];
+
 interface WebSocketContextType {
   sendCreateNote: (payload: CreateNotePayload) => void;
   sendUpdateNote: (payload: UpdateNotePayload) => void;
+  sendContentChange: (noteId: string, content: string) => void;
+  noteConflicts: Record<string, NoteConflictPayload>;
+  resolveNoteConflict: (noteId: string, resolution: 'mine' | 'theirs') => void;
+  sendUndo: (boardId: string) => void;
+  sendRedo: (boardId: string) => void;
+  sendRestoreNote: (payload: RestoreNotePayload) => void;
+  sendRestoreBoard: (payload: RestoreBoardPayload) => void;
   sendDeleteNote: (payload: DeleteNotePayload) => void;
   sendMoveNote: (payload: MoveNotePayload) => void;
-  sendEditingStart: (noteId: string) => void;
+  sendBulkNotes: (payload: BulkNotePayload) => void;
+  // Several changes to one board, applied by the server all or nothing
+  sendBatch: (payload: BatchPayload) => void;
+  sendEditingStart: (noteId: string, takeover?: boolean) => void;
+  sendEditingHeartbeat: (noteId: string) => void;
   sendEditingEnd: (noteId: string) => void;
+  // Notes this tab was editing but no longer holds the editing lease for
+  editingLost: Record<string, EditingLostReason>;
+  clearEditingLost: (noteId: string) => void;
+  // Changes sent to the server and not yet acknowledged
+  pendingOperations: PendingOperation[];
+  // Why the server refused the latest change to a note, which has been undone
+  noteErrors: Record<string, string>;
+  clearNoteError: (noteId: string) => void;
+  sendCreateConnector: (payload: CreateConnectorPayload) => void;
+  sendUpdateConnector: (payload: UpdateConnectorPayload) => void;
+  sendDeleteConnector: (payload: DeleteConnectorPayload) => void;
+  sendCreateFrame: (payload: CreateFramePayload) => void;
+  sendUpdateFrame: (payload: UpdateFramePayload) => void;
+  sendMoveFrame: (payload: MoveFramePayload) => void;
+  sendDeleteFrame: (payload: DeleteFramePayload) => void;
   sendCreateBoard: (payload: CreateBoardPayload) => void;
   sendDeleteBoard: (payload: DeleteBoardPayload) => void;
   sendRenameBoard: (payload: RenameBoardPayload) => void;
@@ -32,6 +84,37 @@ interface WebSocketContextType {
 
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
+// IDs for the notes, connectors and frames this client creates. randomUUID is
+// only available in secure contexts, e.g. not over plain http to a LAN address.
+const createId = (): string => (
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+);
+
+// Nothing is echoed back by the server while offline, so changes are shown
+// straight away and sent from the outbox once reconnected
+const whileOffline = (apply: () => void) => {
+  if (!websocketService.isConnected()) {
+    apply();
+  }
+};
+
+// The board a change was made to, found from the IDs in its payload
+const findOperationBoard = (
+  payload: Partial<{ boardId: string; noteId: string; connectorId: string; frameId: string }>,
+  boards: Board[]
+): Board | undefined => {
+  if (payload.boardId) {
+    return boards.find(board => board.id === payload.boardId);
+  }
+  return boards.find(board => (
+    board.notes.some(note => note.id === payload.noteId)
+    || board.connectors?.some(connector => connector.id === payload.connectorId)
+    || board.frames?.some(frame => frame.id === payload.frameId)
+  ));
+};
+
 export const useWebSocket = () => {
   const context = useContext(WebSocketContext);
   if (!context) {
@@ -51,11 +134,27 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
 }) => {
   // Track pending note creation to prevent duplicates
   const pendingNoteCreationRef = React.useRef<Set<string>>(new Set());
+  // Operational transform state for each note whose content has been edited
+  const contentSyncsRef = React.useRef<Map<string, NoteContentSync>>(new Map());
+  // Updates the server rejected because someone else changed the same fields
+  const [noteConflicts, setNoteConflicts] = useState<Record<string, NoteConflictPayload>>({});
+  const [editingLost, setEditingLost] = useState<Record<string, EditingLostReason>>({});
+  const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+  const [noteErrors, setNoteErrors] = useState<Record<string, string>>({});
   
   const {
+    boards,
     addNote,
     updateNote,
     deleteNote,
+    applyBulkNotes,
+    applyBatch,
+    applyBoardDelta,
+    addOrUpdateConnector,
+    deleteConnector,
+    addOrUpdateFrame,
+    moveFrame,
+    deleteFrame,
     addBoard,
     updateBoard,
     deleteBoard,
@@ -66,6 +165,46 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   
   const getCurrentBoardId = React.useCallback(() => currentBoardId, [currentBoardId]);
 
+  // Latest boards for handlers that must not re-subscribe on every change
+  const boardsRef = React.useRef(boards);
+  boardsRef.current = boards;
+
+  const findNote = React.useCallback((noteId: string): Note | undefined => {
+    for (const board of boardsRef.current) {
+      const note = board.notes.find(n => n.id === noteId);
+      if (note) return note;
+    }
+    return undefined;
+  }, []);
+
+  const getContentSync = React.useCallback((noteId: string): NoteContentSync | undefined => {
+    const existing = contentSyncsRef.current.get(noteId);
+    if (existing) return existing;
+
+    const note = findNote(noteId);
+    if (!note) return undefined;
+
+    const sync = new NoteContentSync(note.content, note.contentRevision || 0, (revision, operation) => {
+      websocketService.send('note:edit', { noteId, revision, operation });
+    });
+    contentSyncsRef.current.set(noteId, sync);
+    return sync;
+  }, [findNote]);
+
+  // Keep local unacknowledged edits when the server sends a full note
+  const reconcileNoteContent = React.useCallback((note: Note): Note => {
+    const sync = contentSyncsRef.current.get(note.id);
+    if (!sync) return note;
+
+    if (sync.isSynchronized()) {
+      sync.reset(note.content, note.contentRevision || 0);
+      return note;
+    }
+
+    const { contentRevision: _serverRevision, ...rest } = note;
+    return { ...rest, content: sync.getDocument() };
+  }, []);
+
   useEffect(() => {
     // Connect to WebSocket server
     websocketService.connect(serverUrl);
@@ -79,26 +218,103 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
 
     const handleNoteUpdate = (message: WSMessage) => {
       // Server sends the full updated note
-      const note = message.payload as Note;
+      const note = reconcileNoteContent(message.payload as Note);
       updateNote(note.id, note);
     };
 
+    const handleNoteEdit = (message: WSMessage) => {
+      const { noteId, revision, operation, version, updatedAt } = message.payload as NoteEditedPayload;
+      const sync = getContentSync(noteId);
+      if (!sync) return;
+
+      if (revision !== sync.getRevision() + 1) {
+        // Missed an edit, fall back to syncing the board
+        const note = findNote(noteId);
+        if (note) websocketService.requestSync(note.boardId);
+        return;
+      }
+
+      const content = sync.handleRemoteOperation(operation, revision);
+      updateNote(noteId, { content, contentRevision: revision, version, updatedAt });
+    };
+
+    const handleNoteEditAck = (message: WSMessage) => {
+      const { noteId, revision, version } = message.payload as NoteEditAckPayload;
+      const sync = contentSyncsRef.current.get(noteId);
+      if (!sync) return;
+
+      sync.handleAck(revision);
+      updateNote(noteId, { contentRevision: revision, version });
+    };
+
+    const handleNoteEditRejected = (message: WSMessage) => {
+      const { noteId, revision, content } = message.payload as NoteEditRejectedPayload;
+      contentSyncsRef.current.get(noteId)?.reset(content, revision);
+      updateNote(noteId, { content, contentRevision: revision });
+      addToast({
+        message: 'Your latest edit could not be merged and was reverted',
+        type: 'warning',
+        duration: 4000,
+      });
+    };
+
+    const handleNoteConflict = (message: WSMessage) => {
+      const conflict = message.payload as NoteConflictPayload;
+      updateNote(conflict.noteId, reconcileNoteContent(conflict.currentNote));
+      setNoteConflicts(prev => ({ ...prev, [conflict.noteId]: conflict }));
+    };
+
     const handleNoteDelete = (message: WSMessage) => {
       const { noteId } = message.payload as DeleteNotePayload;
+      contentSyncsRef.current.delete(noteId);
       deleteNote(noteId);
     };
 
+    const handleConnectorChange = (message: WSMessage) => {
+      addOrUpdateConnector(message.payload as Connector);
+    };
+
+    const handleConnectorDelete = (message: WSMessage) => {
+      deleteConnector((message.payload as DeleteConnectorPayload).connectorId);
+    };
+
+    const handleFrameChange = (message: WSMessage) => {
+      addOrUpdateFrame(message.payload as Frame);
+    };
+
+    const handleFrameMove = (message: WSMessage) => {
+      moveFrame(message.payload as FrameMovedPayload);
+    };
+
+    const handleFrameDelete = (message: WSMessage) => {
+      deleteFrame((message.payload as DeleteFramePayload).frameId);
+    };
+
+    const handleBulkNotes = (message: WSMessage) => {
+      const result = message.payload as BulkNoteResultPayload;
+      result.deletedNoteIds.forEach(noteId => contentSyncsRef.current.delete(noteId));
+      applyBulkNotes(result);
+    };
+
+    const handleBatch = (message: WSMessage) => {
+      const result = message.payload as BatchResultPayload;
+      result.deletedNoteIds.forEach(noteId => contentSyncsRef.current.delete(noteId));
+      applyBatch({ ...result, notes: result.notes.map(reconcileNoteContent) });
+    };
+
     const handleNoteMove = (message: WSMessage) => {
       const { noteId, x, y } = message.payload as MoveNotePayload;
       updateNote(noteId, { x, y });
     };
 
     const handleBoardCreate = (message: WSMessage) => {
-      const board = message.payload as Board;
-      // Only add if it's from another user
-      if (message.userId !== websocketService.getUserId()) {
-        addBoard(board);
-      }
+      // addBoard ignores boards this tab already added, including ones it created itself
+      addBoard(message.payload as Board);
+    };
+
+    const handleBoardRestore = (message: WSMessage) => {
+      // Server sends the restored board with its notes
+      addBoard(message.payload as Board);
     };
 
     const handleBoardDelete = (message: WSMessage) => {
@@ -112,6 +328,11 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       updateBoard(board.id, { name: board.name });
     };
 
+    const handleBoardAclUpdate = (message: WSMessage) => {
+      // Also how a board shows up for someone who was just given access
+      addBoard(message.payload as Board);
+    };
+
     const handleEditingStart = (message: WSMessage) => {
       const { noteId, userId } = message.payload;
       updateNote(noteId, { editingBy: userId });
@@ -122,6 +343,45 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       updateNote(noteId, { editingBy: undefined });
     };
 
+    const handleEditingDenied = (message: WSMessage) => {
+      const { noteId, userId } = message.payload as EditingDeniedPayload;
+      updateNote(noteId, { editingBy: userId });
+      setEditingLost(prev => ({ ...prev, [noteId]: 'denied' }));
+      addToast({
+        message: 'Someone else is editing this note. Take over to edit it anyway.',
+        type: 'warning',
+        duration: 4000,
+      });
+    };
+
+    const handleEditingRevoked = (message: WSMessage) => {
+      const { noteId, reason } = message.payload as EditingRevokedPayload;
+      setEditingLost(prev => ({ ...prev, [noteId]: reason }));
+      addToast({
+        message: reason === 'takeover'
+          ? 'Someone else took over editing this note'
+          : 'Stopped editing this note after losing contact with the server',
+        type: 'warning',
+        duration: 4000,
+      });
+    };
+
+    // A text operation in flight when the connection dropped will never be
+    // acknowledged, and later ones wait on it. Queue what hasn't been
+    // acknowledged as a whole-content update, as offline edits are, and start
+    // the note's content sync afresh from the server's copy.
+    const resendUnacknowledgedEdits = () => {
+      contentSyncsRef.current.forEach((sync, noteId) => {
+        if (sync.isSynchronized()) return;
+        contentSyncsRef.current.delete(noteId);
+        websocketService.send('note:update', {
+          noteId,
+          updates: { content: sync.getDocument() },
+          baseVersion: findNote(noteId)?.version,
+        });
+      });
+    };
+
     const handleSyncResponse = (message: WSMessage) => {
       // Check if this is a connection status update
       if (message.payload.status) {
@@ -142,6 +402,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
             websocketService.requestSync(currentBoardId);
           }
         } else if (status === 'disconnected') {
+          resendUnacknowledgedEdits();
           addToast({
             message: 'Disconnected from server',
             type: 'error',
@@ -158,40 +419,111 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       }
 
       // Otherwise, it's a sync response with board data
-      const { board } = message.payload as SyncResponsePayload;
+      const { board, delta, cursor } = message.payload as SyncResponsePayload;
       if (board) {
         // Use addBoard or updateBoard instead
-        addBoard(board);
+        addBoard({ ...board, notes: board.notes.map(reconcileNoteContent) });
+        websocketService.setSyncCursor(board.id, cursor);
+      } else if (delta) {
+        if (!boardsRef.current.some(b => b.id === delta.board.id)) {
+          // Nothing to apply the changes to, so start over with the whole board
+          websocketService.requestSync(delta.board.id, true);
+          return;
+        }
+        applyBoardDelta({ ...delta, notes: delta.notes.map(reconcileNoteContent) });
+        websocketService.setSyncCursor(delta.board.id, cursor);
+      }
+    };
+
+    const handleOperationChange = (pending: PendingOperation[], rejection?: OperationRejection) => {
+      setPendingOperations(pending);
+      // A conflict is already shown to the user, with their changes kept to re-apply
+      if (!rejection || rejection.code === 'conflict') return;
+
+      // Undo whatever was shown ahead of the server by fetching the board afresh
+      const { operation, error } = rejection;
+      const board = findOperationBoard(operation.payload, boardsRef.current);
+      if (board) {
+        websocketService.requestSync(board.id, true);
+      }
+
+      const noteId: string | undefined = operation.payload?.noteId;
+      if (noteId && findNote(noteId)) {
+        setNoteErrors(prev => ({ ...prev, [noteId]: error }));
+      } else {
+        addToast({
+          message: `Your change could not be saved: ${error}`,
+          type: 'error',
+          duration: 4000,
+        });
       }
     };
 
     // Register handlers
+    websocketService.onOperationChange(handleOperationChange);
     websocketService.on('note:create', handleNoteCreate);
     websocketService.on('note:update', handleNoteUpdate);
     websocketService.on('note:delete', handleNoteDelete);
     websocketService.on('note:move', handleNoteMove);
+    websocketService.on('note:bulk', handleBulkNotes);
+    websocketService.on('note:edit', handleNoteEdit);
+    websocketService.on('note:edit:ack', handleNoteEditAck);
+    websocketService.on('note:edit:rejected', handleNoteEditRejected);
+    websocketService.on('note:conflict', handleNoteConflict);
+    websocketService.on('note:restore', handleNoteCreate);
     websocketService.on('note:editing:start', handleEditingStart);
     websocketService.on('note:editing:end', handleEditingEnd);
+    websocketService.on('note:editing:denied', handleEditingDenied);
+    websocketService.on('note:editing:revoked', handleEditingRevoked);
+    websocketService.on('connector:create', handleConnectorChange);
+    websocketService.on('connector:update', handleConnectorChange);
+    websocketService.on('connector:delete', handleConnectorDelete);
+    websocketService.on('frame:create', handleFrameChange);
+    websocketService.on('frame:update', handleFrameChange);
+    websocketService.on('frame:move', handleFrameMove);
+    websocketService.on('frame:delete', handleFrameDelete);
+    websocketService.on('batch', handleBatch);
     websocketService.on('board:create', handleBoardCreate);
     websocketService.on('board:delete', handleBoardDelete);
     websocketService.on('board:rename', handleBoardRename);
+    websocketService.on('board:restore', handleBoardRestore);
+    websocketService.on('board:acl:update', handleBoardAclUpdate);
     websocketService.on('sync:response', handleSyncResponse);
 
     // Cleanup on unmount
     return () => {
+      websocketService.offOperationChange(handleOperationChange);
       websocketService.off('note:create', handleNoteCreate);
       websocketService.off('note:update', handleNoteUpdate);
       websocketService.off('note:delete', handleNoteDelete);
       websocketService.off('note:move', handleNoteMove);
+      websocketService.off('note:bulk', handleBulkNotes);
+      websocketService.off('note:edit', handleNoteEdit);
+      websocketService.off('note:edit:ack', handleNoteEditAck);
+      websocketService.off('note:edit:rejected', handleNoteEditRejected);
+      websocketService.off('note:conflict', handleNoteConflict);
+      websocketService.off('note:restore', handleNoteCreate);
       websocketService.off('note:editing:start', handleEditingStart);
       websocketService.off('note:editing:end', handleEditingEnd);
+      websocketService.off('note:editing:denied', handleEditingDenied);
+      websocketService.off('note:editing:revoked', handleEditingRevoked);
+      websocketService.off('connector:create', handleConnectorChange);
+      websocketService.off('connector:update', handleConnectorChange);
+      websocketService.off('connector:delete', handleConnectorDelete);
+      websocketService.off('frame:create', handleFrameChange);
+      websocketService.off('frame:update', handleFrameChange);
+      websocketService.off('frame:move', handleFrameMove);
+      websocketService.off('frame:delete', handleFrameDelete);
+      websocketService.off('batch', handleBatch);
       websocketService.off('board:create', handleBoardCreate);
       websocketService.off('board:delete', handleBoardDelete);
       websocketService.off('board:rename', handleBoardRename);
+      websocketService.off('board:restore', handleBoardRestore);
+      websocketService.off('board:acl:update', handleBoardAclUpdate);
       websocketService.off('sync:response', handleSyncResponse);
       websocketService.disconnect();
     };
-  }, [serverUrl, addNote, updateNote, deleteNote, addBoard, updateBoard, deleteBoard, setConnectionStatus, addToast]);
+  }, [serverUrl, addNote, updateNote, deleteNote, applyBulkNotes, applyBatch, applyBoardDelta, addOrUpdateConnector, deleteConnector, addOrUpdateFrame, moveFrame, deleteFrame, addBoard, updateBoard, deleteBoard, setConnectionStatus, addToast, findNote, getContentSync, reconcileNoteContent]);
 
   const sendCreateNote = React.useCallback((payload: CreateNotePayload) => {
     // Create a unique key for this note creation request
@@ -205,35 +537,228 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     // Mark as pending
     pendingNoteCreationRef.current.add(key);
     
+    const id = payload.id ?? createId();
+    whileOffline(() => {
+      // The same defaults the server gives a new note
+      const now = Date.now();
+      addNote({
+        id,
+        boardId: payload.boardId,
+        x: payload.x,
+        y: payload.y,
+        width: 280,
+        height: 200,
+        content: '',
+        backgroundColor: '#FFD60A',
+        fontSize: 'medium',
+        isExpanded: true,
+        images: [],
+        stickers: [],
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      });
+    });
+
     // Send the request
-    websocketService.send('note:create', payload);
+    websocketService.send('note:create', { ...payload, id });
     
     // Clear pending after 500ms
     setTimeout(() => {
       pendingNoteCreationRef.current.delete(key);
     }, 500);
-  }, []);
+  }, [addNote]);
 
   const sendUpdateNote = React.useCallback((payload: UpdateNotePayload) => {
-    websocketService.send('note:update', payload);
+    whileOffline(() => updateNote(payload.noteId, payload.updates));
+    // Tell the server which version we edited so stale writes are detected
+    websocketService.send('note:update', {
+      ...payload,
+      baseVersion: payload.baseVersion ?? findNote(payload.noteId)?.version,
+    });
+  }, [findNote, updateNote]);
+
+  const resolveNoteConflict = React.useCallback((noteId: string, resolution: 'mine' | 'theirs') => {
+    const conflict = noteConflicts[noteId];
+    if (!conflict) return;
+
+    setNoteConflicts(prev => {
+      const { [noteId]: _resolved, ...rest } = prev;
+      return rest;
+    });
+
+    if (resolution === 'mine') {
+      // Re-apply our changes on top of the version we have now seen
+      websocketService.send('note:update', {
+        noteId,
+        updates: conflict.attemptedUpdates,
+        baseVersion: conflict.currentNote.version,
+      });
+    }
+  }, [noteConflicts]);
+
+  const sendContentChange = React.useCallback((noteId: string, content: string) => {
+    if (!websocketService.isConnected()) {
+      // Text operations need the server to acknowledge each one, so offline
+      // edits are queued as a whole-content update instead. Its base version
+      // lets the server catch anyone else having edited the note meanwhile.
+      contentSyncsRef.current.delete(noteId);
+      sendUpdateNote({ noteId, updates: { content } });
+      return;
+    }
+
+    const sync = getContentSync(noteId);
+    if (!sync) return;
+
+    sync.applyLocalChange(content);
+    // Show our own edit immediately; the server merges it with concurrent edits
+    updateNote(noteId, { content });
+  }, [getContentSync, updateNote, sendUpdateNote]);
+
+  const sendUndo = React.useCallback((boardId: string) => {
+    websocketService.send('history:undo', { boardId });
+  }, []);
+
+  const sendRedo = React.useCallback((boardId: string) => {
+    websocketService.send('history:redo', { boardId });
+  }, []);
+
+  const sendRestoreNote = React.useCallback((payload: RestoreNotePayload) => {
+    websocketService.send('note:restore', payload);
+  }, []);
+
+  const sendRestoreBoard = React.useCallback((payload: RestoreBoardPayload) => {
+    websocketService.send('board:restore', payload);
   }, []);
 
   const sendDeleteNote = React.useCallback((payload: DeleteNotePayload) => {
+    whileOffline(() => deleteNote(payload.noteId));
     websocketService.send('note:delete', payload);
-  }, []);
+  }, [deleteNote]);
 
   const sendMoveNote = React.useCallback((payload: MoveNotePayload) => {
+    whileOffline(() => updateNote(payload.noteId, { x: payload.x, y: payload.y }));
     websocketService.send('note:move', payload);
+  }, [updateNote]);
+
+  const sendBulkNotes = React.useCallback((payload: BulkNotePayload) => {
+    whileOffline(() => {
+      const { operation } = payload;
+      const notes = payload.noteIds.map(findNote).filter((note): note is Note => !!note);
+      applyBulkNotes({
+        boardId: payload.boardId,
+        notes: operation.type === 'delete' ? [] : notes.map(note => (
+          operation.type === 'move'
+            ? { ...note, x: note.x + operation.dx, y: note.y + operation.dy }
+            : { ...note, ...operation.updates }
+        )),
+        deletedNoteIds: operation.type === 'delete' ? payload.noteIds : [],
+      });
+    });
+    websocketService.send('note:bulk', payload);
+  }, [findNote, applyBulkNotes]);
+
+  const sendBatch = React.useCallback((payload: BatchPayload) => {
+    websocketService.send('batch', payload);
+  }, []);
+
+  const sendEditingStart = React.useCallback((noteId: string, takeover = false) => {
+    setEditingLost(({ [noteId]: _lost, ...rest }) => rest);
+    websocketService.send('note:editing:start', takeover ? { noteId, takeover } : { noteId });
   }, []);
 
-  const sendEditingStart = React.useCallback((noteId: string) => {
-    websocketService.send('note:editing:start', { noteId, userId: websocketService.getUserId() });
+  const sendEditingHeartbeat = React.useCallback((noteId: string) => {
+    // A lease lost while offline is handled when the server says so; don't queue renewals
+    if (!websocketService.isConnected()) return;
+    websocketService.send('note:editing:heartbeat', { noteId });
   }, []);
 
   const sendEditingEnd = React.useCallback((noteId: string) => {
-    websocketService.send('note:editing:end', { noteId, userId: websocketService.getUserId() });
+    websocketService.send('note:editing:end', { noteId });
+  }, []);
+
+  const clearEditingLost = React.useCallback((noteId: string) => {
+    setEditingLost(({ [noteId]: _lost, ...rest }) => rest);
   }, []);
 
+  const clearNoteError = React.useCallback((noteId: string) => {
+    setNoteErrors(({ [noteId]: _error, ...rest }) => rest);
+  }, []);
+
+  const sendCreateConnector = React.useCallback((payload: CreateConnectorPayload) => {
+    const id = payload.id ?? createId();
+    whileOffline(() => {
+      const now = Date.now();
+      addOrUpdateConnector({
+        id,
+        boardId: payload.boardId,
+        sourceNoteId: payload.sourceNoteId,
+        targetNoteId: payload.targetNoteId,
+        label: payload.label ?? '',
+        style: payload.style ?? 'solid',
+        arrowheads: payload.arrowheads ?? 'end',
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    websocketService.send('connector:create', { ...payload, id });
+  }, [addOrUpdateConnector]);
+
+  const sendUpdateConnector = React.useCallback((payload: UpdateConnectorPayload) => {
+    whileOffline(() => {
+      const connector = boardsRef.current
+        .flatMap(board => board.connectors ?? [])
+        .find(c => c.id === payload.connectorId);
+      if (connector) addOrUpdateConnector({ ...connector, ...payload.updates });
+    });
+    websocketService.send('connector:update', payload);
+  }, [addOrUpdateConnector]);
+
+  const sendDeleteConnector = React.useCallback((payload: DeleteConnectorPayload) => {
+    whileOffline(() => deleteConnector(payload.connectorId));
+    websocketService.send('connector:delete', payload);
+  }, [deleteConnector]);
+
+  const sendCreateFrame = React.useCallback((payload: CreateFramePayload) => {
+    const id = payload.id ?? createId();
+    whileOffline(() => {
+      const now = Date.now();
+      addOrUpdateFrame({
+        id,
+        boardId: payload.boardId,
+        name: payload.name.trim(),
+        x: payload.x,
+        y: payload.y,
+        width: payload.width,
+        height: payload.height,
+        collapsed: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+    websocketService.send('frame:create', { ...payload, id });
+  }, [addOrUpdateFrame]);
+
+  const sendUpdateFrame = React.useCallback((payload: UpdateFramePayload) => {
+    whileOffline(() => {
+      const frame = boardsRef.current
+        .flatMap(board => board.frames ?? [])
+        .find(f => f.id === payload.frameId);
+      if (frame) addOrUpdateFrame({ ...frame, ...payload.updates });
+    });
+    websocketService.send('frame:update', payload);
+  }, [addOrUpdateFrame]);
+
+  // Frames apply their own move straight away, online or not
+  const sendMoveFrame = React.useCallback((payload: MoveFramePayload) => {
+    websocketService.send('frame:move', payload);
+  }, []);
+
+  const sendDeleteFrame = React.useCallback((payload: DeleteFramePayload) => {
+    whileOffline(() => deleteFrame(payload.frameId));
+    websocketService.send('frame:delete', payload);
+  }, [deleteFrame]);
+
   const sendCreateBoard = React.useCallback((payload: CreateBoardPayload) => {
     websocketService.send('board:create', payload);
   }, []);
@@ -257,10 +782,32 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   const value: WebSocketContextType = React.useMemo(() => ({
     sendCreateNote,
     sendUpdateNote,
+    sendContentChange,
+    noteConflicts,
+    resolveNoteConflict,
+    sendUndo,
+    sendRedo,
+    sendRestoreNote,
+    sendRestoreBoard,
     sendDeleteNote,
     sendMoveNote,
+    sendBulkNotes,
+    sendBatch,
     sendEditingStart,
+    sendEditingHeartbeat,
     sendEditingEnd,
+    editingLost,
+    clearEditingLost,
+    pendingOperations,
+    noteErrors,
+    clearNoteError,
+    sendCreateConnector,
+    sendUpdateConnector,
+    sendDeleteConnector,
+    sendCreateFrame,
+    sendUpdateFrame,
+    sendMoveFrame,
+    sendDeleteFrame,
     sendCreateBoard,
     sendDeleteBoard,
     sendRenameBoard,
@@ -270,10 +817,32 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   }), [
     sendCreateNote,
     sendUpdateNote,
+    sendContentChange,
+    noteConflicts,
+    resolveNoteConflict,
+    sendUndo,
+    sendRedo,
+    sendRestoreNote,
+    sendRestoreBoard,
     sendDeleteNote,
     sendMoveNote,
+    sendBulkNotes,
+    sendBatch,
     sendEditingStart,
+    sendEditingHeartbeat,
     sendEditingEnd,
+    editingLost,
+    clearEditingLost,
+    pendingOperations,
+    noteErrors,
+    clearNoteError,
+    sendCreateConnector,
+    sendUpdateConnector,
+    sendDeleteConnector,
+    sendCreateFrame,
+    sendUpdateFrame,
+    sendMoveFrame,
+    sendDeleteFrame,
     sendCreateBoard,
     sendDeleteBoard,
     sendRenameBoard,
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Note } from '../../../shared/src/types';
+import { usePhysicsContext } from '../contexts/PhysicsContext';
+import { useTransform } from '../contexts/TransformContext';
+
+export type NotePositions = Array<{ noteId: string; x: number; y: number }>;
+
+/**
+ * Follow a pointer from pointerdown until release, reporting how far it has
+ * moved in board coordinates
+ */
+export const usePointerDrag = () => {
+  const { screenToBoard } = useTransform();
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  return useCallback((
+    e: React.PointerEvent,
+    onMove: (dx: number, dy: number) => void,
+    onUp: (dx: number, dy: number) => void
+  ) => {
+    const start = screenToBoard(e.clientX, e.clientY);
+    const delta = (event: PointerEvent) => {
+      const current = screenToBoard(event.clientX, event.clientY);
+      return { dx: Math.round(current.x - start.x), dy: Math.round(current.y - start.y) };
+    };
+    const handleMove = (event: PointerEvent) => {
+      const { dx, dy } = delta(event);
+      onMove(dx, dy);
+    };
+    const handleUp = (event: PointerEvent) => {
+      cleanup();
+      const { dx, dy } = delta(event);
+      onUp(dx, dy);
+    };
+    const cleanup = () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleUp);
+      cleanupRef.current = null;
+    };
+
+    cleanupRef.current?.();
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleUp);
+    cleanupRef.current = cleanup;
+
+    // Keeps the board from panning underneath
+    e.preventDefault();
+    e.stopPropagation();
+  }, [screenToBoard]);
+};
+
+/**
+ * Carry several notes along with a drag, e.g. a frame's notes or a selection.
+ * The notes are moved directly in the DOM and the physics world for instant
+ * feedback; telling the server is up to the caller once the drag ends.
+ */
+export const useNoteGroupDrag = () => {
+  const { getNotePosition, setNotePosition, setNoteStatic } = usePhysicsContext();
+
+  return useCallback((notes: Note[]) => {
+    // Physics positions are ahead of the props while a thrown note drifts
+    const starts: NotePositions = notes.map(note => {
+      const position = getNotePosition(note.id) ?? { x: note.x, y: note.y };
+      setNoteStatic(note.id, true);
+      return { noteId: note.id, x: position.x, y: position.y };
+    });
+
+    const positions = (dx: number, dy: number): NotePositions =>
+      starts.map(start => ({ noteId: start.noteId, x: Math.round(start.x + dx), y: Math.round(start.y + dy) }));
+
+    const moveBy = (dx: number, dy: number) => {
+      for (const { noteId, x, y } of positions(dx, dy)) {
+        const element = document.querySelector<HTMLElement>(`[data-note-id="${noteId}"]`);
+        if (element) {
+          element.style.left = `${x}px`;
+          element.style.top = `${y}px`;
+        }
+        setNotePosition(noteId, x, y);
+      }
+    };
+
+    const release = () => {
+      starts.forEach(start => setNoteStatic(start.noteId, false));
+    };
+
+    return { moveBy, positions, release };
+  }, [getNotePosition, setNotePosition, setNoteStatic]);
+};
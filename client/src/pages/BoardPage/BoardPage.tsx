@@ -1,18 +1,22 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useApp } from '../../contexts/AppContext';
 import { useWebSocket } from '../../contexts/WebSocketContext';
+import { useAuth } from '../../contexts/AuthContext';
 import Board, { BoardRef } from '../../components/Board/Board';
 import Toolbar from '../../components/Toolbar/Toolbar';
 import LoadingSpinner from '../../components/LoadingSpinner/LoadingSpinner';
 import SkeletonNote from '../../components/SkeletonNote/SkeletonNote';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { getBoardRole } from '../../../../shared/src/access';
 import styles from './BoardPage.module.css';
 
 const BoardPage: React.FC = () => {
   const { boardId } = useParams<{ boardId: string }>();
   const { getCurrentBoard, setCurrentBoardId } = useApp();
-  const { requestSync, leaveBoard, sendCreateNote } = useWebSocket();
+  const { requestSync, leaveBoard, sendCreateNote, sendCreateFrame, sendUndo, sendRedo } = useWebSocket();
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const boardRef = useRef<BoardRef>(null);
   const [zoomLevel, setZoomLevel] = useState<number>(1);
   const [isLoading, setIsLoading] = useState(true);
@@ -76,6 +80,10 @@ const BoardPage: React.FC = () => {
   }, [boardId, requestSync]);
 
   const currentBoard = getCurrentBoard();
+  const role = currentBoard ? getBoardRole(currentBoard, user?.id) : null;
+  const readOnly = role === 'viewer';
+  // Boards without an access list are open to everyone, so there is no one to invite
+  const canInvite = role === 'owner' && Boolean(currentBoard?.acl);
 
   const handleZoomIn = () => {
     boardRef.current?.zoomIn();
@@ -94,7 +102,7 @@ const BoardPage: React.FC = () => {
   };
 
   const handleNewNote = () => {
-    if (!currentBoard) return;
+    if (!currentBoard || readOnly) return;
     
     // Get the current viewport center from the board ref
     const viewportCenter = boardRef.current?.getViewportCenter();
@@ -107,6 +115,31 @@ const BoardPage: React.FC = () => {
     });
   };
 
+  const handleNewFrame = () => {
+    if (!currentBoard || readOnly) return;
+
+    // Centre the frame on the viewport, like new notes
+    const viewportCenter = boardRef.current?.getViewportCenter();
+    const width = 640;
+    const height = 440;
+    sendCreateFrame({
+      boardId: currentBoard.id,
+      name: 'New frame',
+      x: (viewportCenter?.x ?? 500) - width / 2,
+      y: (viewportCenter?.y ?? 500) - height / 2,
+      width,
+      height,
+    });
+  };
+
+  const handleUndo = () => {
+    if (currentBoard && !readOnly) sendUndo(currentBoard.id);
+  };
+
+  const handleRedo = () => {
+    if (currentBoard && !readOnly) sendRedo(currentBoard.id);
+  };
+
   const handleZoomChange = (scale: number) => {
     setZoomLevel(scale);
   };
@@ -119,6 +152,20 @@ const BoardPage: React.FC = () => {
       handler: handleNewNote,
       description: 'Create new note',
     },
+    {
+      key: 'z',
+      ctrl: true,
+      shift: false,
+      handler: handleUndo,
+      description: 'Undo',
+    },
+    {
+      key: 'z',
+      ctrl: true,
+      shift: true,
+      handler: handleRedo,
+      description: 'Redo',
+    },
     {
       key: '=',
       ctrl: true,
@@ -156,8 +203,11 @@ const BoardPage: React.FC = () => {
         onZoomOut={handleZoomOut}
         onResetZoom={handleResetZoom}
         onFitToScreen={handleFitToScreen}
-        onNewNote={handleNewNote}
+        onNewNote={readOnly ? undefined : handleNewNote}
+        onNewFrame={readOnly ? undefined : handleNewFrame}
+        onInvite={canInvite ? () => navigate(`/invites?board=${currentBoard.id}`) : undefined}
         zoomLevel={zoomLevel}
+        readOnly={readOnly}
       />
       {isLoading ? (
         <div className={styles.skeletonContainer}>
@@ -166,7 +216,7 @@ const BoardPage: React.FC = () => {
           <SkeletonNote />
         </div>
       ) : (
-        <Board ref={boardRef} onZoomChange={handleZoomChange} />
+        <Board ref={boardRef} onZoomChange={handleZoomChange} readOnly={readOnly} />
       )}
     </div>
   );
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useApp } from '../../contexts/AppContext';
+import LoadingSpinner from '../../components/LoadingSpinner/LoadingSpinner';
+import { Board } from '../../../../shared/src/types';
+import styles from './InvitePage.module.css';
+
+// Accepts an invite link, then opens the board it was for
+const InvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { addBoard } = useApp();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    const acceptInvite = async () => {
+      try {
+        const response = await fetch(`/api/invites/${encodeURIComponent(token)}/accept`, { method: 'POST' });
+        const data = await response.json().catch(() => ({}));
+        if (cancelled) return;
+
+        if (!response.ok) {
+          setError(data.message || 'This invite link does not work');
+          return;
+        }
+
+        const board = data as Board;
+        addBoard(board);
+        navigate(`/board/${board.id}`, { replace: true });
+      } catch (err) {
+        console.error('Failed to accept invite:', err);
+        if (!cancelled) setError('Could not reach the server. Please try again.');
+      }
+    };
+
+    acceptInvite();
+    return () => {
+      cancelled = true;
+    };
+  }, [token, addBoard, navigate]);
+
+  if (!error) {
+    return <LoadingSpinner message="Joining board..." />;
+  }
+
+  return (
+    <div className={styles.invitePage}>
+      <div className={styles.card} role="alert">
+        <h1>Invite unavailable</h1>
+        <p>{error}</p>
+        <Link to="/" className={styles.homeLink}>Go to your boards</Link>
+      </div>
+    </div>
+  );
+};
+
+export default InvitePage;
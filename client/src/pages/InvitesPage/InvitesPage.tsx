@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useApp } from '../../contexts/AppContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { CreatedInvite, Invite, InviteRole } from '../../../../shared/src/types';
+import styles from './InvitesPage.module.css';
+
+const EXPIRY_OPTIONS = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 7 * 24 },
+  { label: '30 days', hours: 30 * 24 },
+];
+
+const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+// Lists outstanding invites for the user's boards, and creates and revokes them
+const InvitesPage: React.FC = () => {
+  const { boards, addToast } = useApp();
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [role, setRole] = useState<InviteRole>('viewer');
+  const [expiresInHours, setExpiresInHours] = useState(EXPIRY_OPTIONS[1].hours);
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+
+  // Only the owner of a board with an access list can invite people to it
+  const ownedBoards = useMemo(
+    () => boards.filter(board => board.acl && board.acl.owner === user?.id),
+    [boards, user]
+  );
+  const [boardId, setBoardId] = useState(searchParams.get('board') || '');
+  const selectedBoardId = ownedBoards.some(board => board.id === boardId) ? boardId : ownedBoards[0]?.id;
+
+  const boardName = (id: string) => boards.find(board => board.id === id)?.name || 'Unknown board';
+
+  const loadInvites = useCallback(async () => {
+    try {
+      const response = await fetch('/api/invites');
+      if (response.ok) {
+        setInvites(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load invites:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedBoardId) return;
+
+    try {
+      const response = await fetch(`/api/boards/${selectedBoardId}/invites`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role, expiresInHours }),
+      });
+
+      if (response.ok) {
+        const created = (await response.json()) as CreatedInvite;
+        setInvites(prev => [created.invite, ...prev]);
+        setCreatedLink(inviteUrl(created.token));
+      } else {
+        const data = await response.json().catch(() => ({}));
+        addToast({ message: data.message || 'Failed to create invite', type: 'error', duration: 4000 });
+      }
+    } catch (error) {
+      console.error('Failed to create invite:', error);
+      addToast({ message: 'Failed to create invite. Please try again.', type: 'error', duration: 4000 });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdLink) return;
+    try {
+      await navigator.clipboard.writeText(createdLink);
+      addToast({ message: 'Invite link copied', type: 'success', duration: 2000 });
+    } catch {
+      // Clipboard access can be refused; the link stays selectable
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    try {
+      const response = await fetch(`/api/invites/${inviteId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setInvites(prev => prev.filter(invite => invite.id !== inviteId));
+      } else {
+        addToast({ message: 'Failed to revoke invite', type: 'error', duration: 4000 });
+      }
+    } catch (error) {
+      console.error('Failed to revoke invite:', error);
+      addToast({ message: 'Failed to revoke invite. Please try again.', type: 'error', duration: 4000 });
+    }
+  };
+
+  return (
+    <div className={styles.invitesPage}>
+      <div className={styles.content}>
+        <h1>Invites</h1>
+
+        {ownedBoards.length === 0 ? (
+          <p className={styles.empty}>You don't own any boards you can invite people to.</p>
+        ) : (
+          <form className={styles.createForm} onSubmit={handleCreate}>
+            <select
+              className={styles.select}
+              value={selectedBoardId}
+              onChange={(e) => setBoardId(e.target.value)}
+              aria-label="Board"
+            >
+              {ownedBoards.map(board => (
+                <option key={board.id} value={board.id}>{board.name}</option>
+              ))}
+            </select>
+            <select
+              className={styles.select}
+              value={role}
+              onChange={(e) => setRole(e.target.value as InviteRole)}
+              aria-label="Role"
+            >
+              <option value="viewer">Can view</option>
+              <option value="editor">Can edit</option>
+            </select>
+            <select
+              className={styles.select}
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              aria-label="Expires after"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>Expires in {option.label}</option>
+              ))}
+            </select>
+            <button type="submit" className="button-primary">
+              Create link
+            </button>
+          </form>
+        )}
+
+        {createdLink && (
+          <div className={styles.createdLink}>
+            <input className={styles.linkInput} value={createdLink} readOnly onFocus={(e) => e.target.select()} aria-label="Invite link" />
+            <button type="button" className="button-secondary" onClick={handleCopy}>
+              Copy
+            </button>
+          </div>
+        )}
+
+        <h2>Outstanding invites</h2>
+        {isLoading ? (
+          <p className={styles.empty}>Loading...</p>
+        ) : invites.length === 0 ? (
+          <p className={styles.empty}>No outstanding invites</p>
+        ) : (
+          <ul className={styles.inviteList}>
+            {invites.map(invite => (
+              <li key={invite.id} className={styles.inviteItem}>
+                <div className={styles.inviteInfo}>
+                  <span className={styles.inviteBoard}>{boardName(invite.boardId)}</span>
+                  <span className={styles.inviteMeta}>
+                    {invite.role === 'editor' ? 'Can edit' : 'Can view'} · expires {new Date(invite.expiresAt).toLocaleString()}
+                  </span>
+                </div>
+                <button className={styles.revokeButton} onClick={() => handleRevoke(invite.id)}>
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvitesPage;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import styles from './LoginPage.module.css';
+
+const LoginPage: React.FC = () => {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'login') {
+        await login(username.trim(), password);
+      } else {
+        await register(username.trim(), password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.loginPage}>
+      <form className={styles.card} onSubmit={handleSubmit}>
+        <h1>{mode === 'login' ? 'Sign in' : 'Create account'}</h1>
+
+        <input
+          type="text"
+          className={styles.input}
+          placeholder="Username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          aria-label="Username"
+          autoFocus
+        />
+        <input
+          type="password"
+          className={styles.input}
+          placeholder="Password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          aria-label="Password"
+        />
+
+        {error && <p className={styles.error} role="alert">{error}</p>}
+
+        <button
+          type="submit"
+          className={`button-primary ${styles.submit}`}
+          disabled={isSubmitting || !username.trim() || !password}
+        >
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          className={styles.switchMode}
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            setError(null);
+          }}
+        >
+          {mode === 'login' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginPage;
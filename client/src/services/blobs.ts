@@ -0,0 +1,47 @@
+import { ImageThumbnail } from '../../../shared/src/types';
+
+export interface UploadedBlob {
+  hash: string;
+  size: number;
+  contentType: string;
+  url: string; // Path to reference from Image.url
+  width: number;
+  height: number;
+  thumbnails: ImageThumbnail[];
+}
+
+/**
+ * Upload a file to the blob store, reporting progress from 0 to 100.
+ * XMLHttpRequest is used because fetch cannot report upload progress.
+ */
+export function uploadBlob(file: Blob, onProgress?: (progress: number) => void): Promise<UploadedBlob> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', '/api/blobs');
+    request.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    request.onload = () => {
+      let body: any;
+      try {
+        body = JSON.parse(request.responseText);
+      } catch {
+        body = undefined;
+      }
+
+      if (request.status === 201 && body) {
+        resolve(body as UploadedBlob);
+      } else {
+        reject(new Error(body?.message || `Upload failed with status ${request.status}`));
+      }
+    };
+
+    request.onerror = () => reject(new Error('Network error while uploading'));
+    request.send(file);
+  });
+}
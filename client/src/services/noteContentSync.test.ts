@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NoteContentSync } from './noteContentSync';
+
+describe('NoteContentSync', () => {
+  let sendOperation: ReturnType<typeof vi.fn>;
+  let sync: NoteContentSync;
+
+  beforeEach(() => {
+    sendOperation = vi.fn();
+    sync = new NoteContentSync('Went well', 1, sendOperation as any);
+  });
+
+  it('sends the first local change immediately', () => {
+    sync.applyLocalChange('Went well!');
+    expect(sendOperation).toHaveBeenCalledWith(1, [9, '!']);
+    expect(sync.isSynchronized()).toBe(false);
+  });
+
+  it('buffers changes until the outstanding edit is acknowledged', () => {
+    sync.applyLocalChange('Went well!');
+    sync.applyLocalChange('Went well!!');
+    expect(sendOperation).toHaveBeenCalledTimes(1);
+
+    sync.handleAck(2);
+    expect(sendOperation).toHaveBeenLastCalledWith(2, [10, '!']);
+
+    sync.handleAck(3);
+    expect(sync.isSynchronized()).toBe(true);
+    expect(sync.getRevision()).toBe(3);
+  });
+
+  it('sends again straight away after a refused edit resets it', () => {
+    sync.applyLocalChange('Went well!');
+    sync.applyLocalChange('Went well!!');
+    sync.reset('Went well', 1);
+    expect(sync.isSynchronized()).toBe(true);
+
+    sync.applyLocalChange('Went well.');
+    expect(sendOperation).toHaveBeenLastCalledWith(1, [9, '.']);
+  });
+
+  it('merges remote operations with pending local edits', () => {
+    sync.applyLocalChange('Went well!');
+    const document = sync.handleRemoteOperation(['Retro: ', 9], 2);
+
+    expect(document).toBe('Retro: Went well!');
+    expect(sync.getRevision()).toBe(2);
+
+    sync.handleAck(3);
+    expect(sync.isSynchronized()).toBe(true);
+  });
+});
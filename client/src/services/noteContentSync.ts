@@ -0,0 +1,108 @@
+import { TextOperation } from '../../../shared/src/types';
+import {
+  applyTextOperation,
+  composeTextOperations,
+  diffTextOperation,
+  isNoopTextOperation,
+  transformTextOperations,
+} from '../../../shared/src/textOperation';
+
+export type SendOperation = (revision: number, operation: TextOperation) => void;
+
+/**
+ * Client side of the operational transform protocol for a single note.
+ *
+ * At most one operation is in flight to the server at a time. Local edits made
+ * while waiting for the acknowledgement are composed into a buffer, and remote
+ * operations are transformed against both before being applied locally.
+ */
+export class NoteContentSync {
+  private document: string;
+  private revision: number;
+  private outstanding: TextOperation | null = null;
+  private buffer: TextOperation | null = null;
+  private sendOperation: SendOperation;
+
+  constructor(document: string, revision: number, sendOperation: SendOperation) {
+    this.document = document;
+    this.revision = revision;
+    this.sendOperation = sendOperation;
+  }
+
+  getDocument(): string {
+    return this.document;
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Whether every local edit has been acknowledged by the server
+   */
+  isSynchronized(): boolean {
+    return this.outstanding === null && this.buffer === null;
+  }
+
+  /**
+   * Record a local change to the document and send it when possible
+   */
+  applyLocalChange(newDocument: string): void {
+    const operation = diffTextOperation(this.document, newDocument);
+    if (isNoopTextOperation(operation)) {
+      return;
+    }
+
+    this.document = newDocument;
+
+    if (this.outstanding === null) {
+      this.outstanding = operation;
+      this.sendOperation(this.revision, operation);
+    } else if (this.buffer === null) {
+      this.buffer = operation;
+    } else {
+      this.buffer = composeTextOperations(this.buffer, operation);
+    }
+  }
+
+  /**
+   * The server applied our outstanding operation
+   */
+  handleAck(revision: number): void {
+    this.revision = revision;
+    this.outstanding = this.buffer;
+    this.buffer = null;
+
+    if (this.outstanding !== null) {
+      this.sendOperation(this.revision, this.outstanding);
+    }
+  }
+
+  /**
+   * Apply an operation made by another client and return the new document
+   */
+  handleRemoteOperation(operation: TextOperation, revision: number): string {
+    let remote = operation;
+
+    if (this.outstanding !== null) {
+      [this.outstanding, remote] = transformTextOperations(this.outstanding, remote);
+    }
+    if (this.buffer !== null) {
+      [this.buffer, remote] = transformTextOperations(this.buffer, remote);
+    }
+
+    this.document = applyTextOperation(this.document, remote);
+    this.revision = revision;
+    return this.document;
+  }
+
+  /**
+   * Discard local state and adopt the server's copy
+   */
+  reset(document: string, revision: number): void {
+    this.document = document;
+    this.revision = revision;
+    this.outstanding = null;
+    this.buffer = null;
+  }
+}
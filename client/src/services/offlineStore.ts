@@ -0,0 +1,104 @@
+import { Board, WSMessage } from '../../../shared/src/types';
+
+const DB_VERSION = 1;
+const BOARDS_STORE = 'boards';
+const OUTBOX_STORE = 'outbox';
+const OUTBOX_KEY = 'messages';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Boards and unsent changes kept in IndexedDB, so the app still shows the
+ * last known boards when the server can't be reached and edits made offline
+ * survive a reload. Each user has their own database. Where IndexedDB isn't
+ * available nothing is stored and loads come back empty.
+ */
+class OfflineStore {
+  private userId: string | null = null;
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  setUser(userId: string | null): void {
+    if (userId === this.userId) {
+      return;
+    }
+
+    this.database?.then(db => db?.close());
+    this.database = null;
+    this.userId = userId;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.userId || typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    if (!this.database) {
+      const name = `sticky-notes:${this.userId}`;
+      this.database = new Promise(resolve => {
+        const request = indexedDB.open(name, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(BOARDS_STORE, { keyPath: 'id' });
+          request.result.createObjectStore(OUTBOX_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('Failed to open offline store:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.database;
+  }
+
+  async loadBoards(): Promise<Board[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    return promisify(db.transaction(BOARDS_STORE).objectStore(BOARDS_STORE).getAll());
+  }
+
+  // Replaces the cached boards, so boards deleted elsewhere don't linger
+  async saveBoards(boards: Board[]): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const transaction = db.transaction(BOARDS_STORE, 'readwrite');
+    const store = transaction.objectStore(BOARDS_STORE);
+    store.clear();
+    boards.forEach(board => store.put(board));
+    await transactionDone(transaction);
+  }
+
+  async loadOutbox(): Promise<WSMessage[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const messages = await promisify(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).get(OUTBOX_KEY));
+    return Array.isArray(messages) ? messages : [];
+  }
+
+  async saveOutbox(messages: WSMessage[]): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+    transaction.objectStore(OUTBOX_STORE).put(messages, OUTBOX_KEY);
+    await transactionDone(transaction);
+  }
+}
+
+// Export singleton instance
+export const offlineStore = new OfflineStore();
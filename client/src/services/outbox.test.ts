@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WSMessage, WSMessageType } from '../../../shared/src/types';
+import { Outbox, OutboxStorage, withoutSuperseded } from './outbox';
+
+const message = (type: WSMessageType, payload: any): WSMessage => ({
+  type,
+  payload,
+  timestamp: Date.now(),
+  userId: 'user-1',
+});
+
+// Let the chained saves settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Outbox', () => {
+  let stored: WSMessage[];
+  let storage: OutboxStorage;
+  let outbox: Outbox;
+
+  beforeEach(() => {
+    stored = [];
+    storage = {
+      load: async () => stored,
+      save: async messages => {
+        stored = messages;
+      },
+    };
+    outbox = new Outbox(storage);
+  });
+
+  it('merges back-to-back updates of a note, keeping the first base version', () => {
+    outbox.add(message('note:update', { noteId: 'note-1', updates: { content: 'H' }, baseVersion: 3 }));
+    outbox.add(message('note:update', { noteId: 'note-1', updates: { content: 'Hi', fontSize: 'large' }, baseVersion: 3 }));
+    outbox.add(message('note:move', { noteId: 'note-1', x: 10, y: 10 }));
+    outbox.add(message('note:move', { noteId: 'note-1', x: 40, y: 20 }));
+    outbox.add(message('note:move', { noteId: 'note-2', x: 0, y: 0 }));
+
+    expect(outbox.take().map(m => m.payload)).toEqual([
+      { noteId: 'note-1', updates: { content: 'Hi', fontSize: 'large' }, baseVersion: 3 },
+      { noteId: 'note-1', x: 40, y: 20 },
+      { noteId: 'note-2', x: 0, y: 0 },
+    ]);
+    expect(outbox.size).toBe(0);
+  });
+
+  it('saves everything but transient messages', async () => {
+    outbox.add(message('note:create', { boardId: 'board-1', x: 0, y: 0, id: 'note-1' }));
+    outbox.add(message('sync:request', { boardId: 'board-1' }));
+    outbox.add(message('note:editing:start', { noteId: 'note-1' }));
+    await flush();
+
+    expect(stored.map(m => m.type)).toEqual(['note:create']);
+    expect(outbox.size).toBe(3);
+  });
+
+  it('puts messages from an earlier session first', async () => {
+    stored = [message('note:delete', { noteId: 'note-1' })];
+    outbox.add(message('note:delete', { noteId: 'note-2' }));
+    await outbox.restore();
+    await flush();
+
+    expect(outbox.take().map(m => m.payload.noteId)).toEqual(['note-1', 'note-2']);
+    await flush();
+    expect(stored).toEqual([]);
+  });
+
+  it('keeps sent messages stored until they are settled', async () => {
+    outbox.add({ ...message('note:delete', { noteId: 'note-1' }), opId: 'op-1' });
+    outbox.add({ ...message('note:delete', { noteId: 'note-2' }), opId: 'op-2' });
+    outbox.take();
+    await flush();
+    expect(stored.map(m => m.opId)).toEqual(['op-1', 'op-2']);
+
+    outbox.settle('op-1');
+    await flush();
+    expect(stored.map(m => m.opId)).toEqual(['op-2']);
+    expect(outbox.size).toBe(0);
+  });
+
+  it('puts unanswered messages back ahead of those queued since', async () => {
+    outbox.add({ ...message('note:delete', { noteId: 'note-1' }), opId: 'op-1', timestamp: 1 });
+    outbox.take();
+    outbox.add({ ...message('note:delete', { noteId: 'note-3' }), opId: 'op-3', timestamp: 3 });
+
+    outbox.requeue([{ ...message('note:move', { noteId: 'note-2', x: 0, y: 0 }), opId: 'op-2', timestamp: 2 }]);
+
+    expect(outbox.take().map(m => m.opId)).toEqual(['op-1', 'op-2', 'op-3']);
+    await flush();
+    expect(stored.map(m => m.opId)).toEqual(['op-1', 'op-2', 'op-3']);
+  });
+});
+
+describe('withoutSuperseded', () => {
+  it('keeps only the fields a later update leaves alone', () => {
+    const earlier = message('note:update', { noteId: 'note-1', updates: { content: 'Hi', fontSize: 'large' }, baseVersion: 3 });
+    const later = message('note:update', { noteId: 'note-1', updates: { content: 'Hello' }, baseVersion: 4 });
+
+    expect(withoutSuperseded(earlier, later)?.payload).toEqual({ noteId: 'note-1', updates: { fontSize: 'large' }, baseVersion: 3 });
+    expect(withoutSuperseded(later, earlier)).toBeNull();
+  });
+
+  it('drops a move once a later one has been sent', () => {
+    const earlier = message('note:move', { noteId: 'note-1', x: 10, y: 10 });
+    const later = message('note:move', { noteId: 'note-1', x: 40, y: 20 });
+
+    expect(withoutSuperseded(earlier, later)).toBeNull();
+  });
+});
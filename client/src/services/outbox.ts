@@ -0,0 +1,179 @@
+import { WSMessage, WSMessageType } from '../../../shared/src/types';
+
+export interface OutboxStorage {
+  load(): Promise<WSMessage[]>;
+  save(messages: WSMessage[]): Promise<void>;
+}
+
+// Messages that only mean something to the connection or editing session that
+// sent them. They wait for a reconnect like the rest but aren't kept across
+// reloads. Text operations are included because they're relative to the
+// in-memory state of the note's content sync.
+const TRANSIENT_TYPES = new Set<WSMessageType>([
+  'sync:request',
+  'presence:heartbeat',
+  'presence:cursor',
+  'presence:viewport',
+  'note:editing:start',
+  'note:editing:heartbeat',
+  'note:editing:end',
+  'note:edit',
+]);
+
+export function isTransient(type: WSMessageType): boolean {
+  return TRANSIENT_TYPES.has(type);
+}
+
+// Messages that replace an earlier one for the same item, by the payload field naming it
+const MERGEABLE_TYPES: Partial<Record<WSMessageType, string>> = {
+  'note:update': 'noteId',
+  'note:move': 'noteId',
+  'connector:update': 'connectorId',
+  'frame:update': 'frameId',
+  'frame:move': 'frameId',
+};
+
+// Identifies the item a mergeable message changes, and how
+export function itemKey(message: WSMessage): string | undefined {
+  const idField = MERGEABLE_TYPES[message.type];
+  return idField ? `${message.type}:${message.payload[idField]}` : undefined;
+}
+
+function canMerge(earlier: WSMessage, later: WSMessage): boolean {
+  const key = itemKey(later);
+  return !!key && key === itemKey(earlier);
+}
+
+// What is left of an earlier change to an item once a later one has been made
+// on top of it: the fields the later one doesn't set, if the change has fields
+export function withoutSuperseded(earlier: WSMessage, later: WSMessage): WSMessage | null {
+  if (!earlier.payload.updates || !later.payload.updates) {
+    return null;
+  }
+
+  const updates = Object.fromEntries(
+    Object.entries(earlier.payload.updates).filter(([field]) => !(field in later.payload.updates))
+  );
+  return Object.keys(updates).length > 0 ? { ...earlier, payload: { ...earlier.payload, updates } } : null;
+}
+
+// Updates are combined, keeping the version the first one was made against
+// so the server still spots anything changed by someone else in the meantime
+function merge(earlier: WSMessage, later: WSMessage): WSMessage {
+  if (!later.payload.updates) {
+    return later;
+  }
+
+  return {
+    ...later,
+    payload: {
+      ...later.payload,
+      updates: { ...earlier.payload.updates, ...later.payload.updates },
+      baseVersion: earlier.payload.baseVersion ?? later.payload.baseVersion,
+    },
+  };
+}
+
+/**
+ * Messages waiting for a connection, oldest first. Back-to-back changes to
+ * the same item are merged, so a long stretch offline replays one update per
+ * note rather than one per keystroke or drag. Every change is written through
+ * to storage, and stays there until the server acknowledges it, so nothing
+ * is lost if the tab closes first.
+ */
+export class Outbox {
+  private messages: WSMessage[] = [];
+  // Taken to be sent but not acknowledged yet, by operation ID
+  private sent: Map<string, WSMessage> = new Map();
+  private restoring: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private storage: OutboxStorage) {}
+
+  // Put messages left over from an earlier session ahead of anything queued since
+  restore(): Promise<void> {
+    if (!this.restoring) {
+      const restoring: Promise<void> = this.storage.load()
+        .then(stored => {
+          // Cleared while loading, e.g. on logout
+          if (this.restoring === restoring) {
+            this.messages = [...stored, ...this.messages];
+          }
+        })
+        .catch(error => console.error('Failed to load outbox:', error));
+      this.restoring = restoring;
+    }
+    return this.restoring;
+  }
+
+  add(message: WSMessage): void {
+    const last = this.messages[this.messages.length - 1];
+    if (last && canMerge(last, message)) {
+      this.messages[this.messages.length - 1] = merge(last, message);
+    } else {
+      this.messages.push(message);
+    }
+    this.persist();
+  }
+
+  // Remove and return everything queued, to be sent now. Stored copies are
+  // kept until settle() is called with their operation ID.
+  take(): WSMessage[] {
+    const messages = this.messages;
+    this.messages = [];
+    for (const message of messages) {
+      if (message.opId && !isTransient(message.type)) {
+        this.sent.set(message.opId, message);
+      }
+    }
+    this.persist();
+    return messages;
+  }
+
+  // Put sent messages that were never answered back at the front of the
+  // queue, oldest first, along with any taken from it and not yet settled
+  requeue(messages: WSMessage[]): void {
+    const unsettled = new Map(this.sent);
+    for (const message of messages) {
+      if (message.opId) {
+        unsettled.set(message.opId, message);
+      }
+    }
+    if (unsettled.size === 0) {
+      return;
+    }
+
+    this.sent.clear();
+    const requeued = Array.from(unsettled.values()).sort((a, b) => a.timestamp - b.timestamp);
+    this.messages = [...requeued, ...this.messages];
+    this.persist();
+  }
+
+  // Forget a sent message once the server has answered it
+  settle(opId: string): void {
+    if (this.sent.delete(opId)) {
+      this.persist();
+    }
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  // Forget the queue in memory only; storage is kept for the next session
+  clear(): void {
+    this.messages = [];
+    this.sent.clear();
+    this.restoring = null;
+  }
+
+  private persist(): void {
+    // Restore first so stored messages aren't overwritten before they're read
+    this.saving = this.saving
+      .then(() => this.restore())
+      .then(() => this.storage.save(
+        [...this.sent.values(), ...this.messages].filter(message => !isTransient(message.type))
+      ))
+      .catch(error => console.error('Failed to save outbox:', error));
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PhysicsManager } from './physicsManager';
-import { Note } from '../../../shared/src/types';
+import { Frame, Note } from '../../../shared/src/types';
 
 describe('PhysicsManager', () => {
   let physicsManager: PhysicsManager;
@@ -62,4 +62,44 @@ describe('PhysicsManager', () => {
     // Verify no errors thrown
     expect(true).toBe(true);
   });
+
+  it('reports where a note body is', () => {
+    physicsManager.addOrUpdateNote(mockNote);
+    physicsManager.setNotePosition(mockNote.id, 250, 150);
+    expect(physicsManager.getNotePosition(mockNote.id)).toEqual({ x: 250, y: 150 });
+    expect(physicsManager.getNotePosition('missing')).toBeUndefined();
+  });
+
+  it('bounces a thrown note off the edge of its frame', () => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance'] });
+    try {
+      const manager = new PhysicsManager(() => {});
+      const frame: Frame = {
+        id: 'frame-1',
+        boardId: 'board-1',
+        name: 'Went well',
+        x: 0,
+        y: 0,
+        width: 600,
+        height: 400,
+        collapsed: false,
+        createdAt: 1,
+        updatedAt: 1,
+      };
+      manager.setFrames([frame]);
+      manager.addOrUpdateNote(mockNote);
+      manager.applyMomentum(mockNote.id, 40, 0);
+
+      manager.start();
+      vi.advanceTimersByTime(1000);
+      manager.stop();
+
+      const position = manager.getNotePosition(mockNote.id)!;
+      manager.destroy();
+      expect(position.x).toBeLessThanOrEqual(frame.width - mockNote.width);
+      expect(position.x).toBeGreaterThanOrEqual(frame.x);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -1,5 +1,6 @@
 import Matter from 'matter-js';
-import { Note } from '../../../shared/src/types';
+import { Frame, Note } from '../../../shared/src/types';
+import { getNoteFrame } from '../../../shared/src/frames';
 
 interface ViewportBounds {
   minX: number;
@@ -21,6 +22,9 @@ export class PhysicsManager {
   private lastPositionUpdateTime: Map<string, number> = new Map();
   private readonly positionUpdateThrottle: number = 100; // Max 10 updates per second per note
   private readonly velocityThreshold: number = 1; // Only send updates if moving faster than this
+  private frames: Frame[] = [];
+  private noteSizes: Map<string, { width: number; height: number }> = new Map();
+  private readonly frameRestitution: number = 0.6; // Same bounce as between notes
 
   constructor(onPositionUpdate: (noteId: string, x: number, y: number) => void) {
     // Initialize Matter.js engine with optimizations
@@ -167,8 +171,10 @@ export class PhysicsManager {
           // Update viewport-based optimizations
           this.updateVisibility();
           
-          // Update physics engine
+          // Update physics engine, keeping notes inside the frames they started the step in
+          const framed = this.getFramedBodies();
           Matter.Engine.update(this.engine, this.frameTime);
+          this.keepInsideFrames(framed);
 
           // Sync physics positions back to React state
           this.syncPositions();
@@ -268,6 +274,70 @@ export class PhysicsManager {
     }
   }
   
+  /**
+   * Set the frames whose edges the notes inside them bounce off
+   */
+  setFrames(frames: Frame[]): void {
+    this.frames = frames;
+  }
+
+  /**
+   * The frame each moving note is in. Static bodies are being dragged (or are
+   * off-screen), and a dragged note can leave its frame.
+   */
+  private getFramedBodies(): Map<string, Frame> {
+    const framed = new Map<string, Frame>();
+    if (this.frames.length === 0) return framed;
+
+    this.bodies.forEach((body, noteId) => {
+      const size = this.noteSizes.get(noteId);
+      if (body.isStatic || body.isSleeping || !size) return;
+      const frame = getNoteFrame({ x: body.position.x, y: body.position.y, ...size }, this.frames);
+      if (frame) {
+        framed.set(noteId, frame);
+      }
+    });
+    return framed;
+  }
+
+  /**
+   * Bounce notes that crossed the edge of their frame back inside it
+   */
+  private keepInsideFrames(framed: Map<string, Frame>): void {
+    framed.forEach((frame, noteId) => {
+      const body = this.bodies.get(noteId);
+      const size = this.noteSizes.get(noteId);
+      if (!body || !size) return;
+
+      const velocity = Matter.Body.getVelocity(body);
+      const position = { x: body.position.x, y: body.position.y };
+      const next = { ...velocity };
+      const maxX = Math.max(frame.x, frame.x + frame.width - size.width);
+      const maxY = Math.max(frame.y, frame.y + frame.height - size.height);
+
+      if (position.x < frame.x) {
+        position.x = frame.x;
+        next.x = Math.abs(velocity.x) * this.frameRestitution;
+      } else if (position.x > maxX) {
+        position.x = maxX;
+        next.x = -Math.abs(velocity.x) * this.frameRestitution;
+      }
+
+      if (position.y < frame.y) {
+        position.y = frame.y;
+        next.y = Math.abs(velocity.y) * this.frameRestitution;
+      } else if (position.y > maxY) {
+        position.y = maxY;
+        next.y = -Math.abs(velocity.y) * this.frameRestitution;
+      }
+
+      if (position.x !== body.position.x || position.y !== body.position.y) {
+        Matter.Body.setPosition(body, position);
+        Matter.Body.setVelocity(body, next);
+      }
+    });
+  }
+
   /**
    * Update viewport bounds for optimization
    */
@@ -322,6 +392,7 @@ export class PhysicsManager {
   addOrUpdateNote(note: Note): void {
     try {
       const existingBody = this.bodies.get(note.id);
+      this.noteSizes.set(note.id, { width: note.width, height: note.height });
 
       if (existingBody) {
         // Update existing body position
@@ -366,6 +437,7 @@ export class PhysicsManager {
       Matter.World.remove(this.world, body);
       this.bodies.delete(noteId);
     }
+    this.noteSizes.delete(noteId);
   }
 
   /**
@@ -397,6 +469,14 @@ export class PhysicsManager {
     }
   }
 
+  /**
+   * Where a note's body is right now, including while it drifts after a throw
+   */
+  getNotePosition(noteId: string): { x: number; y: number } | undefined {
+    const body = this.bodies.get(noteId);
+    return body ? { x: body.position.x, y: body.position.y } : undefined;
+  }
+
   /**
    * Make a note static (disable physics) during dragging
    */
@@ -419,5 +499,6 @@ export class PhysicsManager {
     Matter.World.clear(this.world, false);
     Matter.Engine.clear(this.engine);
     this.bodies.clear();
+    this.noteSizes.clear();
   }
 }
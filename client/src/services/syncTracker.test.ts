@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncTracker } from './syncTracker';
+
+describe('SyncTracker', () => {
+  let tracker: SyncTracker;
+
+  beforeEach(() => {
+    tracker = new SyncTracker();
+    tracker.setCursor('board-1', { epoch: 'e1', seq: 10 });
+  });
+
+  it('applies broadcasts in order and advances the cursor', () => {
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 10, seq: 11 })).toEqual({ apply: true, resync: false });
+    // Changes that weren't broadcast are folded into the next broadcast's range
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 11, seq: 14 })).toEqual({ apply: true, resync: false });
+    expect(tracker.getCursor('board-1')).toEqual({ epoch: 'e1', seq: 14 });
+  });
+
+  it('ignores broadcasts the cursor already covers', () => {
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 8, seq: 9 })).toEqual({ apply: false, resync: false });
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 9, seq: 10 })).toEqual({ apply: false, resync: false });
+  });
+
+  it('asks for one resync after a gap and keeps the cursor until it arrives', () => {
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 12, seq: 13 })).toEqual({ apply: true, resync: true });
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 13, seq: 14 })).toEqual({ apply: true, resync: false });
+    expect(tracker.getCursor('board-1')?.seq).toBe(10);
+
+    tracker.setCursor('board-1', { epoch: 'e1', seq: 14 });
+    expect(tracker.check({ boardId: 'board-1', prevSeq: 14, seq: 15 })).toEqual({ apply: true, resync: false });
+  });
+
+  it('applies everything for boards not synced yet', () => {
+    expect(tracker.check({ boardId: 'board-2', prevSeq: 40, seq: 41 })).toEqual({ apply: true, resync: false });
+  });
+});
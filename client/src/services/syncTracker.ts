@@ -0,0 +1,58 @@
+import { BoardSequence, SyncCursor } from '../../../shared/src/types';
+
+/**
+ * How far each board has been synced, advanced by each broadcast that
+ * arrives in order. Broadcasts already covered are duplicates; one that
+ * starts past the cursor means something was missed in between.
+ */
+export class SyncTracker {
+  private cursors: Map<string, SyncCursor> = new Map();
+  // Boards waiting on a resync to fill a gap, so it is only requested once
+  private resyncing: Set<string> = new Set();
+
+  getCursor(boardId: string): SyncCursor | undefined {
+    return this.cursors.get(boardId);
+  }
+
+  // Record that a sync response has been applied
+  setCursor(boardId: string, cursor: SyncCursor): void {
+    this.cursors.set(boardId, cursor);
+    this.resyncing.delete(boardId);
+  }
+
+  forget(boardId: string): void {
+    this.cursors.delete(boardId);
+  }
+
+  clear(): void {
+    this.cursors.clear();
+    this.resyncing.clear();
+  }
+
+  /**
+   * Whether to apply a broadcast, and whether to resync its board because
+   * one went missing. Broadcasts carry whole items, so applying one ahead of
+   * the gap being filled is safe; the cursor stays put so the resync covers
+   * everything after it.
+   */
+  check(sequence: BoardSequence): { apply: boolean; resync: boolean } {
+    const cursor = this.cursors.get(sequence.boardId);
+    if (!cursor) {
+      // Not synced yet; the sync response will include this change
+      return { apply: true, resync: false };
+    }
+
+    if (sequence.seq <= cursor.seq) {
+      return { apply: false, resync: false };
+    }
+
+    if (sequence.prevSeq > cursor.seq) {
+      const resync = !this.resyncing.has(sequence.boardId);
+      this.resyncing.add(sequence.boardId);
+      return { apply: true, resync };
+    }
+
+    this.cursors.set(sequence.boardId, { ...cursor, seq: sequence.seq });
+    return { apply: true, resync: false };
+  }
+}
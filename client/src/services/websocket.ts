@@ -1,23 +1,58 @@
 import { io, Socket } from 'socket.io-client';
-import { WSMessage, WSMessageType } from '../../../shared/src/types';
+import { MessageAck, MessageErrorCode, SyncCursor, WSMessage, WSMessageType } from '../../../shared/src/types';
+import { Outbox, isTransient, itemKey, withoutSuperseded } from './outbox';
+import { SyncTracker } from './syncTracker';
+import { offlineStore } from './offlineStore';
 
 export type MessageHandler = (message: WSMessage) => void;
 
+// A change sent to the server that it hasn't acknowledged yet
+export interface PendingOperation {
+  opId: string;
+  type: WSMessageType;
+  payload: any;
+  sentAt: number;
+}
+
+export interface OperationRejection {
+  operation: PendingOperation;
+  error: string;
+  code?: MessageErrorCode;
+}
+
+// Called whenever the pending operations change, with the rejection if that's why
+export type OperationListener = (pending: PendingOperation[], rejection?: OperationRejection) => void;
+
+const PRESENCE_HEARTBEAT_MS = 15000; // The server drops presence after 45s without one
+const ACK_TIMEOUT_MS = 10000;
+const RATE_LIMIT_RETRY_MS = 1000;
+
 class WebSocketService {
   private socket: Socket | null = null;
   private messageHandlers: Map<WSMessageType, Set<MessageHandler>> = new Map();
-  private messageQueue: WSMessage[] = [];
+  // Changes made while disconnected, kept in IndexedDB until they're sent
+  private outbox = new Outbox({
+    load: () => offlineStore.loadOutbox(),
+    save: messages => offlineStore.saveOutbox(messages),
+  });
   private reconnectAttempts = 0;
   private maxReconnectDelay = 30000; // 30 seconds
   private baseReconnectDelay = 3000; // 3 seconds
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private userId: string;
+  private userId: string = 'anonymous'; // Set after login; the server uses the session's user either way
   private joinedBoards: Set<string> = new Set();
-
-  constructor() {
-    // Generate a unique user ID for this session
-    this.userId = `user-${Math.random().toString(36).substring(2, 11)}`;
-  }
+  // How far each board has been synced, so a resync only fetches what changed
+  private syncTracker = new SyncTracker();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Operation IDs only need to be unique to this tab
+  private opPrefix = Math.random().toString(36).slice(2, 10);
+  private opCounter = 0;
+  private pendingOperations: Map<string, PendingOperation> = new Map();
+  private operationListeners: Set<OperationListener> = new Set();
+  // The latest message sent or queued for each item, so a retry doesn't undo it
+  private latestByItem: Map<string, WSMessage> = new Map();
+  // Set while backing off after the server refused changes for coming too fast
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
 
   connect(url: string = 'http://localhost:3001'): void {
     // Clear any pending reconnection timer
@@ -30,6 +65,8 @@ class WebSocketService {
     if (this.socket?.connected) {
       return;
     }
+
+    this.outbox.restore();
     
     // Disconnect existing socket if present but not connected
     if (this.socket) {
@@ -39,6 +76,7 @@ class WebSocketService {
     this.socket = io(url, {
       transports: ['websocket', 'polling'],
       reconnection: false, // We'll handle reconnection manually
+      withCredentials: true, // Send the session cookie with the handshake
     });
 
     this.setupEventListeners();
@@ -47,7 +85,7 @@ class WebSocketService {
   private setupEventListeners(): void {
     if (!this.socket) return;
 
-    this.socket.on('connect', () => {
+    this.socket.on('connect', async () => {
       console.log('WebSocket connected');
       this.reconnectAttempts = 0;
       
@@ -56,13 +94,24 @@ class WebSocketService {
         this.socket!.emit('join:board', boardId);
       });
       
+      // Replay changes made offline, including any from before a reload, ahead
+      // of the sync requests that follow. Updates carry the note version they
+      // were made against, so the server reports conflicts with newer edits.
+      await this.outbox.restore();
       this.flushMessageQueue();
+      this.startHeartbeat();
       this.notifyConnectionChange('connected');
     });
 
     this.socket.on('disconnect', () => {
       console.log('WebSocket disconnected');
       // Don't clear joinedBoards - we'll re-join them on reconnect
+      this.stopHeartbeat();
+      // Their acks are lost with the connection, so send them again on
+      // reconnect. The server answers any it already applied without
+      // applying them twice.
+      this.requeuePendingOperations();
+      this.stopRetryTimer();
       this.notifyConnectionChange('disconnected');
       this.scheduleReconnect();
     });
@@ -80,12 +129,35 @@ class WebSocketService {
       'note:updated': 'note:update',
       'note:deleted': 'note:delete',
       'note:moved': 'note:move',
+      'note:bulk:applied': 'note:bulk',
+      'note:edited': 'note:edit',
+      'note:edit:ack': 'note:edit:ack',
+      'note:edit:rejected': 'note:edit:rejected',
+      'note:conflict': 'note:conflict',
+      'note:restored': 'note:restore',
       'note:editing:started': 'note:editing:start',
       'note:editing:ended': 'note:editing:end',
+      'note:editing:denied': 'note:editing:denied',
+      'note:editing:revoked': 'note:editing:revoked',
+      'connector:created': 'connector:create',
+      'connector:updated': 'connector:update',
+      'connector:deleted': 'connector:delete',
+      'frame:created': 'frame:create',
+      'frame:updated': 'frame:update',
+      'frame:moved': 'frame:move',
+      'frame:deleted': 'frame:delete',
+      'batch:applied': 'batch',
       'board:created': 'board:create',
       'board:deleted': 'board:delete',
       'board:renamed': 'board:rename',
+      'board:acl:updated': 'board:acl:update',
+      'board:restored': 'board:restore',
       'sync:response': 'sync:response',
+      'presence:state': 'presence:state',
+      'presence:joined': 'presence:join',
+      'presence:left': 'presence:leave',
+      'presence:cursor': 'presence:cursor',
+      'presence:viewport': 'presence:viewport',
     };
 
     Object.entries(eventMappings).forEach(([serverEvent, messageType]) => {
@@ -96,12 +168,44 @@ class WebSocketService {
           payload: serverMessage.payload, // Extract the actual payload from server message
           timestamp: serverMessage.timestamp || Date.now(),
           userId: serverMessage.userId || 'unknown',
+          sequence: serverMessage.sequence,
         };
-        this.handleMessage(message);
+        if (this.checkSequence(message)) {
+          this.handleMessage(message);
+        }
       });
     });
   }
 
+  // Drop broadcasts already applied, and resync a board that missed one
+  private checkSequence(message: WSMessage): boolean {
+    if (!message.sequence) {
+      return true;
+    }
+
+    const { apply, resync } = this.syncTracker.check(message.sequence);
+    if (resync) {
+      console.log(`Missed changes to board ${message.sequence.boardId}, resyncing`);
+      this.requestSync(message.sequence.boardId);
+    }
+    // An ack is never dropped: the edit it acknowledges would stay outstanding
+    return apply || message.type === 'note:edit:ack';
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.joinedBoards.forEach(boardId => this.send('presence:heartbeat', { boardId }));
+    }, PRESENCE_HEARTBEAT_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
   private scheduleReconnect(): void {
     if (this.reconnectTimer) {
       return;
@@ -163,39 +267,153 @@ class WebSocketService {
     }
   }
 
-  send(type: WSMessageType, payload: any): void {
+  onOperationChange(listener: OperationListener): void {
+    this.operationListeners.add(listener);
+  }
+
+  offOperationChange(listener: OperationListener): void {
+    this.operationListeners.delete(listener);
+  }
+
+  getPendingOperations(): PendingOperation[] {
+    return Array.from(this.pendingOperations.values());
+  }
+
+  // Returns the message's operation ID, which the server's ack refers to
+  send(type: WSMessageType, payload: any): string {
     const message: WSMessage = {
       type,
       payload,
       timestamp: Date.now(),
       userId: this.userId,
+      opId: `${this.opPrefix}-${++this.opCounter}`,
     };
 
-    if (this.socket?.connected) {
-      this.socket.emit(type, message);
+    const key = itemKey(message);
+    if (key) {
+      this.latestByItem.set(key, message);
+    }
+
+    // While backing off, queue behind the changes waiting to be retried
+    if (this.socket?.connected && !this.retryTimer) {
+      this.emit(message);
     } else {
-      // Queue message for later if disconnected
-      this.messageQueue.push(message);
+      // Queue message for later if disconnected or backing off
+      this.outbox.add(message);
       console.log(`Message queued (${type}):`, payload);
     }
+    return message.opId!;
   }
 
-  private flushMessageQueue(): void {
-    if (this.messageQueue.length === 0) {
+  // Send a message, asking the server to acknowledge it unless it's transient.
+  // Text operations are left out too; they have acks of their own.
+  private emit(message: WSMessage): void {
+    const opId = message.opId;
+    if (!opId || isTransient(message.type)) {
+      this.socket!.emit(message.type, message);
       return;
     }
 
-    console.log(`Flushing ${this.messageQueue.length} queued messages`);
-    
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift()!;
-      if (this.socket?.connected) {
-        this.socket.emit(message.type, message);
+    const operation: PendingOperation = {
+      opId,
+      type: message.type,
+      payload: message.payload,
+      sentAt: Date.now(),
+    };
+    this.pendingOperations.set(opId, operation);
+    this.notifyOperationChange();
+
+    this.socket!.timeout(ACK_TIMEOUT_MS).emit(message.type, message, (err: Error | null, ack?: MessageAck) => {
+      // Already given up on, e.g. when the connection dropped and it was sent again
+      if (this.pendingOperations.get(opId) !== operation) {
+        return;
+      }
+      this.pendingOperations.delete(opId);
+
+      if (err || !ack) {
+        // Left in the outbox's storage, in case it never reached the server
+        console.warn(`No acknowledgement for ${message.type} (${opId})`);
+        this.notifyOperationChange();
+        return;
       }
+
+      if (!ack.ok && ack.code === 'rate_limited') {
+        // Queued again before it's settled, so storage is never without it
+        this.retryLater(message);
+      }
+      this.outbox.settle(opId);
+      if (ack.ok || ack.code === 'rate_limited') {
+        this.notifyOperationChange();
+      } else {
+        this.notifyOperationChange({ operation, error: ack.error, code: ack.code });
+      }
+    });
+  }
+
+  /**
+   * Queue a change the server refused for coming too fast, to send again
+   * shortly along with anything sent meanwhile. Whatever a later change to
+   * the same item has replaced is dropped rather than sent after it.
+   */
+  private retryLater(message: WSMessage): void {
+    const key = itemKey(message);
+    const latest = key ? this.latestByItem.get(key) : undefined;
+    const retry = latest && latest.opId !== message.opId ? withoutSuperseded(message, latest) : message;
+    if (retry) {
+      this.outbox.add(retry);
+    }
+
+    if (!this.retryTimer) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.flushMessageQueue();
+      }, RATE_LIMIT_RETRY_MS);
+    }
+  }
+
+  private stopRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private requeuePendingOperations(): void {
+    const unacknowledged = this.getPendingOperations().map((operation): WSMessage => ({
+      type: operation.type,
+      payload: operation.payload,
+      timestamp: operation.sentAt,
+      userId: this.userId,
+      opId: operation.opId,
+    }));
+    this.outbox.requeue(unacknowledged);
+    this.clearPendingOperations();
+  }
+
+  private clearPendingOperations(): void {
+    if (this.pendingOperations.size > 0) {
+      this.pendingOperations.clear();
+      this.notifyOperationChange();
     }
   }
 
-  requestSync(boardId: string): void {
+  private notifyOperationChange(rejection?: OperationRejection): void {
+    const pending = this.getPendingOperations();
+    this.operationListeners.forEach(listener => listener(pending, rejection));
+  }
+
+  private flushMessageQueue(): void {
+    if (this.outbox.size === 0 || !this.socket?.connected) {
+      return;
+    }
+
+    console.log(`Flushing ${this.outbox.size} queued messages`);
+    
+    this.outbox.take().forEach(message => this.emit(message));
+  }
+
+  // Pass full to fetch the whole board rather than the changes since the last sync
+  requestSync(boardId: string, full: boolean = false): void {
     // Always add to joined boards set (will join on connect if not connected yet)
     this.joinedBoards.add(boardId);
     
@@ -204,7 +422,16 @@ class WebSocketService {
       this.socket.emit('join:board', boardId);
     }
     
-    this.send('sync:request', { boardId });
+    if (full) {
+      this.syncTracker.forget(boardId);
+    }
+    const since = this.syncTracker.getCursor(boardId);
+    this.send('sync:request', since ? { boardId, since } : { boardId });
+  }
+
+  // Record that a sync response has been applied
+  setSyncCursor(boardId: string, cursor: SyncCursor): void {
+    this.syncTracker.setCursor(boardId, cursor);
   }
   
   leaveBoard(boardId: string): void {
@@ -218,6 +445,7 @@ class WebSocketService {
   }
 
   disconnect(): void {
+    this.stopHeartbeat();
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
@@ -229,8 +457,12 @@ class WebSocketService {
     }
 
     this.messageHandlers.clear();
-    this.messageQueue = [];
+    this.clearPendingOperations();
+    this.stopRetryTimer();
+    this.latestByItem.clear();
+    this.outbox.clear();
     this.joinedBoards.clear();
+    this.syncTracker.clear();
   }
 
   isConnected(): boolean {
@@ -240,6 +472,15 @@ class WebSocketService {
   getUserId(): string {
     return this.userId;
   }
+
+  // This connection's ID, which identifies it in presence events
+  getSessionId(): string | undefined {
+    return this.socket?.id;
+  }
+
+  setUserId(userId: string): void {
+    this.userId = userId;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'http';
+import { Server as SocketIOServer } from 'socket.io';
+import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
+import express, { Express } from 'express';
+import { PersistenceService } from '../services/persistence';
+import { StateManager } from '../services/stateManager';
+import { UserStore } from '../services/userStore';
+import { SessionStore } from '../services/sessionStore';
+import { InviteStore } from '../services/inviteStore';
+import { setupWebSocketHandlers } from '../websocket/handlers';
+import { authenticateSocket } from '../websocket/auth';
+import { setupAPIRoutes } from '../api/routes';
+import { setupAuthRoutes, requireSession } from '../api/auth';
+import { setupInviteRoutes } from '../api/invites';
+import { Board, CreatedInvite, Invite, Note, WSMessage } from '../../../shared/src/types';
+import { promises as fs } from 'fs';
+
+describe('Authentication', () => {
+  let app: Express;
+  let httpServer: any;
+  let io: SocketIOServer;
+  let stateManager: StateManager;
+  let userStore: UserStore;
+  let serverUrl: string;
+  const testDataDir = './test-data-auth';
+
+  const post = (path: string, body: unknown, cookie?: string) =>
+    fetch(`${serverUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body),
+    });
+
+  const getCookie = (response: Response) => response.headers.get('set-cookie')!.split(';')[0];
+
+  const connect = (cookie?: string) =>
+    new Promise<ClientSocket>((resolve, reject) => {
+      const client = ioClient(serverUrl, {
+        transports: ['websocket'],
+        extraHeaders: cookie ? { Cookie: cookie } : {},
+      });
+      client.on('connect', () => resolve(client));
+      client.on('connect_error', (error) => {
+        client.disconnect();
+        reject(error);
+      });
+    });
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    httpServer = createServer(app);
+    io = new SocketIOServer(httpServer);
+
+    const persistenceService = new PersistenceService(testDataDir);
+    stateManager = new StateManager(persistenceService);
+    await stateManager.loadFromDisk();
+    userStore = new UserStore(testDataDir);
+    await userStore.initialize();
+    const sessionStore = new SessionStore(testDataDir);
+    await sessionStore.initialize();
+    const inviteStore = new InviteStore(testDataDir);
+    await inviteStore.initialize();
+
+    setupAuthRoutes(app, userStore, sessionStore, io);
+    app.use('/api', requireSession(sessionStore));
+    setupAPIRoutes(app, stateManager);
+    setupInviteRoutes(app, stateManager, inviteStore);
+    io.use(authenticateSocket(sessionStore));
+    setupWebSocketHandlers(io, stateManager);
+
+    await new Promise<void>((resolve) => {
+      httpServer.listen(0, () => {
+        serverUrl = `http://localhost:${(httpServer.address() as any).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await stateManager.shutdown();
+    io.close();
+    httpServer.close();
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('registers a user and logs them in with a session cookie', async () => {
+    const response = await post('/api/auth/register', { username: 'alice', password: 'correct horse' });
+    expect(response.status).toBe(201);
+    expect(response.headers.get('set-cookie')).toContain('HttpOnly');
+
+    const me = await fetch(`${serverUrl}/api/auth/me`, { headers: { Cookie: getCookie(response) } });
+    expect(me.status).toBe(200);
+    const user = (await me.json()) as { username: string; passwordHash?: string };
+    expect(user.username).toBe('alice');
+    expect(user.passwordHash).toBeUndefined();
+  });
+
+  it('rejects duplicate usernames and weak passwords', async () => {
+    expect((await post('/api/auth/register', { username: 'ALICE', password: 'another password' })).status).toBe(400);
+    expect((await post('/api/auth/register', { username: 'bob', password: 'short' })).status).toBe(400);
+  });
+
+  it('rejects a wrong password', async () => {
+    const response = await post('/api/auth/login', { username: 'alice', password: 'wrong password' });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('requires a session for API routes', async () => {
+    expect((await fetch(`${serverUrl}/api/boards`)).status).toBe(401);
+
+    const login = await post('/api/auth/login', { username: 'alice', password: 'correct horse' });
+    const boards = await fetch(`${serverUrl}/api/boards`, { headers: { Cookie: getCookie(login) } });
+    expect(boards.status).toBe(200);
+  });
+
+  it('ends the session on logout', async () => {
+    const login = await post('/api/auth/login', { username: 'alice', password: 'correct horse' });
+    const cookie = getCookie(login);
+
+    expect((await post('/api/auth/logout', {}, cookie)).status).toBe(204);
+    expect((await fetch(`${serverUrl}/api/boards`, { headers: { Cookie: cookie } })).status).toBe(401);
+  });
+
+  it('creates only one account when the same username registers twice at once', async () => {
+    const responses = await Promise.all([
+      post('/api/auth/register', { username: 'carol', password: 'first password' }),
+      post('/api/auth/register', { username: 'Carol', password: 'second password' }),
+    ]);
+    expect(responses.map(response => response.status).sort()).toEqual([201, 400]);
+  });
+
+  it('disconnects the session\'s WebSocket connections on logout', async () => {
+    const login = await post('/api/auth/login', { username: 'alice', password: 'correct horse' });
+    const cookie = getCookie(login);
+    const client = await connect(cookie);
+    const disconnected = new Promise<string>((resolve) => client.once('disconnect', resolve));
+
+    await post('/api/auth/logout', {}, cookie);
+    expect(await disconnected).toBe('io server disconnect');
+  });
+
+  it('refuses WebSocket connections without a session', async () => {
+    await expect(connect()).rejects.toThrow('Unauthorized');
+  });
+
+  it('sets the message userId from the session', async () => {
+    const login = await post('/api/auth/login', { username: 'alice', password: 'correct horse' });
+    const user = (await login.json()) as { id: string };
+    const client = await connect(getCookie(login));
+
+    const board = stateManager.createBoard('Auth Board');
+    client.emit('join:board', board.id);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const created = new Promise<WSMessage>((resolve) => {
+      client.on('note:created', (message: WSMessage) => resolve(message));
+    });
+    client.emit('note:create', {
+      type: 'note:create',
+      payload: { boardId: board.id, x: 10, y: 10 },
+      timestamp: Date.now(),
+      userId: 'someone-else',
+    });
+
+    const message = await created;
+    expect(message.userId).toBe(user.id);
+    expect((message.payload as Note).boardId).toBe(board.id);
+    client.disconnect();
+  });
+
+  describe('Board access', () => {
+    const put = (path: string, body: unknown, cookie: string) =>
+      fetch(`${serverUrl}${path}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify(body),
+      });
+
+    const signUp = async (username: string) => {
+      const response = await post('/api/auth/register', { username, password: 'correct horse' });
+      const user = (await response.json()) as { id: string };
+      return { id: user.id, cookie: getCookie(response) };
+    };
+
+    const nextError = (client: ClientSocket) =>
+      new Promise<{ message: string }>((resolve) => client.once('error', resolve));
+
+    it('keeps boards private to their owner until shared', async () => {
+      const owner = await signUp('owner1');
+      const other = await signUp('other1');
+
+      const created = await post('/api/boards', { name: 'Private' }, owner.cookie);
+      const board = (await created.json()) as Board;
+      expect(board.acl).toEqual({ owner: owner.id, editors: [], viewers: [] });
+
+      const listed = (await (await fetch(`${serverUrl}/api/boards`, { headers: { Cookie: other.cookie } })).json()) as Board[];
+      expect(listed.some(b => b.id === board.id)).toBe(false);
+      expect((await fetch(`${serverUrl}/api/boards/${board.id}/notes`, { headers: { Cookie: other.cookie } })).status).toBe(403);
+      expect((await fetch(`${serverUrl}/api/boards/${board.id}`, { method: 'DELETE', headers: { Cookie: other.cookie } })).status).toBe(403);
+      expect(stateManager.getBoard(board.id)).toBeDefined();
+    });
+
+    it('lets viewers read a board but not change it', async () => {
+      const owner = await signUp('owner2');
+      const viewer = await signUp('viewer2');
+      const board = (await (await post('/api/boards', { name: 'Shared' }, owner.cookie)).json()) as Board;
+
+      const shared = await put(`/api/boards/${board.id}/acl`, { editors: [], viewers: [viewer.id] }, owner.cookie);
+      expect(shared.status).toBe(200);
+      expect((await fetch(`${serverUrl}/api/boards/${board.id}/notes`, { headers: { Cookie: viewer.cookie } })).status).toBe(200);
+      expect((await put(`/api/boards/${board.id}`, { name: 'Renamed' }, viewer.cookie)).status).toBe(403);
+      expect((await put(`/api/boards/${board.id}/acl`, { editors: [viewer.id], viewers: [] }, viewer.cookie)).status).toBe(403);
+
+      const client = await connect(viewer.cookie);
+      client.emit('join:board', board.id);
+      const rejected = nextError(client);
+      client.emit('note:create', {
+        type: 'note:create',
+        payload: { boardId: board.id, x: 0, y: 0 },
+        timestamp: Date.now(),
+        userId: viewer.id,
+      });
+
+      expect((await rejected).message).toBe('Only a board editor can do this');
+      expect(stateManager.getNotes(board.id)).toHaveLength(0);
+      client.disconnect();
+    });
+
+    it('refuses to join the room of a board the user cannot see', async () => {
+      const owner = await signUp('owner3');
+      const other = await signUp('other3');
+      const board = (await (await post('/api/boards', { name: 'Closed' }, owner.cookie)).json()) as Board;
+
+      const client = await connect(other.cookie);
+      const rejected = nextError(client);
+      client.emit('join:board', board.id);
+
+      expect((await rejected).message).toBe('You do not have access to this board');
+      expect(io.sockets.adapter.rooms.get(`board:${board.id}`)).toBeUndefined();
+      client.disconnect();
+    });
+
+    it('grants access through an invite link until it is revoked', async () => {
+      const owner = await signUp('owner4');
+      const guest = await signUp('guest4');
+      const latecomer = await signUp('late4');
+      const board = (await (await post('/api/boards', { name: 'Invited' }, owner.cookie)).json()) as Board;
+
+      expect((await post(`/api/boards/${board.id}/invites`, { role: 'editor' }, guest.cookie)).status).toBe(403);
+      const created = await post(`/api/boards/${board.id}/invites`, { role: 'editor', expiresInHours: 1 }, owner.cookie);
+      expect(created.status).toBe(201);
+      const { invite, token } = (await created.json()) as CreatedInvite;
+
+      const accepted = await post(`/api/invites/${token}/accept`, {}, guest.cookie);
+      expect(accepted.status).toBe(200);
+      expect(((await accepted.json()) as Board).acl?.editors).toEqual([guest.id]);
+
+      const listed = (await (await fetch(`${serverUrl}/api/invites`, { headers: { Cookie: owner.cookie } })).json()) as Invite[];
+      expect(listed.map(i => i.id)).toEqual([invite.id]);
+      expect((await fetch(`${serverUrl}/api/invites/${invite.id}`, { method: 'DELETE', headers: { Cookie: guest.cookie } })).status).toBe(403);
+      expect((await fetch(`${serverUrl}/api/invites/${invite.id}`, { method: 'DELETE', headers: { Cookie: owner.cookie } })).status).toBe(204);
+
+      expect((await post(`/api/invites/${token}/accept`, {}, latecomer.cookie)).status).toBe(404);
+      expect(stateManager.getBoard(board.id)?.acl?.viewers).toEqual([]);
+    });
+  });
+});
@@ -7,7 +7,10 @@ import { PersistenceService } from '../services/persistence';
 import { StateManager } from '../services/stateManager';
 import { setupWebSocketHandlers } from '../websocket/handlers';
 import { setupAPIRoutes } from '../api/routes';
-import { Board, Note, WSMessage } from '../../../shared/src/types';
+import { setupBlobRoutes } from '../api/blobs';
+import { BlobStore } from '../services/blobStore';
+import { ImageProcessor } from '../services/imageProcessor';
+import { Board, MessageAck, Note, PresenceInfo, WSMessage } from '../../../shared/src/types';
 import { promises as fs } from 'fs';
 
 describe('Integration Tests', () => {
@@ -40,7 +43,10 @@ describe('Integration Tests', () => {
     await stateManager.loadFromDisk();
 
     // Setup routes and handlers
-    setupAPIRoutes(app, stateManager);
+    setupAPIRoutes(app, stateManager, io);
+    const blobStore = new BlobStore(`${testDataDir}/blobs`);
+    await blobStore.initialize();
+    setupBlobRoutes(app, blobStore, new ImageProcessor());
     setupWebSocketHandlers(io, stateManager);
 
     // Start server
@@ -282,6 +288,48 @@ describe('Integration Tests', () => {
       expect(updatedNote.images).toHaveLength(1);
       expect(updatedNote.images[0].url).toBe(base64Image);
     });
+
+    it('uploads an image to the blob store and serves it with caching headers', async () => {
+      const png = Buffer.from(
+        'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+        'base64'
+      );
+
+      const uploadResponse = await fetch(`${serverUrl}/api/blobs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'image/png' },
+        body: png,
+      });
+      expect(uploadResponse.status).toBe(201);
+      const blob = (await uploadResponse.json()) as { hash: string; url: string; contentType: string; size: number; width: number };
+      expect(blob.url).toBe(`/api/blobs/${blob.hash}`);
+      expect(blob.width).toBe(1);
+
+      const getResponse = await fetch(`${serverUrl}${blob.url}`);
+      expect(getResponse.status).toBe(200);
+      expect(getResponse.headers.get('content-type')).toBe(blob.contentType);
+      expect(getResponse.headers.get('cache-control')).toContain('immutable');
+      expect((await getResponse.arrayBuffer()).byteLength).toBe(blob.size);
+
+      const cachedResponse = await fetch(`${serverUrl}${blob.url}`, {
+        headers: { 'If-None-Match': getResponse.headers.get('etag')! },
+      });
+      expect(cachedResponse.status).toBe(304);
+    });
+
+    it('rejects uploads that are not images', async () => {
+      const response = await fetch(`${serverUrl}/api/blobs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: 'not an image',
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for unknown blobs', async () => {
+      const response = await fetch(`${serverUrl}/api/blobs/${'0'.repeat(64)}`);
+      expect(response.status).toBe(404);
+    });
   });
 
   describe('Sticker Addition and Positioning', () => {
@@ -427,6 +475,36 @@ describe('Integration Tests', () => {
       expect(receivedNote.content).toBe('Updated content from client1');
     });
 
+    it('merges concurrent content edits from two clients', async () => {
+      const note = stateManager.createNote(boardId, 100, 100);
+      const noteId = note!.id;
+      stateManager.applyNoteEdit(noteId, 0, ['Went well']);
+
+      const client1AckPromise = new Promise<any>((resolve) => {
+        client1.on('note:edit:ack', (message: WSMessage) => resolve(message.payload));
+      });
+      const client2AckPromise = new Promise<any>((resolve) => {
+        client2.on('note:edit:ack', (message: WSMessage) => resolve(message.payload));
+      });
+
+      // Both clients edit revision 1 without seeing each other's change
+      client1.emit('note:edit', {
+        type: 'note:edit',
+        payload: { noteId, revision: 1, operation: [4, ' really', 5] },
+        timestamp: Date.now(),
+        userId: 'client1',
+      });
+      client2.emit('note:edit', {
+        type: 'note:edit',
+        payload: { noteId, revision: 1, operation: [9, '!'] },
+        timestamp: Date.now(),
+        userId: 'client2',
+      });
+
+      await Promise.all([client1AckPromise, client2AckPromise]);
+      expect(stateManager.getNote(noteId)?.content).toBe('Went really well!');
+    });
+
     it('broadcasts note deletion to all clients', async () => {
       const note = stateManager.createNote(boardId, 100, 100);
       const noteId = note!.id;
@@ -716,4 +794,596 @@ describe('Integration Tests', () => {
       expect(receivedUpdates.length).toBeGreaterThan(0);
     });
   });
+
+  describe('Connectors', () => {
+    let client1: ClientSocket;
+    let client2: ClientSocket;
+    let boardId: string;
+
+    const send = (client: ClientSocket, type: string, payload: any) => {
+      client.emit(type, { type, payload, timestamp: Date.now(), userId: 'test' });
+    };
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Connector Board').id;
+      client1 = ioClient(serverUrl);
+      client2 = ioClient(serverUrl);
+
+      await Promise.all([client1, client2].map(client =>
+        new Promise((resolve) => {
+          client.once('presence:state', resolve);
+          client.on('connect', () => client.emit('join:board', boardId));
+        })
+      ));
+    });
+
+    afterEach(() => {
+      if (client1) client1.disconnect();
+      if (client2) client2.disconnect();
+    });
+
+    it('broadcasts connector changes to the board', async () => {
+      const source = stateManager.createNote(boardId, 0, 0)!;
+      const target = stateManager.createNote(boardId, 300, 0)!;
+
+      const created = new Promise<WSMessage>((resolve) => client2.once('connector:created', resolve));
+      send(client1, 'connector:create', { boardId, sourceNoteId: source.id, targetNoteId: target.id, label: 'leads to' });
+      const connector = (await created).payload;
+      expect(connector).toMatchObject({ sourceNoteId: source.id, targetNoteId: target.id, label: 'leads to' });
+
+      const updated = new Promise<WSMessage>((resolve) => client2.once('connector:updated', resolve));
+      send(client1, 'connector:update', { connectorId: connector.id, updates: { arrowheads: 'both' } });
+      expect((await updated).payload.arrowheads).toBe('both');
+
+      const deleted = new Promise<WSMessage>((resolve) => client2.once('connector:deleted', resolve));
+      send(client1, 'connector:delete', { connectorId: connector.id });
+      expect((await deleted).payload).toEqual({ connectorId: connector.id, boardId });
+    });
+
+    it('rejects a connector from a note to itself', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+
+      const error = new Promise<any>((resolve) => client1.once('error', resolve));
+      send(client1, 'connector:create', { boardId, sourceNoteId: note.id, targetNoteId: note.id });
+      expect((await error).message).toContain('itself');
+    });
+  });
+
+  describe('Bulk note operations', () => {
+    let client1: ClientSocket;
+    let client2: ClientSocket;
+    let boardId: string;
+
+    const send = (client: ClientSocket, type: string, payload: any) => {
+      client.emit(type, { type, payload, timestamp: Date.now(), userId: 'test' });
+    };
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Bulk Board').id;
+      client1 = ioClient(serverUrl);
+      client2 = ioClient(serverUrl);
+
+      await Promise.all([client1, client2].map(client =>
+        new Promise((resolve) => {
+          client.once('presence:state', resolve);
+          client.on('connect', () => client.emit('join:board', boardId));
+        })
+      ));
+    });
+
+    afterEach(() => {
+      if (client1) client1.disconnect();
+      if (client2) client2.disconnect();
+    });
+
+    it('broadcasts a bulk change as one event', async () => {
+      const noteIds = [0, 1].map(i => stateManager.createNote(boardId, i * 300, 100)!.id);
+      const updates: WSMessage[] = [];
+      client2.on('note:updated', (message: WSMessage) => updates.push(message));
+
+      const applied = new Promise<WSMessage>((resolve) => client2.once('note:bulk:applied', resolve));
+      send(client1, 'note:bulk', { boardId, noteIds, operation: { type: 'update', updates: { backgroundColor: '#32D74B' } } });
+      const { payload } = await applied;
+
+      expect(payload.notes.map((note: any) => note.id)).toEqual(noteIds);
+      expect(payload.notes.every((note: any) => note.backgroundColor === '#32D74B')).toBe(true);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('rejects the whole operation when a note is missing', async () => {
+      const noteId = stateManager.createNote(boardId, 100, 100)!.id;
+
+      const error = new Promise<any>((resolve) => client1.once('error', resolve));
+      send(client1, 'note:bulk', { boardId, noteIds: [noteId, 'missing'], operation: { type: 'delete' } });
+      expect((await error).message).toContain('missing');
+      expect(stateManager.getNote(noteId)).toBeDefined();
+    });
+  });
+
+  describe('Batches', () => {
+    let client1: ClientSocket;
+    let client2: ClientSocket;
+    let boardId: string;
+
+    const send = (client: ClientSocket, type: string, payload: any) => {
+      client.emit(type, { type, payload, timestamp: Date.now(), userId: 'test' });
+    };
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Batch Board').id;
+      client1 = ioClient(serverUrl);
+      client2 = ioClient(serverUrl);
+
+      await Promise.all([client1, client2].map(client =>
+        new Promise((resolve) => {
+          client.once('presence:state', resolve);
+          client.on('connect', () => client.emit('join:board', boardId));
+        })
+      ));
+    });
+
+    afterEach(() => {
+      if (client1) client1.disconnect();
+      if (client2) client2.disconnect();
+    });
+
+    it('broadcasts a batch as one event', async () => {
+      const note = stateManager.createNote(boardId, 100, 100)!;
+      const single: WSMessage[] = [];
+      client2.on('note:updated', (message: WSMessage) => single.push(message));
+      client2.on('note:created', (message: WSMessage) => single.push(message));
+
+      const applied = new Promise<WSMessage>((resolve) => client2.once('batch:applied', resolve));
+      send(client1, 'batch', {
+        boardId,
+        operations: [
+          { type: 'note:create', payload: { boardId, x: 500, y: 100 } },
+          { type: 'note:update', payload: { noteId: note.id, updates: { content: 'Both or neither' } } },
+        ],
+      });
+      const { payload } = await applied;
+
+      expect(payload.notes).toHaveLength(2);
+      expect(payload.notes.find((n: any) => n.id === note.id).content).toBe('Both or neither');
+      expect(single).toHaveLength(0);
+    });
+
+    it('applies nothing when an operation fails', async () => {
+      const note = stateManager.createNote(boardId, 100, 100)!;
+
+      const error = new Promise<any>((resolve) => client1.once('error', resolve));
+      send(client1, 'batch', {
+        boardId,
+        operations: [
+          { type: 'note:delete', payload: { noteId: note.id } },
+          { type: 'frame:delete', payload: { frameId: 'missing' } },
+        ],
+      });
+      expect((await error).message).toContain('Batch operation 2 (frame:delete) failed');
+      expect(stateManager.getNote(note.id)).toBeDefined();
+    });
+  });
+
+  describe('Sequence numbers', () => {
+    let client: ClientSocket;
+    let boardId: string;
+
+    const send = (type: string, payload: any) => {
+      client.emit(type, { type, payload, timestamp: Date.now(), userId: 'test' });
+    };
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Sequenced Board').id;
+      client = ioClient(serverUrl);
+
+      await new Promise((resolve) => {
+        client.once('presence:state', resolve);
+        client.on('connect', () => client.emit('join:board', boardId));
+      });
+    });
+
+    afterEach(() => {
+      if (client) client.disconnect();
+    });
+
+    it('stamps broadcasts with ranges that follow on from each other', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      const moved: WSMessage[] = [];
+      const received = new Promise<void>((resolve) => {
+        client.on('note:moved', (message: WSMessage) => {
+          moved.push(message);
+          if (moved.length === 2) resolve();
+        });
+      });
+
+      send('note:move', { noteId: note.id, x: 10, y: 10 });
+      send('note:move', { noteId: note.id, x: 20, y: 20 });
+      await received;
+
+      const [first, second] = moved.map(message => message.sequence!);
+      expect(first.boardId).toBe(boardId);
+      expect(first.seq).toBeGreaterThan(first.prevSeq);
+      expect(second.prevSeq).toBe(first.seq);
+      expect(second.seq).toBe(first.seq + 1);
+    });
+
+    it('stamps changes to the board itself too', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      const moved = new Promise<WSMessage>((resolve) => client.once('note:moved', resolve));
+      const renamed = new Promise<WSMessage>((resolve) => client.once('board:renamed', resolve));
+
+      send('note:move', { noteId: note.id, x: 10, y: 10 });
+      const { sequence: before } = await moved;
+      send('board:rename', { boardId, name: 'Renamed Board' });
+      const { sequence: after } = await renamed;
+
+      expect(after).toEqual({ boardId, prevSeq: before!.seq, seq: before!.seq + 1 });
+    });
+
+    it('broadcasts notes restored from the trash through the API', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      stateManager.deleteNote(note.id);
+      const restored = new Promise<WSMessage>((resolve) => client.once('note:restored', resolve));
+
+      const response = await fetch(`${serverUrl}/api/trash/notes/${note.id}/restore`, { method: 'POST' });
+      expect(response.status).toBe(200);
+
+      const message = await restored;
+      expect(message.payload.id).toBe(note.id);
+      expect(message.sequence?.boardId).toBe(boardId);
+    });
+
+    it('broadcasts boards restored from the trash through the API', async () => {
+      stateManager.deleteBoard(boardId);
+      const restored = new Promise<WSMessage>((resolve) => client.once('board:restored', resolve));
+
+      const response = await fetch(`${serverUrl}/api/trash/boards/${boardId}/restore`, { method: 'POST' });
+      expect(response.status).toBe(200);
+
+      const message = await restored;
+      expect(message.payload.id).toBe(boardId);
+      expect(message.sequence?.boardId).toBe(boardId);
+    });
+  });
+
+  describe('Acknowledgements', () => {
+    let client: ClientSocket;
+    let boardId: string;
+
+    let opCounter = 0;
+
+    const sendWithAck = (type: string, payload: any, opId: string = `op-${++opCounter}`): Promise<MessageAck> => (
+      client.emitWithAck(type, { type, payload, timestamp: Date.now(), userId: 'test', opId })
+    );
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Acknowledged Board').id;
+      client = ioClient(serverUrl);
+
+      await new Promise((resolve) => {
+        client.once('presence:state', resolve);
+        client.on('connect', () => client.emit('join:board', boardId));
+      });
+    });
+
+    afterEach(() => {
+      if (client) client.disconnect();
+    });
+
+    it('acknowledges changes that were applied', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+
+      expect(await sendWithAck('note:move', { noteId: note.id, x: 10, y: 10 })).toEqual({ ok: true });
+      expect(stateManager.getNote(note.id)!.x).toBe(10);
+    });
+
+    it('rejects changes that failed, with the reason', async () => {
+      const ack = await sendWithAck('note:update', { noteId: 'missing-note', updates: { content: 'Hello' } });
+
+      expect(ack.ok).toBe(false);
+      expect(ack.ok === false && ack.error).toBeTruthy();
+    });
+
+    it('marks rejections the client is told about separately', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      stateManager.updateNote(note.id, { content: 'Theirs' });
+
+      const ack = await sendWithAck('note:update', {
+        noteId: note.id,
+        updates: { content: 'Mine' },
+        baseVersion: 1,
+      });
+
+      expect(ack).toMatchObject({ ok: false, code: 'conflict' });
+    });
+
+    it('answers an operation sent again without applying it twice', async () => {
+      const payload = { boardId, x: 0, y: 0 };
+
+      expect(await sendWithAck('note:create', payload, 'op-resent')).toEqual({ ok: true });
+      expect(await sendWithAck('note:create', payload, 'op-resent')).toEqual({ ok: true });
+      expect(stateManager.getNotes(boardId)).toHaveLength(1);
+    });
+
+    it('rejects updates that move a note to another board', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      const other = stateManager.createBoard('Other Board');
+
+      const ack = await sendWithAck('note:update', { noteId: note.id, updates: { boardId: other.id } });
+
+      expect(ack.ok).toBe(false);
+      expect(stateManager.getNote(note.id)!.boardId).toBe(boardId);
+      expect(stateManager.getNotes(other.id)).toHaveLength(0);
+    });
+  });
+
+  describe('Rate limits', () => {
+    let client: ClientSocket;
+    let boardId: string;
+
+    const message = (type: string, payload: any) => ({ type, payload, timestamp: Date.now(), userId: 'test' });
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Flooded Board').id;
+      client = ioClient(serverUrl);
+
+      await new Promise((resolve) => {
+        client.once('presence:state', resolve);
+        client.on('connect', () => client.emit('join:board', boardId));
+      });
+    });
+
+    afterEach(() => {
+      if (client) client.disconnect();
+    });
+
+    it('refuses messages over the limit for their type', async () => {
+      const acks: MessageAck[] = await Promise.all(Array.from({ length: 25 }, (_, i) => (
+        client.emitWithAck('note:create', message('note:create', { boardId, x: i, y: i }))
+      )));
+
+      const refused = acks.filter(ack => !ack.ok);
+      expect(refused.length).toBeGreaterThan(0);
+      expect(refused[0]).toMatchObject({ code: 'rate_limited' });
+      expect(stateManager.getNotes(boardId)).toHaveLength(25 - refused.length);
+    });
+
+    it('holds back excess moves and sends on the latest one', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      let broadcasts = 0;
+      const settled = new Promise<void>((resolve) => {
+        client.on('note:moved', (moved: WSMessage) => {
+          broadcasts++;
+          if (moved.payload.x === 99) resolve();
+        });
+      });
+
+      for (let i = 0; i < 100; i++) {
+        client.emit('note:move', message('note:move', { noteId: note.id, x: i, y: i }));
+      }
+      await settled;
+
+      expect(stateManager.getNote(note.id)).toMatchObject({ x: 99, y: 99 });
+      expect(broadcasts).toBeLessThan(100);
+    });
+
+    it('resets the client to the server copy when an edit is refused, so it can carry on', async () => {
+      const note = stateManager.createNote(boardId, 0, 0)!;
+      stateManager.applyNoteEdit(note.id, 0, ['Saved']);
+      const rejected = new Promise<any>((resolve) => {
+        client.once('note:edit:rejected', (message: WSMessage) => resolve(message.payload));
+      });
+
+      // Use up the connection's budget, then edit
+      for (let i = 0; i < 130; i++) {
+        client.emit('presence:heartbeat', message('presence:heartbeat', { boardId }));
+      }
+      client.emit('note:edit', message('note:edit', { noteId: note.id, revision: 1, operation: [5, ' edit'] }));
+
+      const reset = await rejected;
+      expect(reset).toMatchObject({ noteId: note.id, revision: 1, content: 'Saved' });
+
+      // Carry on from the server copy once the budget refills
+      await new Promise(resolve => setTimeout(resolve, 200));
+      const acked = new Promise<any>((resolve) => {
+        client.once('note:edit:ack', (message: WSMessage) => resolve(message.payload));
+      });
+      client.emit('note:edit', message('note:edit', { noteId: note.id, revision: reset.revision, operation: [5, ' again'] }));
+
+      expect(await acked).toMatchObject({ noteId: note.id, revision: 2 });
+      expect(stateManager.getNote(note.id)!.content).toBe('Saved again');
+    });
+
+    it('refuses excess moves of notes that do not exist rather than holding them', async () => {
+      const acks: MessageAck[] = await Promise.all(Array.from({ length: 70 }, (_, i) => (
+        client.emitWithAck('note:move', message('note:move', { noteId: `missing-${i}`, x: i, y: i }))
+      )));
+
+      expect(acks.filter(ack => !ack.ok && ack.code === 'rate_limited').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Frames', () => {
+    let client1: ClientSocket;
+    let client2: ClientSocket;
+    let boardId: string;
+
+    const send = (client: ClientSocket, type: string, payload: any) => {
+      client.emit(type, { type, payload, timestamp: Date.now(), userId: 'test' });
+    };
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Frame Board').id;
+      client1 = ioClient(serverUrl);
+      client2 = ioClient(serverUrl);
+
+      await Promise.all([client1, client2].map(client =>
+        new Promise((resolve) => {
+          client.once('presence:state', resolve);
+          client.on('connect', () => client.emit('join:board', boardId));
+        })
+      ));
+    });
+
+    afterEach(() => {
+      if (client1) client1.disconnect();
+      if (client2) client2.disconnect();
+    });
+
+    it('broadcasts frame changes to the board', async () => {
+      const created = new Promise<WSMessage>((resolve) => client2.once('frame:created', resolve));
+      send(client1, 'frame:create', { boardId, name: 'Went well', x: 0, y: 0, width: 800, height: 600 });
+      const frame = (await created).payload;
+      expect(frame).toMatchObject({ name: 'Went well', collapsed: false });
+
+      const updated = new Promise<WSMessage>((resolve) => client2.once('frame:updated', resolve));
+      send(client1, 'frame:update', { frameId: frame.id, updates: { collapsed: true } });
+      expect((await updated).payload.collapsed).toBe(true);
+
+      const deleted = new Promise<WSMessage>((resolve) => client2.once('frame:deleted', resolve));
+      send(client1, 'frame:delete', { frameId: frame.id });
+      expect((await deleted).payload).toEqual({ frameId: frame.id, boardId });
+    });
+
+    it('moves contained notes with the frame', async () => {
+      const frame = stateManager.createFrame({ boardId, name: 'To improve', x: 0, y: 0, width: 800, height: 600 })!;
+      const note = stateManager.createNote(boardId, 100, 100)!;
+
+      const moved = new Promise<WSMessage>((resolve) => client2.once('frame:moved', resolve));
+      send(client1, 'frame:move', { frameId: frame.id, x: 200, y: 0 });
+      const { payload } = await moved;
+
+      expect(payload.frame).toMatchObject({ x: 200, y: 0 });
+      expect(payload.notes).toEqual([{ noteId: note.id, x: 300, y: 100 }]);
+    });
+  });
+
+  describe('Editing leases', () => {
+    let client1: ClientSocket;
+    let client2: ClientSocket;
+    let boardId: string;
+    let noteId: string;
+
+    const send = (client: ClientSocket, type: string, payload: any) => {
+      client.emit(type, { type, payload, timestamp: Date.now(), userId: 'test' });
+    };
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Lease Board').id;
+      noteId = stateManager.createNote(boardId, 100, 100)!.id;
+      client1 = ioClient(serverUrl);
+      client2 = ioClient(serverUrl);
+
+      await Promise.all([client1, client2].map(client =>
+        new Promise((resolve) => {
+          client.once('presence:state', resolve);
+          client.on('connect', () => client.emit('join:board', boardId));
+        })
+      ));
+    });
+
+    afterEach(() => {
+      if (client1) client1.disconnect();
+      if (client2) client2.disconnect();
+    });
+
+    it('refuses a second editor until they take over, then tells the first', async () => {
+      const started = new Promise<WSMessage>((resolve) => client2.once('note:editing:started', resolve));
+      send(client1, 'note:editing:start', { noteId });
+      await started;
+
+      const denied = new Promise<WSMessage>((resolve) => client2.once('note:editing:denied', resolve));
+      send(client2, 'note:editing:start', { noteId });
+      expect((await denied).payload.noteId).toBe(noteId);
+
+      const revoked = new Promise<WSMessage>((resolve) => client1.once('note:editing:revoked', resolve));
+      send(client2, 'note:editing:start', { noteId, takeover: true });
+      expect((await revoked).payload).toMatchObject({ noteId, reason: 'takeover' });
+
+      // The old holder's heartbeat no longer keeps the note
+      const expired = new Promise<WSMessage>((resolve) => client1.once('note:editing:revoked', resolve));
+      send(client1, 'note:editing:heartbeat', { noteId });
+      expect((await expired).payload).toMatchObject({ noteId, reason: 'expired' });
+    });
+
+    it('unlocks the note when the editor disconnects', async () => {
+      const started = new Promise<WSMessage>((resolve) => client2.once('note:editing:started', resolve));
+      send(client1, 'note:editing:start', { noteId });
+      await started;
+      expect(stateManager.getNote(noteId)?.editingBy).toBeDefined();
+
+      const ended = new Promise<WSMessage>((resolve) => client2.once('note:editing:ended', resolve));
+      client1.disconnect();
+      expect((await ended).payload).toEqual({ noteId });
+      expect(stateManager.getNote(noteId)?.editingBy).toBeUndefined();
+    });
+  });
+
+  describe('Presence', () => {
+    let client1: ClientSocket;
+    let client2: ClientSocket;
+    let boardId: string;
+
+    beforeEach(async () => {
+      boardId = stateManager.createBoard('Presence Board').id;
+      client1 = ioClient(serverUrl);
+      client2 = ioClient(serverUrl);
+
+      await Promise.all([
+        new Promise<void>((resolve) => client1.on('connect', () => resolve())),
+        new Promise<void>((resolve) => client2.on('connect', () => resolve())),
+      ]);
+    });
+
+    afterEach(() => {
+      if (client1) client1.disconnect();
+      if (client2) client2.disconnect();
+    });
+
+    it('tells joiners who is already on the board and announces them to others', async () => {
+      const firstState = new Promise<WSMessage>((resolve) => client1.once('presence:state', resolve));
+      client1.emit('join:board', boardId);
+      await firstState;
+
+      const joined = new Promise<WSMessage>((resolve) => client1.once('presence:joined', resolve));
+      const state = new Promise<WSMessage>((resolve) => client2.once('presence:state', resolve));
+      client2.emit('join:board', boardId);
+
+      const users = ((await state).payload.users as PresenceInfo[]).map(user => user.sessionId);
+      expect(users.sort()).toEqual([client1.id, client2.id].sort());
+      expect((await joined).payload.user.sessionId).toBe(client2.id);
+    });
+
+    it('relays cursors and viewports and announces departures', async () => {
+      const joined = Promise.all([client1, client2].map(client =>
+        new Promise((resolve) => client.once('presence:state', resolve))
+      ));
+      client1.emit('join:board', boardId);
+      client2.emit('join:board', boardId);
+      await joined;
+
+      const cursor = new Promise<WSMessage>((resolve) => client2.once('presence:cursor', resolve));
+      client1.emit('presence:cursor', {
+        type: 'presence:cursor',
+        payload: { boardId, x: 120, y: 80 },
+        timestamp: Date.now(),
+        userId: 'client1',
+      });
+      expect((await cursor).payload).toEqual({ boardId, x: 120, y: 80, sessionId: client1.id });
+
+      const viewport = new Promise<WSMessage>((resolve) => client2.once('presence:viewport', resolve));
+      client1.emit('presence:viewport', {
+        type: 'presence:viewport',
+        payload: { boardId, x: 500, y: 400, scale: 0.5 },
+        timestamp: Date.now(),
+        userId: 'client1',
+      });
+      expect((await viewport).payload).toEqual({ boardId, x: 500, y: 400, scale: 0.5, sessionId: client1.id });
+
+      const left = new Promise<WSMessage>((resolve) => client2.once('presence:left', resolve));
+      const departedId = client1.id;
+      client1.disconnect();
+      expect((await left).payload).toEqual({ boardId, sessionId: departedId });
+    });
+  });
 });
@@ -6,6 +6,7 @@ import express, { Express } from 'express';
 import { PersistenceService } from '../services/persistence';
 import { StateManager } from '../services/stateManager';
 import { setupWebSocketHandlers } from '../websocket/handlers';
+import { SocketRateLimiter } from '../websocket/rateLimit';
 import { setupAPIRoutes } from '../api/routes';
 import { WSMessage } from '../../../shared/src/types';
 import { promises as fs } from 'fs';
@@ -41,7 +42,9 @@ describe('Performance Tests', () => {
 
     // Setup routes and handlers
     setupAPIRoutes(app, stateManager);
-    setupWebSocketHandlers(io, stateManager);
+    // Measure the server itself rather than its flood protection
+    const unlimited = { perSecond: 100000, burst: 100000 };
+    setupWebSocketHandlers(io, stateManager, undefined, undefined, new SocketRateLimiter({ socket: unlimited, messages: {} }));
 
     // Start server
     await new Promise<void>((resolve) => {
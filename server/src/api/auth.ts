@@ -0,0 +1,144 @@
+import { Express, NextFunction, Request, Response } from 'express';
+import { Server } from 'socket.io';
+import { UserStore } from '../services/userStore.js';
+import { SessionStore } from '../services/sessionStore.js';
+import { Credentials } from '../../../shared/src/types.js';
+import { validateCredentials, ValidationError } from '../../../shared/src/validation.js';
+import { sessionRoom } from '../websocket/broadcast.js';
+
+export const SESSION_COOKIE = 'session';
+
+/**
+ * Read the session token from a Cookie header
+ */
+export function getSessionToken(cookieHeader: string | undefined): string | undefined {
+  for (const part of (cookieHeader || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === SESSION_COOKIE) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reject API requests without a valid session. The user's ID is left in res.locals.userId.
+ */
+export function requireSession(sessions: SessionStore) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = getSessionToken(req.headers.cookie);
+    const userId = token ? sessions.getUserId(token) : undefined;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Log in to continue',
+      });
+    }
+
+    res.locals.userId = userId;
+    next();
+  };
+}
+
+export function setupAuthRoutes(app: Express, users: UserStore, sessions: SessionStore, io?: Server): void {
+  const startSession = async (req: Request, res: Response, userId: string) => {
+    const token = await sessions.createSession(userId);
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      maxAge: sessions.getTtlMs(),
+      path: '/',
+    });
+  };
+
+  // POST /api/auth/register - Create an account and log in
+  app.post('/api/auth/register', async (req: Request, res: Response) => {
+    try {
+      validateCredentials(req.body);
+      const { username, password } = req.body as Credentials;
+
+      const user = await users.createUser(username, password);
+      await startSession(req, res, user.id);
+      res.status(201).json(user);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+      }
+
+      console.error('Error registering user:', error);
+      res.status(500).json({
+        error: 'Failed to register',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // POST /api/auth/login - Log in with username and password
+  app.post('/api/auth/login', async (req: Request, res: Response) => {
+    try {
+      const { username, password } = (req.body || {}) as Partial<Credentials>;
+      if (typeof username !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: 'Username and password are required',
+        });
+      }
+
+      const user = await users.verifyCredentials(username, password);
+      if (!user) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid username or password',
+        });
+      }
+
+      await startSession(req, res, user.id);
+      res.json(user);
+    } catch (error) {
+      console.error('Error logging in:', error);
+      res.status(500).json({
+        error: 'Failed to log in',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // POST /api/auth/logout - End the current session
+  app.post('/api/auth/logout', async (req: Request, res: Response) => {
+    try {
+      const token = getSessionToken(req.headers.cookie);
+      if (token) {
+        await sessions.destroySession(token);
+        // Connections made with the session would otherwise stay logged in
+        io?.in(sessionRoom(token)).disconnectSockets(true);
+      }
+      res.clearCookie(SESSION_COOKIE, { path: '/' });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error logging out:', error);
+      res.status(500).json({
+        error: 'Failed to log out',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // GET /api/auth/me - The logged-in user
+  app.get('/api/auth/me', requireSession(sessions), (_req: Request, res: Response) => {
+    const user = users.getUser(res.locals.userId);
+    if (!user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Log in to continue',
+      });
+    }
+    res.json(user);
+  });
+
+  console.log('Auth routes initialized');
+}
@@ -0,0 +1,108 @@
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { BlobStore } from '../services/blobStore.js';
+import { ImageProcessor } from '../services/imageProcessor.js';
+import { ValidationError } from '../../../shared/src/validation.js';
+
+const MAX_BLOB_SIZE = '10mb';
+
+const parseRawBody = express.raw({ type: () => true, limit: MAX_BLOB_SIZE });
+
+/**
+ * Read the request body as a Buffer, answering oversized uploads with JSON like other errors
+ */
+function readBlobBody(req: Request, res: Response, next: NextFunction): void {
+  parseRawBody(req, res, (error?: unknown) => {
+    if (error) {
+      const status = (error as { status?: number }).status || 400;
+      res.status(status).json({
+        error: status === 413 ? 'Payload too large' : 'Invalid request',
+        message: status === 413 ? `File exceeds ${MAX_BLOB_SIZE} limit` : (error as Error).message,
+      });
+      return;
+    }
+    next();
+  });
+}
+
+export function setupBlobRoutes(app: Express, blobStore: BlobStore, imageProcessor: ImageProcessor): void {
+  // POST /api/blobs - Upload an image; the body is the raw file.
+  // The stored image has its metadata stripped and comes with WebP thumbnails.
+  app.post(
+    '/api/blobs',
+    readBlobBody,
+    async (req: Request, res: Response) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({
+            error: 'Validation error',
+            message: 'Request body must contain the file',
+          });
+        }
+
+        const image = await imageProcessor.process(req.body);
+        const blob = await blobStore.put(image.data);
+        const thumbnails = [];
+        for (const thumbnail of image.thumbnails) {
+          const stored = await blobStore.put(thumbnail.data);
+          thumbnails.push({ width: thumbnail.width, url: `/api/blobs/${stored.hash}` });
+        }
+
+        res.status(201).json({
+          ...blob,
+          url: `/api/blobs/${blob.hash}`,
+          width: image.width,
+          height: image.height,
+          thumbnails,
+        });
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return res.status(400).json({
+            error: 'Validation error',
+            message: error.message,
+          });
+        }
+
+        console.error('Error storing blob:', error);
+        res.status(500).json({
+          error: 'Failed to store blob',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // GET /api/blobs/:hash - Serve a stored blob. Content never changes, so it can be cached forever.
+  app.get('/api/blobs/:hash', async (req: Request, res: Response) => {
+    try {
+      const { hash } = req.params;
+      const etag = `"${hash}"`;
+
+      if (req.headers['if-none-match'] === etag && (await blobStore.has(hash))) {
+        return res.status(304).end();
+      }
+
+      const blob = await blobStore.get(hash);
+      if (!blob) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Blob not found',
+        });
+      }
+
+      res.set({
+        'Content-Type': blob.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ETag: etag,
+      });
+      res.send(blob.data);
+    } catch (error) {
+      console.error('Error fetching blob:', error);
+      res.status(500).json({
+        error: 'Failed to fetch blob',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  console.log('Blob routes initialized');
+}
@@ -0,0 +1,147 @@
+import { Express, Request, Response } from 'express';
+import { Server } from 'socket.io';
+import { StateManager } from '../services/stateManager.js';
+import { InviteStore } from '../services/inviteStore.js';
+import { CreateInvitePayload } from '../../../shared/src/types.js';
+import { validateCreateInvitePayload, ValidationError } from '../../../shared/src/validation.js';
+import { AccessDeniedError, hasBoardRole } from '../../../shared/src/access.js';
+import { toBoardMembers } from '../websocket/broadcast.js';
+
+const DEFAULT_INVITE_HOURS = 7 * 24;
+
+export function setupInviteRoutes(app: Express, stateManager: StateManager, invites: InviteStore, io?: Server): void {
+  // POST /api/boards/:id/invites - Create an invite link for a board
+  app.post('/api/boards/:id/invites', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      validateCreateInvitePayload(req.body);
+      stateManager.assertBoardRole(id, res.locals.userId, 'owner');
+
+      const board = stateManager.getBoard(id);
+      if (!board) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Board not found',
+        });
+      }
+      if (!board.acl) {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: 'Board is open to everyone and has no access list',
+        });
+      }
+
+      const { role, expiresInHours = DEFAULT_INVITE_HOURS } = req.body as CreateInvitePayload;
+      const created = await invites.createInvite(id, role, res.locals.userId, expiresInHours * 60 * 60 * 1000);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error('Error creating invite:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to create invite',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // GET /api/invites - List outstanding invites for boards the user owns
+  app.get('/api/invites', (_req: Request, res: Response) => {
+    try {
+      const ownedBoardIds = new Set(
+        stateManager
+          .getAllBoards()
+          .filter(board => board.acl && hasBoardRole(board, res.locals.userId, 'owner'))
+          .map(board => board.id)
+      );
+      res.json(invites.listInvites(ownedBoardIds));
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+      res.status(500).json({
+        error: 'Failed to fetch invites',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // DELETE /api/invites/:inviteId - Revoke an invite
+  app.delete('/api/invites/:inviteId', async (req: Request, res: Response) => {
+    try {
+      const { inviteId } = req.params;
+      const invite = invites.getInvite(inviteId);
+
+      if (!invite) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Invite not found',
+        });
+      }
+
+      stateManager.assertBoardRole(invite.boardId, res.locals.userId, 'owner');
+      await invites.revokeInvite(inviteId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to revoke invite',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // POST /api/invites/:token/accept - Join a board through an invite link
+  app.post('/api/invites/:token/accept', (req: Request, res: Response) => {
+    try {
+      const invite = invites.verifyToken(req.params.token);
+      const board = invite ? stateManager.grantBoardRole(invite.boardId, res.locals.userId, invite.role) : undefined;
+
+      if (!board) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'This invite link is invalid, expired or revoked',
+        });
+      }
+
+      // Members (including the new one) pick up the changed access list
+      if (io) {
+        toBoardMembers(io, board).emit('board:acl:updated', {
+          type: 'board:acl:updated',
+          sequence: stateManager.nextBroadcastSequence(board.id),
+          payload: board,
+          timestamp: Date.now(),
+          userId: res.locals.userId,
+        });
+      }
+      res.json(board);
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      res.status(500).json({
+        error: 'Failed to accept invite',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  console.log('Invite routes initialized');
+}
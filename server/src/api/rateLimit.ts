@@ -0,0 +1,29 @@
+import { NextFunction, Request, Response } from 'express';
+import { RateLimit, RateLimiter } from '../services/rateLimiter.js';
+
+// Opening a board loads each of its images at once
+export const DEFAULT_API_RATE_LIMIT: RateLimit = { perSecond: 20, burst: 200 };
+
+/**
+ * Refuse requests from an IP address once it goes over the limit, with a 429
+ * saying when to try again
+ */
+export function rateLimitByIp(limit: RateLimit = DEFAULT_API_RATE_LIMIT) {
+  const limiter = new RateLimiter(limit);
+  const sweep = setInterval(() => limiter.prune(), 60000);
+  sweep.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    if (limiter.tryTake(ip)) {
+      return next();
+    }
+
+    res.setHeader('Retry-After', Math.ceil(limiter.getRetryAfterMs(ip) / 1000));
+    return res.status(429).json({
+      error: 'Too Many Requests',
+      message: 'Too many requests, try again shortly',
+      code: 'rate_limited',
+    });
+  };
+}
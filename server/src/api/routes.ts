@@ -1,12 +1,18 @@
 import { Express, Request, Response } from 'express';
+import { Server } from 'socket.io';
 import { StateManager } from '../services/stateManager.js';
-import { ValidationError } from '../../../shared/src/validation.js';
+import { UpdateBoardAclPayload } from '../../../shared/src/types.js';
+import { validateUpdateBoardAclPayload, ValidationError } from '../../../shared/src/validation.js';
+import { AccessDeniedError, getBoardMembers, hasBoardRole } from '../../../shared/src/access.js';
+import { toBoardMembers, userRoom } from '../websocket/broadcast.js';
 
-export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
-  // GET /api/boards - List all boards
+export function setupAPIRoutes(app: Express, stateManager: StateManager, io?: Server): void {
+  // GET /api/boards - List the boards the user can see
   app.get('/api/boards', (_req: Request, res: Response) => {
     try {
-      const boards = stateManager.getAllBoards();
+      const boards = stateManager
+        .getAllBoards()
+        .filter(board => hasBoardRole(board, res.locals.userId, 'viewer'));
       res.json(boards);
     } catch (error) {
       console.error('Error fetching boards:', error);
@@ -29,7 +35,7 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
         });
       }
 
-      const board = stateManager.createBoard(name);
+      const board = stateManager.createBoard(name, res.locals.userId);
       res.status(201).json(board);
     } catch (error) {
       console.error('Error creating board:', error);
@@ -48,7 +54,7 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
     }
   });
 
-  // DELETE /api/boards/:id - Delete a board
+  // DELETE /api/boards/:id - Move a board to the trash
   app.delete('/api/boards/:id', (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -60,6 +66,7 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
         });
       }
 
+      stateManager.assertBoardRole(id, res.locals.userId, 'owner');
       const success = stateManager.deleteBoard(id);
 
       if (!success) {
@@ -72,6 +79,13 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting board:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
       res.status(500).json({
         error: 'Failed to delete board',
         message: error instanceof Error ? error.message : 'Unknown error',
@@ -99,6 +113,7 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
         });
       }
 
+      stateManager.assertBoardRole(id, res.locals.userId, 'editor');
       const board = stateManager.renameBoard(id, name);
 
       if (!board) {
@@ -111,7 +126,14 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
       res.json(board);
     } catch (error) {
       console.error('Error renaming board:', error);
-      
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+
       if (error instanceof ValidationError) {
         return res.status(400).json({
           error: 'Validation error',
@@ -147,10 +169,18 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
         });
       }
 
+      stateManager.assertBoardRole(id, res.locals.userId, 'viewer');
       const notes = stateManager.getNotes(id);
       res.json(notes);
     } catch (error) {
       console.error('Error fetching notes:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
       res.status(500).json({
         error: 'Failed to fetch notes',
         message: error instanceof Error ? error.message : 'Unknown error',
@@ -158,5 +188,248 @@ export function setupAPIRoutes(app: Express, stateManager: StateManager): void {
     }
   });
 
+  // PUT /api/boards/:id/acl - Replace a board's editors and viewers
+  app.put('/api/boards/:id/acl', (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      validateUpdateBoardAclPayload(req.body);
+      stateManager.assertBoardRole(id, res.locals.userId, 'owner');
+
+      const before = stateManager.getBoard(id);
+      if (!before) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Board not found',
+        });
+      }
+      if (!before.acl) {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: 'Board is open to everyone and has no access list',
+        });
+      }
+
+      const previousMembers = getBoardMembers(before);
+      const board = stateManager.setBoardAcl(id, req.body as UpdateBoardAclPayload)!;
+      const members = getBoardMembers(board);
+
+      if (io) {
+        // Users who lost access leave the board room and drop it from their list
+        const removed = previousMembers.filter(userId => !members.includes(userId)).map(userRoom);
+        if (removed.length > 0) {
+          io.in(removed).socketsLeave(`board:${id}`);
+          io.to(removed).emit('board:deleted', {
+            type: 'board:deleted',
+            payload: { boardId: id },
+            timestamp: Date.now(),
+            userId: res.locals.userId,
+          });
+        }
+        toBoardMembers(io, board).emit('board:acl:updated', {
+          type: 'board:acl:updated',
+          sequence: stateManager.nextBroadcastSequence(board.id),
+          payload: board,
+          timestamp: Date.now(),
+          userId: res.locals.userId,
+        });
+      }
+
+      res.json(board);
+    } catch (error) {
+      console.error('Error updating board access:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to update board access',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // GET /api/boards/:id/history - List snapshots that contain a board
+  app.get('/api/boards/:id/history', (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      stateManager.assertBoardRole(id, res.locals.userId, 'viewer');
+      res.json(stateManager.getBoardHistory(id));
+    } catch (error) {
+      console.error('Error fetching board history:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+      res.status(500).json({
+        error: 'Failed to fetch board history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // POST /api/boards/:id/history/:snapshotId/restore - Restore a board from a snapshot
+  app.post('/api/boards/:id/history/:snapshotId/restore', async (req: Request, res: Response) => {
+    try {
+      const { id, snapshotId } = req.params;
+      stateManager.assertBoardRole(id, res.locals.userId, 'owner');
+      const board = await stateManager.restoreBoardFromSnapshot(id, snapshotId);
+
+      if (!board) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Board not found in snapshot',
+        });
+      }
+
+      // Replace the board, with its notes, for every member
+      if (io) {
+        toBoardMembers(io, board).emit('board:restored', {
+          type: 'board:restored',
+          sequence: stateManager.nextBroadcastSequence(board.id),
+          payload: board,
+          timestamp: Date.now(),
+          userId: 'server',
+        });
+      }
+      res.json(board);
+    } catch (error) {
+      console.error('Error restoring board from snapshot:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+      res.status(500).json({
+        error: 'Failed to restore board from snapshot',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // GET /api/trash - List trashed boards and notes the user can see
+  app.get('/api/trash', (_req: Request, res: Response) => {
+    try {
+      const userId = res.locals.userId;
+      const trash = stateManager.getTrash();
+      res.json({
+        boards: trash.boards.filter(board => hasBoardRole(board, userId, 'viewer')),
+        notes: trash.notes.filter(note => {
+          const board = stateManager.getBoard(note.boardId);
+          return board !== undefined && hasBoardRole(board, userId, 'viewer');
+        }),
+      });
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      res.status(500).json({
+        error: 'Failed to fetch trash',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // POST /api/trash/boards/:id/restore - Restore a board from the trash
+  app.post('/api/trash/boards/:id/restore', (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      stateManager.assertBoardRole(id, res.locals.userId, 'owner');
+      const board = stateManager.restoreBoard(id);
+
+      if (!board) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Board not found in trash',
+        });
+      }
+
+      if (io) {
+        toBoardMembers(io, board).emit('board:restored', {
+          type: 'board:restored',
+          sequence: stateManager.nextBroadcastSequence(board.id),
+          payload: board,
+          timestamp: Date.now(),
+          userId: res.locals.userId,
+        });
+      }
+      res.json(board);
+    } catch (error) {
+      console.error('Error restoring board:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+      res.status(500).json({
+        error: 'Failed to restore board',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // POST /api/trash/notes/:id/restore - Restore a note from the trash
+  app.post('/api/trash/notes/:id/restore', (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      stateManager.assertNoteRole(id, res.locals.userId, 'editor');
+      const note = stateManager.restoreNote(id);
+
+      if (!note) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Note not found in trash',
+        });
+      }
+
+      if (io) {
+        io.to(`board:${note.boardId}`).emit('note:restored', {
+          type: 'note:restored',
+          sequence: stateManager.nextBroadcastSequence(note.boardId),
+          payload: note,
+          timestamp: Date.now(),
+          userId: res.locals.userId,
+        });
+      }
+      res.json(note);
+    } catch (error) {
+      console.error('Error restoring note:', error);
+
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        });
+      }
+
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+      }
+
+      res.status(500).json({
+        error: 'Failed to restore note',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   console.log('API routes initialized');
 }
@@ -2,10 +2,26 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
+import path from 'path';
 import { PersistenceService } from './services/persistence.js';
+import { SQLiteStorageBackend } from './services/sqliteStorage.js';
+import { StorageBackend } from './services/storageBackend.js';
+import { Journal } from './services/journal.js';
+import { SnapshotStore } from './services/snapshotStore.js';
+import { BlobStore } from './services/blobStore.js';
+import { ImageProcessor } from './services/imageProcessor.js';
+import { UserStore } from './services/userStore.js';
+import { SessionStore } from './services/sessionStore.js';
+import { InviteStore } from './services/inviteStore.js';
 import { StateManager } from './services/stateManager.js';
 import { setupWebSocketHandlers } from './websocket/handlers.js';
 import { setupAPIRoutes } from './api/routes.js';
+import { setupBlobRoutes } from './api/blobs.js';
+import { setupInviteRoutes } from './api/invites.js';
+import { setupAuthRoutes, requireSession } from './api/auth.js';
+import { rateLimitByIp, DEFAULT_API_RATE_LIMIT } from './api/rateLimit.js';
+import { authenticateSocket } from './websocket/auth.js';
+import { SocketRateLimiter, DEFAULT_WS_RATE_LIMITS } from './websocket/rateLimit.js';
 import { logger } from './utils/logger.js';
 
 const app = express();
@@ -17,7 +33,7 @@ app.use(cors({
   credentials: true,
 }));
 
-app.use(express.json({ limit: '50mb' })); // Support large image uploads
+app.use(express.json({ limit: '1mb' })); // Images are uploaded separately to /api/blobs
 
 // Initialize Socket.io with CORS
 const io = new Server(httpServer, {
@@ -32,11 +48,33 @@ const io = new Server(httpServer, {
 await logger.initialize();
 
 // Initialize services
-const persistenceService = new PersistenceService();
-const stateManager = new StateManager(persistenceService);
+// STORAGE_BACKEND=sqlite stores notes individually; the default JSON file suits small boards
+const DATA_DIR = process.env.DATA_DIR || './data';
+const storage: StorageBackend = process.env.STORAGE_BACKEND === 'sqlite'
+  ? new SQLiteStorageBackend(DATA_DIR)
+  : new PersistenceService(DATA_DIR);
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+const stateManager = new StateManager(storage, {
+  trashRetentionMs: TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  journal: new Journal(path.join(DATA_DIR, 'journal.log')),
+  snapshots: new SnapshotStore(path.join(DATA_DIR, 'snapshots'), {
+    hourly: parseInt(process.env.SNAPSHOT_HOURLY_RETENTION || '24', 10),
+    daily: parseInt(process.env.SNAPSHOT_DAILY_RETENTION || '30', 10),
+  }),
+});
+
+const blobStore = new BlobStore(path.join(DATA_DIR, 'blobs'));
+const userStore = new UserStore(DATA_DIR);
+const sessionStore = new SessionStore(DATA_DIR);
+// Invite links are signed with INVITE_SECRET, or a secret generated into the data directory
+const inviteStore = new InviteStore(DATA_DIR, process.env.INVITE_SECRET);
 
 // Load data on startup
 try {
+  await blobStore.initialize();
+  await userStore.initialize();
+  await sessionStore.initialize();
+  await inviteStore.initialize();
   await stateManager.loadFromDisk();
   logger.info('Data loaded successfully', 'Startup');
 } catch (error) {
@@ -49,11 +87,32 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: Date.now() });
 });
 
-// Setup API routes
-setupAPIRoutes(app, stateManager);
-
-// Setup WebSocket handlers
-setupWebSocketHandlers(io, stateManager);
+// Rate limits per IP address on the API and per connection on the WebSocket,
+// as a sustained rate per second and the burst allowed on top of it
+const envNumber = (name: string, fallback: number) => parseFloat(process.env[name] || String(fallback));
+const apiRateLimit = {
+  perSecond: envNumber('API_RATE_LIMIT', DEFAULT_API_RATE_LIMIT.perSecond),
+  burst: envNumber('API_RATE_BURST', DEFAULT_API_RATE_LIMIT.burst),
+};
+const wsRateLimits = {
+  ...DEFAULT_WS_RATE_LIMITS,
+  socket: {
+    perSecond: envNumber('WS_RATE_LIMIT', DEFAULT_WS_RATE_LIMITS.socket.perSecond),
+    burst: envNumber('WS_RATE_BURST', DEFAULT_WS_RATE_LIMITS.socket.burst),
+  },
+};
+
+// Setup API routes; everything except login needs a session
+app.use('/api', rateLimitByIp(apiRateLimit));
+setupAuthRoutes(app, userStore, sessionStore, io);
+app.use('/api', requireSession(sessionStore));
+setupAPIRoutes(app, stateManager, io);
+setupBlobRoutes(app, blobStore, new ImageProcessor());
+setupInviteRoutes(app, stateManager, inviteStore, io);
+
+// Setup WebSocket handlers; connections need a session cookie
+io.use(authenticateSocket(sessionStore, userStore));
+setupWebSocketHandlers(io, stateManager, undefined, undefined, new SocketRateLimiter(wsRateLimits));
 
 // Configure port and host
 const PORT = parseInt(process.env.PORT || '3001', 10);
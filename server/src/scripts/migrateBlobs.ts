@@ -0,0 +1,73 @@
+import path from 'path';
+import { PersistenceService } from '../services/persistence.js';
+import { SQLiteStorageBackend } from '../services/sqliteStorage.js';
+import { StorageBackend } from '../services/storageBackend.js';
+import { BlobStore } from '../services/blobStore.js';
+import { Journal } from '../services/journal.js';
+
+const DATA_URL_PATTERN = /^data:[^;,]*;base64,(.*)$/s;
+
+/**
+ * Move images stored inline as data URLs into the blob store.
+ * Run with the server stopped, using the same DATA_DIR and STORAGE_BACKEND.
+ *
+ * Usage: npm run migrate:blobs --workspace=server -- [dataDir]
+ */
+async function migrate(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dataDir = args.find(arg => !arg.startsWith('--')) || process.env.DATA_DIR || './data';
+
+  // Unsaved journal entries would bring the inline images back on the next start
+  const journal = new Journal(path.join(dataDir, 'journal.log'));
+  if (journal.read().length > 0) {
+    console.error('The journal has unsaved changes; start and stop the server once before migrating');
+    process.exitCode = 1;
+    return;
+  }
+
+  const storage: StorageBackend = process.env.STORAGE_BACKEND === 'sqlite'
+    ? new SQLiteStorageBackend(dataDir)
+    : new PersistenceService(dataDir);
+  const blobStore = new BlobStore(path.join(dataDir, 'blobs'));
+
+  await storage.initialize();
+  await blobStore.initialize();
+
+  try {
+    const boards = await storage.loadBoards();
+    let extracted = 0;
+    let skipped = 0;
+
+    for (const board of boards) {
+      for (const note of board.notes) {
+        for (const image of note.images) {
+          const match = DATA_URL_PATTERN.exec(image.url);
+          if (!match) {
+            continue;
+          }
+
+          try {
+            const blob = await blobStore.put(Buffer.from(match[1], 'base64'));
+            image.url = `/api/blobs/${blob.hash}`;
+            extracted++;
+          } catch (error) {
+            console.warn(`Leaving image ${image.id} in note ${note.id} inline:`, (error as Error).message);
+            skipped++;
+          }
+        }
+      }
+    }
+
+    if (extracted > 0) {
+      await storage.saveBoards(boards);
+    }
+    console.log(`Moved ${extracted} images into the blob store (${skipped} left inline)`);
+  } finally {
+    await storage.close?.();
+  }
+}
+
+migrate().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import { PersistenceService } from '../services/persistence.js';
+import { SQLiteStorageBackend } from '../services/sqliteStorage.js';
+
+/**
+ * Import an existing boards.json into the SQLite backend.
+ *
+ * Usage: npm run migrate:sqlite --workspace=server -- [dataDir] [--force]
+ */
+async function migrate(): Promise<void> {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const dataDir = args.find(arg => !arg.startsWith('--')) || process.env.DATA_DIR || './data';
+
+  const source = new PersistenceService(dataDir);
+  const target = new SQLiteStorageBackend(dataDir);
+
+  await source.initialize();
+  await target.initialize();
+
+  try {
+    const existing = await target.loadBoards();
+    if (existing.length > 0 && !force) {
+      console.error(`SQLite database in ${dataDir} already has ${existing.length} boards; use --force to replace them`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const boards = await source.loadBoards();
+    await target.saveBoards(boards);
+
+    const notes = boards.reduce((count, board) => count + board.notes.length, 0);
+    console.log(`Migrated ${boards.length} boards and ${notes} notes from boards.json to SQLite`);
+  } finally {
+    await target.close();
+  }
+}
+
+migrate().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BlobStore, detectImageType } from './blobStore';
+import { promises as fs } from 'fs';
+import { ValidationError } from '../../../shared/src/validation';
+
+describe('BlobStore', () => {
+  const testDataDir = './test-data-blobs';
+  const gif = Buffer.from('GIF89a\x01\x00\x01\x00\x00\x00\x00;', 'binary');
+  let store: BlobStore;
+
+  beforeEach(async () => {
+    store = new BlobStore(testDataDir);
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('stores a blob under its SHA-256 hash', async () => {
+    const blob = await store.put(gif);
+    expect(blob.hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(blob.contentType).toBe('image/gif');
+    expect(blob.size).toBe(gif.length);
+
+    const stored = await store.get(blob.hash);
+    expect(stored?.data.equals(gif)).toBe(true);
+    expect(stored?.contentType).toBe('image/gif');
+  });
+
+  it('stores identical content once', async () => {
+    const first = await store.put(gif);
+    const second = await store.put(Buffer.from(gif));
+    expect(second.hash).toBe(first.hash);
+
+    const files = await fs.readdir(`${testDataDir}/${first.hash.slice(0, 2)}`);
+    expect(files).toEqual([first.hash]);
+  });
+
+  it('rejects data that is not a supported image', async () => {
+    await expect(store.put(Buffer.from('<svg></svg>'))).rejects.toThrow(ValidationError);
+  });
+
+  it('does not look up invalid hashes', async () => {
+    expect(await store.get('../../boards.json')).toBeUndefined();
+    expect(await store.has('../../boards.json')).toBe(false);
+  });
+
+  it('detects image types from their signatures', () => {
+    expect(detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectImageType(Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'binary'))).toBe('image/webp');
+    expect(detectImageType(Buffer.from('hello'))).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ValidationError } from '../../../shared/src/validation.js';
+
+export interface StoredBlob {
+  hash: string;
+  size: number;
+  contentType: string;
+}
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Recognise the image formats notes accept from their first bytes
+ */
+export function detectImageType(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('ascii'))) {
+    return 'image/gif';
+  }
+  if (data.length >= 12 && data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Content-addressed file store: each blob is saved once under its SHA-256 hash
+ */
+export class BlobStore {
+  private blobDir: string;
+
+  constructor(blobDir: string) {
+    this.blobDir = blobDir;
+  }
+
+  /**
+   * Create the blob directory
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.blobDir, { recursive: true });
+    console.log(`Blob store initialized at: ${this.blobDir}`);
+  }
+
+  /**
+   * Store an image, returning its hash. Storing the same bytes twice is a no-op.
+   */
+  async put(data: Buffer): Promise<StoredBlob> {
+    const contentType = detectImageType(data);
+    if (!contentType) {
+      throw new ValidationError('Blob must be a JPEG, PNG, GIF or WebP image');
+    }
+
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const filePath = this.getBlobFile(hash);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempFile = `${filePath}.${crypto.randomUUID()}.tmp`;
+      await fs.writeFile(tempFile, data);
+      await fs.rename(tempFile, filePath);
+    }
+
+    return { hash, size: data.length, contentType };
+  }
+
+  /**
+   * Read a blob, or undefined if no blob has that hash
+   */
+  async get(hash: string): Promise<{ data: Buffer; contentType: string } | undefined> {
+    if (!HASH_PATTERN.test(hash)) {
+      return undefined;
+    }
+
+    let data: Buffer;
+    try {
+      data = await fs.readFile(this.getBlobFile(hash));
+    } catch {
+      return undefined;
+    }
+    return { data, contentType: detectImageType(data) || 'application/octet-stream' };
+  }
+
+  /**
+   * Check whether a blob exists without reading it
+   */
+  async has(hash: string): Promise<boolean> {
+    if (!HASH_PATTERN.test(hash)) {
+      return false;
+    }
+
+    try {
+      await fs.access(this.getBlobFile(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Spread blobs over subdirectories so no single directory grows huge
+  private getBlobFile(hash: string): string {
+    return path.join(this.blobDir, hash.slice(0, 2), hash);
+  }
+}
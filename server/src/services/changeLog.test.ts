@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChangeLog } from './changeLog';
+
+describe('ChangeLog', () => {
+  let log: ChangeLog;
+
+  beforeEach(() => {
+    log = new ChangeLog(3);
+  });
+
+  it('numbers changes per board', () => {
+    expect(log.record('board-1', 'note-1')).toBe(1);
+    expect(log.record('board-1')).toBe(2);
+    expect(log.record('board-2', 'note-2')).toBe(1);
+    expect(log.getCursor('board-1')).toEqual({ epoch: log.epoch, seq: 2 });
+  });
+
+  it('lists each note changed after a cursor once', () => {
+    log.record('board-1', 'note-1');
+    const cursor = log.getCursor('board-1');
+    log.record('board-1', 'note-2');
+    log.record('board-1', 'note-1');
+    log.record('board-1', 'note-2');
+
+    expect(log.changedSince('board-1', cursor)).toEqual(['note-1', 'note-2']);
+    expect(log.changedSince('board-1', log.getCursor('board-1'))).toEqual([]);
+  });
+
+  it('cannot answer for cursors it is too far behind, or from another epoch', () => {
+    log.record('board-1', 'note-1');
+    const cursor = log.getCursor('board-1');
+    ['note-2', 'note-3', 'note-4', 'note-5'].forEach(noteId => log.record('board-1', noteId));
+
+    expect(log.changedSince('board-1', cursor)).toBeNull();
+    expect(log.changedSince('board-1', { epoch: 'earlier', seq: 5 })).toBeNull();
+    expect(log.changedSince('board-1', { epoch: log.epoch, seq: 99 })).toBeNull();
+  });
+
+  it('stamps each broadcast with the changes since the previous one', () => {
+    log.record('board-1', 'note-1');
+    expect(log.takeBroadcastSequence('board-1')).toEqual({ boardId: 'board-1', prevSeq: 0, seq: 1 });
+
+    // Not broadcast on its own
+    log.record('board-1');
+    log.record('board-1', 'note-1');
+    expect(log.takeBroadcastSequence('board-1')).toEqual({ boardId: 'board-1', prevSeq: 1, seq: 3 });
+  });
+
+  it('forgets everything on reset', () => {
+    log.record('board-1', 'note-1');
+    const cursor = log.getCursor('board-1');
+    log.reset('board-1');
+
+    expect(log.changedSince('board-1', cursor)).toBeNull();
+    expect(log.changedSince('board-1', log.getCursor('board-1'))).toEqual([]);
+  });
+});
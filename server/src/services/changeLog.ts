@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardSequence, SyncCursor } from '../../../shared/src/types.js';
+
+interface BoardChanges {
+  seq: number; // Sequence number of the latest change
+  floor: number; // Changes up to here have been forgotten
+  broadcast: number; // Sequence number stamped on the last broadcast
+  notes: Map<string, number>; // Sequence number of each note's latest change, oldest first
+}
+
+/**
+ * Per-board sequence numbers and which notes changed at each, so a client
+ * whose copy of a board is up to some sequence number can be sent just the
+ * notes changed since. Only the latest change to each of the most recently
+ * changed notes is kept; clients further behind than that need the whole
+ * board. Sequence numbers start over when the server restarts, and the
+ * epoch tells cursors from before a restart apart.
+ */
+export class ChangeLog {
+  readonly epoch: string = uuidv4();
+  private boards: Map<string, BoardChanges> = new Map();
+  private readonly limit: number;
+
+  constructor(limit: number = 1000) {
+    this.limit = limit;
+  }
+
+  /**
+   * Give the board a new sequence number for a change, to one of its notes
+   * or to the board itself
+   */
+  record(boardId: string, noteId?: string): number {
+    const changes = this.getChanges(boardId);
+    changes.seq++;
+
+    if (noteId) {
+      // Re-inserting keeps the map ordered by sequence number
+      changes.notes.delete(noteId);
+      changes.notes.set(noteId, changes.seq);
+      if (changes.notes.size > this.limit) {
+        const [oldestId, oldestSeq] = changes.notes.entries().next().value!;
+        changes.notes.delete(oldestId);
+        changes.floor = oldestSeq;
+      }
+    }
+    return changes.seq;
+  }
+
+  getCursor(boardId: string): SyncCursor {
+    return { epoch: this.epoch, seq: this.boards.get(boardId)?.seq ?? 0 };
+  }
+
+  /**
+   * Sequence numbers to stamp on a broadcast to the board's room. It covers
+   * every change since the previous broadcast, including ones that weren't
+   * broadcast themselves, so clients only see a gap when they missed one.
+   */
+  takeBroadcastSequence(boardId: string): BoardSequence {
+    const changes = this.getChanges(boardId);
+    const prevSeq = changes.broadcast;
+    changes.broadcast = changes.seq;
+    return { boardId, seq: changes.seq, prevSeq };
+  }
+
+  /**
+   * Notes changed after the cursor, or null if the cursor is from before a
+   * restart or too far behind to tell
+   */
+  changedSince(boardId: string, cursor: SyncCursor): string[] | null {
+    const changes = this.getChanges(boardId);
+    if (cursor.epoch !== this.epoch || cursor.seq < changes.floor || cursor.seq > changes.seq) {
+      return null;
+    }
+
+    const noteIds: string[] = [];
+    changes.notes.forEach((seq, noteId) => {
+      if (seq > cursor.seq) {
+        noteIds.push(noteId);
+      }
+    });
+    return noteIds;
+  }
+
+  /**
+   * Forget a board's changes so every client gets the whole board next time,
+   * e.g. after it was replaced wholesale
+   */
+  reset(boardId: string): void {
+    const changes = this.getChanges(boardId);
+    changes.seq++;
+    changes.floor = changes.seq;
+    changes.notes.clear();
+  }
+
+  private getChanges(boardId: string): BoardChanges {
+    let changes = this.boards.get(boardId);
+    if (!changes) {
+      changes = { seq: 0, floor: 0, broadcast: 0, notes: new Map() };
+      this.boards.set(boardId, changes);
+    }
+    return changes;
+  }
+}
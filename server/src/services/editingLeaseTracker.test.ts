@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EditingLeaseTracker } from './editingLeaseTracker';
+
+describe('EditingLeaseTracker', () => {
+  let leases: EditingLeaseTracker;
+
+  beforeEach(() => {
+    leases = new EditingLeaseTracker(1000);
+  });
+
+  it('refuses a note another connection is editing unless taking over', () => {
+    expect(leases.acquire('note-1', 'board-1', 'alice', 'socket-1', false, 0).granted).toBe(true);
+
+    const refused = leases.acquire('note-1', 'board-1', 'bob', 'socket-2', false, 100);
+    expect(refused).toMatchObject({ granted: false, holder: { userId: 'alice', sessionId: 'socket-1' } });
+
+    const takeover = leases.acquire('note-1', 'board-1', 'bob', 'socket-2', true, 200);
+    expect(takeover).toMatchObject({ granted: true, previous: { sessionId: 'socket-1' } });
+    expect(leases.getLease('note-1', 200)?.userId).toBe('bob');
+  });
+
+  it('only lets the holder renew or release a lease', () => {
+    leases.acquire('note-1', 'board-1', 'alice', 'socket-1', false, 0);
+
+    expect(leases.renew('note-1', 'socket-2', 500)).toBe(false);
+    expect(leases.renew('note-1', 'socket-1', 500)).toBe(true);
+    expect(leases.release('note-1', 'socket-2')).toBeUndefined();
+    expect(leases.release('note-1', 'socket-1')?.noteId).toBe('note-1');
+    expect(leases.getLease('note-1', 500)).toBeUndefined();
+  });
+
+  it('lets leases lapse without renewal', () => {
+    leases.acquire('note-1', 'board-1', 'alice', 'socket-1', false, 0);
+    leases.acquire('note-2', 'board-1', 'bob', 'socket-2', false, 0);
+    leases.renew('note-2', 'socket-2', 800);
+
+    expect(leases.expire(1000).map(lease => lease.noteId)).toEqual(['note-1']);
+    expect(leases.renew('note-1', 'socket-1', 1000)).toBe(false);
+
+    // Someone else can pick up a lapsed note without taking over
+    expect(leases.acquire('note-1', 'board-1', 'bob', 'socket-2', false, 1000)).toMatchObject({ granted: true });
+  });
+
+  it('releases everything a disconnected connection held', () => {
+    leases.acquire('note-1', 'board-1', 'alice', 'socket-1', false, 0);
+    leases.acquire('note-2', 'board-2', 'alice', 'socket-1', false, 0);
+    leases.acquire('note-3', 'board-1', 'bob', 'socket-2', false, 0);
+
+    expect(leases.releaseSession('socket-1').map(lease => lease.noteId)).toEqual(['note-1', 'note-2']);
+    expect(leases.getLease('note-3', 0)?.sessionId).toBe('socket-2');
+  });
+});
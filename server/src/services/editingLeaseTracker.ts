@@ -0,0 +1,118 @@
+const DEFAULT_LEASE_TIMEOUT_MS = 30000; // Three missed 10-second renewals
+
+export interface EditingLease {
+  noteId: string;
+  boardId: string;
+  userId: string;
+  sessionId: string;
+  expiresAt: number;
+}
+
+export type AcquireResult =
+  | { granted: true; lease: EditingLease; previous?: EditingLease }
+  | { granted: false; holder: EditingLease };
+
+/**
+ * Who is editing each note, held as a lease by a single connection.
+ * Leases must be renewed while editing and lapse on disconnect or timeout,
+ * so a crashed client can't keep a note locked.
+ */
+export class EditingLeaseTracker {
+  private leases: Map<string, EditingLease> = new Map();
+  private readonly timeoutMs: number;
+
+  constructor(timeoutMs: number = DEFAULT_LEASE_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Start editing a note. Another connection's live lease is only replaced
+   * when takeover is set; the replaced lease is returned so its holder can be told.
+   */
+  acquire(
+    noteId: string,
+    boardId: string,
+    userId: string,
+    sessionId: string,
+    takeover: boolean = false,
+    now: number = Date.now()
+  ): AcquireResult {
+    const current = this.getLease(noteId, now);
+    if (current && current.sessionId !== sessionId && !takeover) {
+      return { granted: false, holder: current };
+    }
+
+    const lease: EditingLease = { noteId, boardId, userId, sessionId, expiresAt: now + this.timeoutMs };
+    this.leases.set(noteId, lease);
+    return current && current.sessionId !== sessionId
+      ? { granted: true, lease, previous: current }
+      : { granted: true, lease };
+  }
+
+  /**
+   * Extend a lease; false if the connection no longer holds it
+   */
+  renew(noteId: string, sessionId: string, now: number = Date.now()): boolean {
+    const lease = this.getLease(noteId, now);
+    if (!lease || lease.sessionId !== sessionId) {
+      return false;
+    }
+    lease.expiresAt = now + this.timeoutMs;
+    return true;
+  }
+
+  /**
+   * Give up a lease; only its holder can release it
+   */
+  release(noteId: string, sessionId: string): EditingLease | undefined {
+    const lease = this.leases.get(noteId);
+    if (!lease || lease.sessionId !== sessionId) {
+      return undefined;
+    }
+    this.leases.delete(noteId);
+    return lease;
+  }
+
+  /**
+   * Release every lease held by a connection, e.g. when it disconnects
+   */
+  releaseSession(sessionId: string): EditingLease[] {
+    const released: EditingLease[] = [];
+    for (const lease of Array.from(this.leases.values())) {
+      if (lease.sessionId === sessionId) {
+        this.leases.delete(lease.noteId);
+        released.push(lease);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Drop a note's lease regardless of holder, e.g. when the note is deleted
+   */
+  clear(noteId: string): EditingLease | undefined {
+    const lease = this.leases.get(noteId);
+    this.leases.delete(noteId);
+    return lease;
+  }
+
+  getLease(noteId: string, now: number = Date.now()): EditingLease | undefined {
+    const lease = this.leases.get(noteId);
+    return lease && lease.expiresAt > now ? lease : undefined;
+  }
+
+  /**
+   * Remove leases that weren't renewed in time
+   */
+  expire(now: number = Date.now()): EditingLease[] {
+    const expired = Array.from(this.leases.values()).filter(lease => lease.expiresAt <= now);
+    for (const lease of expired) {
+      this.leases.delete(lease.noteId);
+    }
+    return expired;
+  }
+
+  getTimeoutMs(): number {
+    return this.timeoutMs;
+  }
+}
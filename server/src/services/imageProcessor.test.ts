@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { ImageProcessor } from './imageProcessor';
+import { ValidationError } from '../../../shared/src/validation';
+
+describe('ImageProcessor', () => {
+  const processor = new ImageProcessor([100, 400]);
+
+  const createJpeg = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: '#FF9F0A' } })
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: 'Someone' } } })
+      .toBuffer();
+
+  it('strips EXIF metadata and applies the orientation', async () => {
+    const result = await processor.process(await createJpeg(300, 200));
+    const metadata = await sharp(result.data).metadata();
+
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    // Orientation 6 rotates the image a quarter turn
+    expect(result.width).toBe(200);
+    expect(result.height).toBe(300);
+  });
+
+  it('renders WebP thumbnails narrower than the image', async () => {
+    const result = await processor.process(await createJpeg(300, 200));
+
+    expect(result.thumbnails.map(thumbnail => thumbnail.width)).toEqual([100]);
+    const metadata = await sharp(result.thumbnails[0].data).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.width).toBe(100);
+  });
+
+  it('keeps whichever encoding is smaller', async () => {
+    const png = await sharp({ create: { width: 500, height: 500, channels: 3, background: '#0A84FF' } })
+      .png()
+      .toBuffer();
+    const result = await processor.process(png);
+    const reencoded = await sharp(png).png().toBuffer();
+    const webp = await sharp(png).webp({ quality: 85 }).toBuffer();
+
+    expect(result.data.length).toBe(Math.min(reencoded.length, webp.length));
+  });
+
+  it('rejects data that is not an image', async () => {
+    await expect(processor.process(Buffer.from('not an image'))).rejects.toThrow(ValidationError);
+  });
+});
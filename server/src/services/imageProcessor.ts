@@ -0,0 +1,76 @@
+import sharp, { FormatEnum } from 'sharp';
+import { ValidationError } from '../../../shared/src/validation.js';
+import { detectImageType } from './blobStore.js';
+
+// Output format when an image is re-encoded in its own format
+const FORMATS: Record<string, keyof FormatEnum> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface ProcessedImage {
+  data: Buffer; // Full-size image, without metadata
+  width: number;
+  height: number;
+  thumbnails: { width: number; data: Buffer }[]; // WebP, smallest first
+}
+
+/**
+ * Prepares uploaded images for storage: strips EXIF/GPS metadata,
+ * re-encodes to WebP when that is smaller, and renders thumbnails
+ */
+export class ImageProcessor {
+  private thumbnailWidths: number[];
+
+  constructor(thumbnailWidths: number[] = [160, 320, 640]) {
+    this.thumbnailWidths = [...thumbnailWidths].sort((a, b) => a - b);
+  }
+
+  async process(input: Buffer): Promise<ProcessedImage> {
+    const type = detectImageType(input);
+    if (!type) {
+      throw new ValidationError('Image must be a JPEG, PNG, GIF or WebP image');
+    }
+
+    // Keep every frame of animations; apply EXIF orientation before the EXIF data is dropped
+    const animated = type === 'image/gif' || type === 'image/webp';
+    const base = sharp(input, { animated });
+    if (type === 'image/jpeg') {
+      base.rotate();
+    }
+
+    let candidates: Buffer[];
+    try {
+      // sharp writes no metadata unless asked to, so every re-encode strips EXIF
+      const webp = await base.clone().webp({ quality: 85 }).toBuffer();
+      if (type === 'image/gif') {
+        // GIFs carry no EXIF, so the upload itself can be kept
+        candidates = [input, webp];
+      } else {
+        const reencoded = await base.clone().toFormat(FORMATS[type]).toBuffer();
+        candidates = [reencoded, webp];
+      }
+    } catch (error) {
+      throw new ValidationError(`Image could not be read: ${(error as Error).message}`);
+    }
+
+    const data = candidates.reduce((smallest, candidate) => candidate.length < smallest.length ? candidate : smallest);
+    const metadata = await sharp(data, { animated }).metadata();
+    const width = metadata.width || 0;
+    const height = metadata.pageHeight || metadata.height || 0;
+
+    const thumbnails: ProcessedImage['thumbnails'] = [];
+    for (const thumbnailWidth of this.thumbnailWidths) {
+      if (thumbnailWidth >= width) {
+        break;
+      }
+      thumbnails.push({
+        width: thumbnailWidth,
+        data: await base.clone().resize({ width: thumbnailWidth }).webp({ quality: 80 }).toBuffer(),
+      });
+    }
+
+    return { data, width, height, thumbnails };
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InviteStore } from './inviteStore';
+import { promises as fs } from 'fs';
+
+describe('InviteStore', () => {
+  const testDataDir = './test-data-invites';
+  const HOUR = 60 * 60 * 1000;
+  let store: InviteStore;
+
+  beforeEach(async () => {
+    store = new InviteStore(testDataDir);
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('accepts the tokens it signed until they expire', async () => {
+    const { invite, token } = await store.createInvite('board-1', 'viewer', 'alice', HOUR);
+
+    expect(store.verifyToken(token)).toEqual(invite);
+    expect(store.verifyToken(token, invite.expiresAt)).toBeUndefined();
+  });
+
+  it('rejects tampered tokens', async () => {
+    const { token } = await store.createInvite('board-1', 'viewer', 'alice', HOUR);
+    const [body, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'editor' })).toString('base64url');
+
+    expect(store.verifyToken(`${forged}.${signature}`)).toBeUndefined();
+    expect(store.verifyToken('not-a-token')).toBeUndefined();
+  });
+
+  it('stops accepting revoked invites', async () => {
+    const { invite, token } = await store.createInvite('board-1', 'editor', 'alice', HOUR);
+
+    expect(await store.revokeInvite(invite.id)).toBe(true);
+    expect(store.verifyToken(token)).toBeUndefined();
+    expect(store.listInvites()).toEqual([]);
+  });
+
+  it('keeps invites and the signing secret across restarts', async () => {
+    const { token } = await store.createInvite('board-1', 'viewer', 'alice', HOUR);
+    await store.createInvite('board-2', 'viewer', 'alice', HOUR);
+
+    const reloaded = new InviteStore(testDataDir);
+    await reloaded.initialize();
+
+    expect(reloaded.verifyToken(token)?.boardId).toBe('board-1');
+    expect(reloaded.listInvites(new Set(['board-2']))).toHaveLength(1);
+  });
+});
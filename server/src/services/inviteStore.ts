@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { CreatedInvite, Invite, InviteRole } from '../../../shared/src/types.js';
+
+interface InviteClaims {
+  id: string;
+  boardId: string;
+  role: InviteRole;
+  expiresAt: number;
+}
+
+/**
+ * Board invites. Tokens carry the board, role and expiry and are signed with
+ * HMAC-SHA256; they are also recorded in invites.json so they can be listed
+ * and revoked before they expire.
+ */
+export class InviteStore {
+  private invitesFile: string;
+  private secretFile: string;
+  private secret: Buffer;
+  private invites: Map<string, Invite> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string = './data', secret?: string) {
+    this.invitesFile = path.join(dataDir, 'invites.json');
+    this.secretFile = path.join(dataDir, 'invite-secret');
+    this.secret = Buffer.from(secret || '');
+  }
+
+  /**
+   * Load outstanding invites and the signing secret, creating the secret on first run
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.invitesFile), { recursive: true });
+
+    if (this.secret.length === 0) {
+      try {
+        this.secret = Buffer.from(await fs.readFile(this.secretFile, 'utf-8'), 'hex');
+      } catch {
+        this.secret = crypto.randomBytes(32);
+        await fs.writeFile(this.secretFile, this.secret.toString('hex'), { encoding: 'utf-8', mode: 0o600 });
+      }
+    }
+
+    try {
+      const data = await fs.readFile(this.invitesFile, 'utf-8');
+      const now = Date.now();
+      for (const invite of JSON.parse(data) as Invite[]) {
+        if (invite.expiresAt > now) {
+          this.invites.set(invite.id, invite);
+        }
+      }
+    } catch {
+      // No invites yet
+    }
+    console.log(`Loaded ${this.invites.size} outstanding invites`);
+  }
+
+  /**
+   * Record an invite and sign its token
+   */
+  async createInvite(boardId: string, role: InviteRole, createdBy: string, ttlMs: number): Promise<CreatedInvite> {
+    const now = Date.now();
+    const invite: Invite = {
+      id: uuidv4(),
+      boardId,
+      role,
+      createdBy,
+      createdAt: now,
+      expiresAt: now + ttlMs,
+    };
+
+    this.invites.set(invite.id, invite);
+    await this.save();
+    return { invite, token: this.sign({ id: invite.id, boardId, role, expiresAt: invite.expiresAt }) };
+  }
+
+  /**
+   * The invite a token stands for, if the signature is valid and the invite
+   * has neither expired nor been revoked
+   */
+  verifyToken(token: string, now: number = Date.now()): Invite | undefined {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      return undefined;
+    }
+
+    const expected = this.signature(body);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return undefined;
+    }
+
+    let claims: InviteClaims;
+    try {
+      claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    const invite = this.invites.get(claims.id);
+    if (!invite || invite.boardId !== claims.boardId || invite.role !== claims.role || claims.expiresAt <= now) {
+      return undefined;
+    }
+    return invite;
+  }
+
+  /**
+   * Invites that have not expired, optionally only those for some boards
+   */
+  listInvites(boardIds?: Set<string>, now: number = Date.now()): Invite[] {
+    return Array.from(this.invites.values())
+      .filter(invite => invite.expiresAt > now && (!boardIds || boardIds.has(invite.boardId)))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getInvite(inviteId: string): Invite | undefined {
+    return this.invites.get(inviteId);
+  }
+
+  /**
+   * Revoke an invite so its token stops working
+   */
+  async revokeInvite(inviteId: string): Promise<boolean> {
+    if (!this.invites.delete(inviteId)) {
+      return false;
+    }
+    await this.save();
+    console.log(`Revoked invite: ${inviteId}`);
+    return true;
+  }
+
+  private sign(claims: InviteClaims): string {
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${body}.${this.signature(body).toString('base64url')}`;
+  }
+
+  private signature(body: string): Buffer {
+    return crypto.createHmac('sha256', this.secret).update(body).digest();
+  }
+
+  /**
+   * Write the file, dropping expired invites; saves are chained so they land in order
+   */
+  private save(): Promise<void> {
+    const now = Date.now();
+    for (const [id, invite] of this.invites) {
+      if (invite.expiresAt <= now) {
+        this.invites.delete(id);
+      }
+    }
+
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const tempFile = `${this.invitesFile}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(Array.from(this.invites.values()), null, 2), 'utf-8');
+      await fs.rename(tempFile, this.invitesFile);
+    });
+    return this.saving;
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Journal } from './journal';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Journal', () => {
+  const testDataDir = './test-data-journal';
+  const journalFile = path.join(testDataDir, 'journal.log');
+  let journal: Journal;
+
+  beforeEach(async () => {
+    journal = new Journal(journalFile);
+    await journal.initialize();
+  });
+
+  afterEach(async () => {
+    journal.close();
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('reads back appended entries after reopening', async () => {
+    journal.append({ type: 'deleteBoard', boardId: 'board-1' });
+    journal.append({ type: 'deleteNote', noteId: 'note-1' });
+    journal.close();
+
+    journal = new Journal(journalFile);
+    await journal.initialize();
+    expect(journal.getLength()).toBe(2);
+    expect(journal.read()).toEqual([
+      { type: 'deleteBoard', boardId: 'board-1' },
+      { type: 'deleteNote', noteId: 'note-1' },
+    ]);
+  });
+
+  it('skips a partially written last entry', async () => {
+    journal.append({ type: 'deleteNote', noteId: 'note-1' });
+    await fs.appendFile(journalFile, '{"type":"deleteNo');
+
+    expect(journal.read()).toEqual([{ type: 'deleteNote', noteId: 'note-1' }]);
+  });
+
+  it('keeps entries appended after the compaction mark', () => {
+    journal.append({ type: 'deleteNote', noteId: 'note-1' });
+    const mark = journal.getLength();
+    journal.append({ type: 'deleteNote', noteId: 'note-2' });
+
+    journal.compact(mark);
+    expect(journal.read()).toEqual([{ type: 'deleteNote', noteId: 'note-2' }]);
+
+    journal.compact(journal.getLength());
+    expect(journal.read()).toEqual([]);
+  });
+});
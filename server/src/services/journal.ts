@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { Board, Note } from '../../../shared/src/types.js';
+
+/**
+ * One change recorded in the journal. Entries hold resulting values rather
+ * than operations, so replaying an entry that is already in the snapshot is harmless.
+ */
+export type JournalEntry =
+  | { type: 'board'; board: Omit<Board, 'notes'> }
+  | { type: 'boardPatch'; boardId: string; fields: Record<string, unknown> } // null clears a field
+  | { type: 'note'; note: Note }
+  | { type: 'notePatch'; noteId: string; fields: Record<string, unknown> } // null clears a field
+  | { type: 'deleteBoard'; boardId: string }
+  | { type: 'deleteNote'; noteId: string };
+
+/**
+ * Append-only log of changes made since the last successful save.
+ * Writes are synchronous so an entry is on disk before the change is broadcast.
+ */
+export class Journal {
+  private filePath: string;
+  private fd: number | null = null;
+  private length: number = 0; // Entries currently in the file
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Open the journal file for appending, creating it if needed
+   */
+  async initialize(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    this.length = this.readLines().length;
+    this.fd = fs.openSync(this.filePath, 'a');
+  }
+
+  /**
+   * Read all entries, skipping a partially written last line after a crash
+   */
+  read(): JournalEntry[] {
+    const entries: JournalEntry[] = [];
+    for (const line of this.readLines()) {
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        console.warn('Skipping unreadable journal entry');
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Append an entry and write it to disk immediately
+   */
+  append(entry: JournalEntry): void {
+    if (this.fd === null) {
+      return;
+    }
+    fs.writeSync(this.fd, JSON.stringify(entry) + '\n');
+    this.length++;
+  }
+
+  /**
+   * Number of entries in the journal, used as a mark for compact()
+   */
+  getLength(): number {
+    return this.length;
+  }
+
+  /**
+   * Drop the first `count` entries once they are part of a saved snapshot
+   */
+  compact(count: number): void {
+    if (this.fd === null || count <= 0) {
+      return;
+    }
+
+    if (count >= this.length) {
+      fs.ftruncateSync(this.fd, 0);
+      this.length = 0;
+      return;
+    }
+
+    // Keep entries appended while the snapshot was being saved
+    const remaining = this.readLines().slice(count);
+    const tempFile = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempFile, remaining.map(line => line + '\n').join(''), 'utf-8');
+    fs.closeSync(this.fd);
+    fs.renameSync(tempFile, this.filePath);
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.length = remaining.length;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private readLines(): string[] {
+    try {
+      return fs.readFileSync(this.filePath, 'utf-8').split('\n').filter(line => line.length > 0);
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OperationAcks } from './operationAcks';
+
+describe('OperationAcks', () => {
+  let acks: OperationAcks;
+
+  beforeEach(() => {
+    acks = new OperationAcks(2);
+  });
+
+  it('remembers the ack sent for each user\'s operation', () => {
+    acks.record('user-1', 'op-1', { ok: true });
+    acks.record('user-1', 'op-2', { ok: false, error: 'Note not found' });
+
+    expect(acks.get('user-1', 'op-1')).toEqual({ ok: true });
+    expect(acks.get('user-1', 'op-2')).toEqual({ ok: false, error: 'Note not found' });
+    expect(acks.get('user-2', 'op-1')).toBeUndefined();
+  });
+
+  it('forgets the oldest acks past its limit', () => {
+    acks.record('user-1', 'op-1', { ok: true });
+    acks.record('user-1', 'op-2', { ok: true });
+    acks.record('user-1', 'op-3', { ok: true });
+
+    expect(acks.get('user-1', 'op-1')).toBeUndefined();
+    expect(acks.get('user-1', 'op-3')).toEqual({ ok: true });
+  });
+});
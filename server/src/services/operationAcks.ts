@@ -0,0 +1,31 @@
+import { MessageAck } from '../../../shared/src/types.js';
+
+/**
+ * The acknowledgements most recently sent for each user's operations. A
+ * client that loses its connection before an ack arrives sends the change
+ * again, and gets the same answer instead of having it applied twice. Only
+ * the most recent acks are kept.
+ */
+export class OperationAcks {
+  private acks: Map<string, MessageAck> = new Map();
+  private readonly limit: number;
+
+  constructor(limit: number = 10000) {
+    this.limit = limit;
+  }
+
+  get(userId: string, opId: string): MessageAck | undefined {
+    return this.acks.get(this.getKey(userId, opId));
+  }
+
+  record(userId: string, opId: string, ack: MessageAck): void {
+    this.acks.set(this.getKey(userId, opId), ack);
+    if (this.acks.size > this.limit) {
+      this.acks.delete(this.acks.keys().next().value!);
+    }
+  }
+
+  private getKey(userId: string, opId: string): string {
+    return `${userId}:${opId}`;
+  }
+}
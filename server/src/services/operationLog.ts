@@ -0,0 +1,101 @@
+import { Connector, Note } from '../../../shared/src/types.js';
+
+export type NoteOperationType = 'create' | 'update' | 'move' | 'delete';
+
+/**
+ * A reversible change to a single note.
+ * `before` and `after` hold the affected fields, or the whole note for
+ * creations and deletions, with null meaning the note did not exist.
+ */
+export interface NoteOperation {
+  type: NoteOperationType;
+  noteId: string;
+  before: Partial<Note> | null;
+  after: Partial<Note> | null;
+  connectors?: Connector[]; // Removed along with the note when it was last deleted
+}
+
+/**
+ * Per-board, per-user undo and redo stacks of note operations
+ */
+export class OperationLog {
+  private undoStacks: Map<string, NoteOperation[]> = new Map();
+  private redoStacks: Map<string, NoteOperation[]> = new Map();
+  private readonly limit: number;
+
+  constructor(limit: number = 100) {
+    this.limit = limit;
+  }
+
+  /**
+   * Record a new operation made by a user. Clears that user's redo stack.
+   */
+  record(boardId: string, userId: string, operation: NoteOperation): void {
+    const key = this.getKey(boardId, userId);
+    this.push(this.undoStacks, key, operation);
+    this.redoStacks.delete(key);
+  }
+
+  /**
+   * Take the user's most recent operation off the undo stack
+   */
+  takeUndo(boardId: string, userId: string): NoteOperation | undefined {
+    return this.undoStacks.get(this.getKey(boardId, userId))?.pop();
+  }
+
+  /**
+   * Take the user's most recently undone operation off the redo stack
+   */
+  takeRedo(boardId: string, userId: string): NoteOperation | undefined {
+    return this.redoStacks.get(this.getKey(boardId, userId))?.pop();
+  }
+
+  /**
+   * Remember an undone operation so it can be redone
+   */
+  pushRedo(boardId: string, userId: string, operation: NoteOperation): void {
+    this.push(this.redoStacks, this.getKey(boardId, userId), operation);
+  }
+
+  /**
+   * Put a redone operation back on the undo stack without clearing redo
+   */
+  pushUndo(boardId: string, userId: string, operation: NoteOperation): void {
+    this.push(this.undoStacks, this.getKey(boardId, userId), operation);
+  }
+
+  canUndo(boardId: string, userId: string): boolean {
+    return (this.undoStacks.get(this.getKey(boardId, userId))?.length || 0) > 0;
+  }
+
+  canRedo(boardId: string, userId: string): boolean {
+    return (this.redoStacks.get(this.getKey(boardId, userId))?.length || 0) > 0;
+  }
+
+  /**
+   * Forget all history for a board
+   */
+  clearBoard(boardId: string): void {
+    const prefix = `${boardId}:`;
+    for (const stacks of [this.undoStacks, this.redoStacks]) {
+      for (const key of stacks.keys()) {
+        if (key.startsWith(prefix)) {
+          stacks.delete(key);
+        }
+      }
+    }
+  }
+
+  private push(stacks: Map<string, NoteOperation[]>, key: string, operation: NoteOperation): void {
+    const stack = stacks.get(key) || [];
+    stack.push(operation);
+    if (stack.length > this.limit) {
+      stack.splice(0, stack.length - this.limit);
+    }
+    stacks.set(key, stack);
+  }
+
+  private getKey(boardId: string, userId: string): string {
+    return `${boardId}:${userId}`;
+  }
+}
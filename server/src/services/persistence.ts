@@ -2,8 +2,12 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { Board } from '../../../shared/src/types.js';
 import { validateBoard } from '../../../shared/src/validation.js';
+import { StorageBackend, StorageChanges } from './storageBackend.js';
 
-export class PersistenceService {
+/**
+ * Storage backend that keeps every board in a single JSON file
+ */
+export class PersistenceService implements StorageBackend {
   private dataDir: string;
   private boardsFile: string;
 
@@ -159,6 +163,13 @@ export class PersistenceService {
     throw new Error(`Failed to save boards after ${maxRetries} attempts: ${lastError?.message}`);
   }
 
+  /**
+   * The JSON file cannot be updated in place, so rewrite it with the full state
+   */
+  async saveChanges(_changes: StorageChanges, boards: Board[]): Promise<void> {
+    await this.saveBoards(boards);
+  }
+
   /**
    * Get the path to the data directory
    */
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PresenceTracker } from './presenceTracker';
+
+describe('PresenceTracker', () => {
+  let tracker: PresenceTracker;
+
+  beforeEach(() => {
+    tracker = new PresenceTracker(1000);
+  });
+
+  it('tracks each connection on a board with a colour per user', () => {
+    const first = tracker.join('board-1', 'socket-1', 'alice', 'Alice', 0);
+    const second = tracker.join('board-1', 'socket-2', 'alice', 'Alice', 0);
+    tracker.join('board-2', 'socket-3', 'bob', 'Bob', 0);
+
+    expect(tracker.getBoardPresence('board-1').map(user => user.sessionId)).toEqual(['socket-1', 'socket-2']);
+    expect(first.color).toBe(second.color);
+  });
+
+  it('records cursor positions for present connections only', () => {
+    tracker.join('board-1', 'socket-1', 'alice', 'Alice', 0);
+
+    expect(tracker.moveCursor('board-1', 'socket-1', 10, 20, 0)).toBe(true);
+    expect(tracker.moveCursor('board-1', 'socket-2', 10, 20, 0)).toBe(false);
+    expect(tracker.getBoardPresence('board-1')[0].cursor).toEqual({ x: 10, y: 20 });
+  });
+
+  it('keeps the latest viewport for people following a connection', () => {
+    tracker.join('board-1', 'socket-1', 'alice', 'Alice', 0);
+
+    expect(tracker.setViewport('board-1', 'socket-1', { x: 400, y: 300, scale: 1.5 }, 0)).toBe(true);
+    expect(tracker.setViewport('board-2', 'socket-1', { x: 0, y: 0, scale: 1 }, 0)).toBe(false);
+    expect(tracker.getBoardPresence('board-1')[0].viewport).toEqual({ x: 400, y: 300, scale: 1.5 });
+  });
+
+  it('expires connections whose heartbeats stop', () => {
+    tracker.join('board-1', 'socket-1', 'alice', 'Alice', 0);
+    tracker.join('board-1', 'socket-2', 'bob', 'Bob', 0);
+    tracker.heartbeat('board-1', 'socket-2', 800);
+
+    expect(tracker.expire(1500)).toEqual([{ boardId: 'board-1', sessionId: 'socket-1' }]);
+    expect(tracker.heartbeat('board-1', 'socket-1', 1500)).toBe(false);
+    expect(tracker.getBoardPresence('board-1').map(user => user.sessionId)).toEqual(['socket-2']);
+  });
+
+  it('removes a disconnected connection from every board', () => {
+    tracker.join('board-1', 'socket-1', 'alice', 'Alice');
+    tracker.join('board-2', 'socket-1', 'alice', 'Alice');
+
+    expect(tracker.leaveAll('socket-1')).toEqual(['board-1', 'board-2']);
+    expect(tracker.getBoardPresence('board-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { PresenceInfo, Viewport } from '../../../shared/src/types.js';
+
+const DEFAULT_PRESENCE_TIMEOUT_MS = 45000; // Three missed 15-second heartbeats
+
+const PRESENCE_COLORS = [
+  '#FF453A', // Red
+  '#FF9F0A', // Orange
+  '#32D74B', // Green
+  '#0A84FF', // Blue
+  '#BF5AF2', // Purple
+  '#FF375F', // Pink
+  '#5AC8FA', // Teal
+  '#AC8E68', // Brown
+];
+
+interface PresenceEntry extends PresenceInfo {
+  lastSeen: number;
+}
+
+/**
+ * Who has each board open, kept in memory per connection.
+ * Entries go away on leave or disconnect, or when heartbeats stop.
+ */
+export class PresenceTracker {
+  private boards: Map<string, Map<string, PresenceEntry>> = new Map();
+  private readonly timeoutMs: number;
+
+  constructor(timeoutMs: number = DEFAULT_PRESENCE_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Record a connection opening a board. The colour follows the user, so it
+   * is the same in every tab and for everyone looking.
+   */
+  join(boardId: string, sessionId: string, userId: string, name: string, now: number = Date.now()): PresenceInfo {
+    let sessions = this.boards.get(boardId);
+    if (!sessions) {
+      sessions = new Map();
+      this.boards.set(boardId, sessions);
+    }
+
+    const entry: PresenceEntry = { sessionId, userId, name, color: colorForUser(userId), lastSeen: now };
+    sessions.set(sessionId, entry);
+    return toInfo(entry);
+  }
+
+  leave(boardId: string, sessionId: string): boolean {
+    const sessions = this.boards.get(boardId);
+    if (!sessions || !sessions.delete(sessionId)) {
+      return false;
+    }
+    if (sessions.size === 0) {
+      this.boards.delete(boardId);
+    }
+    return true;
+  }
+
+  /**
+   * Drop a connection from every board, returning the boards it was on
+   */
+  leaveAll(sessionId: string): string[] {
+    const left: string[] = [];
+    for (const boardId of Array.from(this.boards.keys())) {
+      if (this.leave(boardId, sessionId)) {
+        left.push(boardId);
+      }
+    }
+    return left;
+  }
+
+  /**
+   * Keep a connection present; false if it had already timed out
+   */
+  heartbeat(boardId: string, sessionId: string, now: number = Date.now()): boolean {
+    const entry = this.boards.get(boardId)?.get(sessionId);
+    if (!entry) {
+      return false;
+    }
+    entry.lastSeen = now;
+    return true;
+  }
+
+  moveCursor(boardId: string, sessionId: string, x: number, y: number, now: number = Date.now()): boolean {
+    const entry = this.boards.get(boardId)?.get(sessionId);
+    if (!entry) {
+      return false;
+    }
+    entry.cursor = { x, y };
+    entry.lastSeen = now;
+    return true;
+  }
+
+  /**
+   * Record what part of the board a connection is looking at, for people following it
+   */
+  setViewport(boardId: string, sessionId: string, viewport: Viewport, now: number = Date.now()): boolean {
+    const entry = this.boards.get(boardId)?.get(sessionId);
+    if (!entry) {
+      return false;
+    }
+    entry.viewport = viewport;
+    entry.lastSeen = now;
+    return true;
+  }
+
+  getBoardPresence(boardId: string): PresenceInfo[] {
+    return Array.from(this.boards.get(boardId)?.values() || [], toInfo);
+  }
+
+  /**
+   * Remove connections whose heartbeats have stopped
+   */
+  expire(now: number = Date.now()): Array<{ boardId: string; sessionId: string }> {
+    const expired: Array<{ boardId: string; sessionId: string }> = [];
+    for (const [boardId, sessions] of this.boards) {
+      for (const entry of sessions.values()) {
+        if (now - entry.lastSeen > this.timeoutMs) {
+          expired.push({ boardId, sessionId: entry.sessionId });
+        }
+      }
+    }
+
+    for (const { boardId, sessionId } of expired) {
+      this.leave(boardId, sessionId);
+    }
+    return expired;
+  }
+
+  getTimeoutMs(): number {
+    return this.timeoutMs;
+  }
+}
+
+function colorForUser(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+function toInfo({ lastSeen: _lastSeen, ...info }: PresenceEntry): PresenceInfo {
+  return { ...info };
+}
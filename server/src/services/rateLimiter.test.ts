@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter({ perSecond: 2, burst: 3 });
+  });
+
+  it('allows a burst, then the sustained rate', () => {
+    expect([1, 2, 3, 4].map(() => limiter.tryTake('a', 0))).toEqual([true, true, true, false]);
+    expect(limiter.getRetryAfterMs('a', 0)).toBe(500);
+
+    expect(limiter.tryTake('a', 500)).toBe(true);
+    expect(limiter.tryTake('a', 500)).toBe(false);
+  });
+
+  it('can check for a token without taking it', () => {
+    [1, 2].forEach(() => limiter.tryTake('a', 0));
+
+    expect(limiter.canTake('a', 0)).toBe(true);
+    expect(limiter.tryTake('a', 0)).toBe(true);
+    expect(limiter.canTake('a', 0)).toBe(false);
+  });
+
+  it('keeps a bucket per key', () => {
+    [1, 2, 3].forEach(() => limiter.tryTake('a', 0));
+
+    expect(limiter.tryTake('a', 0)).toBe(false);
+    expect(limiter.tryTake('b', 0)).toBe(true);
+  });
+
+  it('never refills past the burst size', () => {
+    limiter.tryTake('a', 0);
+
+    const taken = [1, 2, 3, 4].map(() => limiter.tryTake('a', 60000));
+    expect(taken).toEqual([true, true, true, false]);
+  });
+});
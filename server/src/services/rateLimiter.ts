@@ -0,0 +1,63 @@
+export interface RateLimit {
+  perSecond: number; // Sustained rate
+  burst: number; // How many can be sent at once after a quiet spell
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets, one per key, that refill at the limit's sustained rate up
+ * to its burst size. Buckets that have refilled completely are the same as
+ * new ones, so prune() can drop them to keep memory bounded.
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private readonly limit: RateLimit;
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+  }
+
+  // Take a token if there is one, returning whether there was
+  tryTake(key: string, now: number = Date.now()): boolean {
+    if (!this.canTake(key, now)) {
+      return false;
+    }
+    this.buckets.get(key)!.tokens--;
+    return true;
+  }
+
+  canTake(key: string, now: number = Date.now()): boolean {
+    return this.refill(key, now).tokens >= 1;
+  }
+
+  // How long until the next token is available
+  getRetryAfterMs(key: string, now: number = Date.now()): number {
+    const bucket = this.refill(key, now);
+    return bucket.tokens >= 1 ? 0 : Math.ceil(((1 - bucket.tokens) / this.limit.perSecond) * 1000);
+  }
+
+  prune(now: number = Date.now()): void {
+    for (const key of Array.from(this.buckets.keys())) {
+      if (this.refill(key, now).tokens >= this.limit.burst) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.limit.burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.limit.burst, bucket.tokens + elapsedSeconds * this.limit.perSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+const DEFAULT_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface Session {
+  userId: string;
+  expiresAt: number;
+}
+
+/**
+ * Login sessions, keyed by a hash of the token in the session cookie
+ * so the file on disk cannot be used to log in
+ */
+export class SessionStore {
+  private sessionsFile: string;
+  private sessions: Map<string, Session> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+  private readonly ttlMs: number;
+
+  constructor(dataDir: string = './data', ttlMs: number = DEFAULT_SESSION_TTL_MS) {
+    this.sessionsFile = path.join(dataDir, 'sessions.json');
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Load sessions that have not expired
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.sessionsFile), { recursive: true });
+    try {
+      const data = await fs.readFile(this.sessionsFile, 'utf-8');
+      const now = Date.now();
+      for (const [key, session] of Object.entries(JSON.parse(data) as Record<string, Session>)) {
+        if (session.expiresAt > now) {
+          this.sessions.set(key, session);
+        }
+      }
+    } catch {
+      // No sessions yet
+    }
+  }
+
+  /**
+   * Start a session for a user, returning the token for the cookie
+   */
+  async createSession(userId: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    this.sessions.set(this.hashToken(token), { userId, expiresAt: Date.now() + this.ttlMs });
+    await this.save();
+    return token;
+  }
+
+  /**
+   * Look up the user a session token belongs to
+   */
+  getUserId(token: string): string | undefined {
+    const key = this.hashToken(token);
+    const session = this.sessions.get(key);
+    if (!session) {
+      return undefined;
+    }
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(key);
+      return undefined;
+    }
+    return session.userId;
+  }
+
+  async destroySession(token: string): Promise<void> {
+    if (this.sessions.delete(this.hashToken(token))) {
+      await this.save();
+    }
+  }
+
+  getTtlMs(): number {
+    return this.ttlMs;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Persist sessions; saves are chained so they reach the disk in order
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const tempFile = `${this.sessionsFile}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(Object.fromEntries(this.sessions)), 'utf-8');
+      await fs.rename(tempFile, this.sessionsFile);
+    });
+    return this.saving;
+  }
+}
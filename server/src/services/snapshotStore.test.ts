@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SnapshotStore } from './snapshotStore';
+import { promises as fs } from 'fs';
+import { Board } from '../../../shared/src/types';
+
+describe('SnapshotStore', () => {
+  const testDataDir = './test-data-snapshots';
+  const HOUR = 60 * 60 * 1000;
+  let store: SnapshotStore;
+
+  const createBoard = (id: string, name: string = `Board ${id}`): Board => ({
+    id,
+    name,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    notes: [],
+  });
+
+  beforeEach(async () => {
+    store = new SnapshotStore(testDataDir, { hourly: 3, daily: 2 });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('takes at most one snapshot per interval', async () => {
+    const start = Date.UTC(2024, 0, 1, 12);
+    expect(await store.capture([createBoard('board-1')], start)).toBe(true);
+    expect(await store.capture([createBoard('board-1')], start + HOUR / 2)).toBe(false);
+    expect(await store.capture([createBoard('board-1')], start + HOUR)).toBe(true);
+    expect(store.listForBoard('board-1')).toHaveLength(2);
+  });
+
+  it('lists only snapshots containing the board, newest first', async () => {
+    const start = Date.UTC(2024, 0, 1, 12);
+    await store.capture([createBoard('board-1', 'First name')], start);
+    await store.capture([createBoard('board-1', 'Second name'), createBoard('board-2')], start + HOUR);
+
+    expect(store.listForBoard('board-1').map(entry => entry.name)).toEqual(['Second name', 'First name']);
+    expect(store.listForBoard('board-2')).toHaveLength(1);
+  });
+
+  it('loads a single board from a snapshot', async () => {
+    await store.capture([createBoard('board-1'), createBoard('board-2')], Date.UTC(2024, 0, 1, 12));
+    const [entry] = store.listForBoard('board-2');
+
+    expect((await store.loadBoard(entry.snapshotId, 'board-2'))?.id).toBe('board-2');
+    expect(await store.loadBoard(entry.snapshotId, 'missing')).toBeUndefined();
+    expect(await store.loadBoard('../boards', 'board-2')).toBeUndefined();
+  });
+
+  it('thins out old snapshots according to the retention policy', async () => {
+    const start = Date.UTC(2024, 0, 1, 0);
+    // One snapshot every hour for three days
+    for (let hour = 0; hour < 72; hour++) {
+      await store.capture([createBoard('board-1')], start + hour * HOUR);
+    }
+
+    const history = store.listForBoard('board-1');
+    // The last 3 hours, plus one per day for the last 2 days
+    expect(history).toHaveLength(4);
+    expect(history[0].createdAt).toBe(start + 71 * HOUR);
+
+    const files = await fs.readdir(testDataDir);
+    expect(files.filter(file => file.startsWith('snapshot-'))).toHaveLength(4);
+  });
+
+  it('keeps the index across restarts', async () => {
+    await store.capture([createBoard('board-1')], Date.UTC(2024, 0, 1, 12));
+
+    const reopened = new SnapshotStore(testDataDir);
+    await reopened.initialize();
+    expect(reopened.listForBoard('board-1')).toHaveLength(1);
+  });
+});
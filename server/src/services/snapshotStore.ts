@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Board, BoardSnapshotInfo } from '../../../shared/src/types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface SnapshotRetention {
+  hourly: number; // Keep the newest snapshot of each of the last N hours
+  daily: number; // Keep the newest snapshot of each of the last N days
+}
+
+interface SnapshotIndexEntry {
+  id: string;
+  createdAt: number;
+  boards: { id: string; name: string; noteCount: number }[];
+}
+
+/**
+ * Timestamped copies of all boards, taken at most once per interval and
+ * thinned out by an hourly/daily retention policy
+ */
+export class SnapshotStore {
+  private snapshotDir: string;
+  private indexFile: string;
+  private retention: SnapshotRetention;
+  private intervalMs: number;
+  private index: SnapshotIndexEntry[] = []; // Newest first
+
+  constructor(
+    snapshotDir: string,
+    retention: SnapshotRetention = { hourly: 24, daily: 30 },
+    intervalMs: number = HOUR_MS
+  ) {
+    this.snapshotDir = snapshotDir;
+    this.indexFile = path.join(snapshotDir, 'index.json');
+    this.retention = retention;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Create the snapshot directory and load the index
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.snapshotDir, { recursive: true });
+    try {
+      const data = await fs.readFile(this.indexFile, 'utf-8');
+      this.index = JSON.parse(data);
+    } catch {
+      this.index = [];
+    }
+  }
+
+  /**
+   * Take a snapshot unless the latest one is newer than the snapshot interval
+   */
+  async capture(boards: Board[], now: number = Date.now()): Promise<boolean> {
+    const latest = this.index[0];
+    if (latest && now - latest.createdAt < this.intervalMs) {
+      return false;
+    }
+
+    const id = String(now);
+    await fs.writeFile(this.getSnapshotFile(id), JSON.stringify(boards), 'utf-8');
+    this.index.unshift({
+      id,
+      createdAt: now,
+      boards: boards.map(board => ({
+        id: board.id,
+        name: board.name,
+        noteCount: board.notes.filter(note => !note.deletedAt).length,
+      })),
+    });
+
+    await this.prune(now);
+    await this.writeIndex();
+    console.log(`Saved snapshot ${id} with ${boards.length} boards`);
+    return true;
+  }
+
+  /**
+   * List the snapshots that contain a board, newest first
+   */
+  listForBoard(boardId: string): BoardSnapshotInfo[] {
+    const history: BoardSnapshotInfo[] = [];
+    for (const entry of this.index) {
+      const board = entry.boards.find(b => b.id === boardId);
+      if (board) {
+        history.push({
+          snapshotId: entry.id,
+          createdAt: entry.createdAt,
+          name: board.name,
+          noteCount: board.noteCount,
+        });
+      }
+    }
+    return history;
+  }
+
+  /**
+   * Read one board, with its notes, from a snapshot
+   */
+  async loadBoard(snapshotId: string, boardId: string): Promise<Board | undefined> {
+    if (!this.index.some(entry => entry.id === snapshotId)) {
+      return undefined;
+    }
+
+    const data = await fs.readFile(this.getSnapshotFile(snapshotId), 'utf-8');
+    const boards: Board[] = JSON.parse(data);
+    return boards.find(board => board.id === boardId);
+  }
+
+  /**
+   * Delete snapshots that no retention bucket needs any more
+   */
+  private async prune(now: number): Promise<void> {
+    const hourBuckets = new Set<number>();
+    const dayBuckets = new Set<number>();
+    const kept: SnapshotIndexEntry[] = [];
+    const removed: SnapshotIndexEntry[] = [];
+
+    this.index.forEach((entry, position) => {
+      const age = now - entry.createdAt;
+      const hour = Math.floor(entry.createdAt / HOUR_MS);
+      const day = Math.floor(entry.createdAt / DAY_MS);
+      let keep = position === 0; // Always keep the latest snapshot
+
+      if (age < this.retention.hourly * HOUR_MS && !hourBuckets.has(hour)) {
+        hourBuckets.add(hour);
+        keep = true;
+      }
+      if (age < this.retention.daily * DAY_MS && !dayBuckets.has(day)) {
+        dayBuckets.add(day);
+        keep = true;
+      }
+
+      (keep ? kept : removed).push(entry);
+    });
+
+    this.index = kept;
+    for (const entry of removed) {
+      try {
+        await fs.unlink(this.getSnapshotFile(entry.id));
+      } catch (error) {
+        console.error(`Failed to delete snapshot ${entry.id}:`, error);
+      }
+    }
+  }
+
+  private async writeIndex(): Promise<void> {
+    const tempFile = `${this.indexFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(this.index, null, 2), 'utf-8');
+    await fs.rename(tempFile, this.indexFile);
+  }
+
+  private getSnapshotFile(snapshotId: string): string {
+    return path.join(this.snapshotDir, `snapshot-${snapshotId}.json`);
+  }
+}
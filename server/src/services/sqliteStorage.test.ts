@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SQLiteStorageBackend } from './sqliteStorage';
+import { promises as fs } from 'fs';
+import { Board, Note } from '../../../shared/src/types';
+
+describe('SQLiteStorageBackend', () => {
+  const testDataDir = './test-data-sqlite';
+  let storage: SQLiteStorageBackend;
+
+  const createNote = (id: string, boardId: string): Note => ({
+    id,
+    boardId,
+    x: 0,
+    y: 0,
+    width: 280,
+    height: 200,
+    content: `Note ${id}`,
+    backgroundColor: '#FFD60A',
+    fontSize: 'medium',
+    isExpanded: true,
+    images: [],
+    stickers: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    version: 1,
+  });
+
+  const createBoard = (id: string, notes: Note[] = []): Board => ({
+    id,
+    name: `Board ${id}`,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    notes,
+  });
+
+  beforeEach(async () => {
+    storage = new SQLiteStorageBackend(testDataDir);
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    try {
+      await fs.rm(testDataDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('loads empty boards from a new database', async () => {
+    const boards = await storage.loadBoards();
+    expect(boards).toEqual([]);
+  });
+
+  it('saves and loads boards with their notes', async () => {
+    await storage.saveBoards([createBoard('board-1', [createNote('note-1', 'board-1')])]);
+    const loaded = await storage.loadBoards();
+
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].name).toBe('Board board-1');
+    expect(loaded[0].notes.map(note => note.id)).toEqual(['note-1']);
+  });
+
+  it('applies incremental changes', async () => {
+    await storage.saveBoards([
+      createBoard('board-1', [createNote('note-1', 'board-1'), createNote('note-2', 'board-1')]),
+      createBoard('board-2', [createNote('note-3', 'board-2')]),
+    ]);
+
+    const changed = { ...createNote('note-1', 'board-1'), content: 'Changed' };
+    await storage.saveChanges(
+      {
+        boards: [],
+        notes: [changed, createNote('note-4', 'board-1')],
+        deletedBoardIds: ['board-2'],
+        deletedNoteIds: ['note-2'],
+      },
+      []
+    );
+
+    const loaded = await storage.loadBoards();
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].notes.map(note => note.id)).toEqual(['note-1', 'note-4']);
+    expect(loaded[0].notes[0].content).toBe('Changed');
+  });
+
+  it('keeps data after reopening the database', async () => {
+    await storage.saveBoards([createBoard('board-1')]);
+    await storage.close();
+
+    storage = new SQLiteStorageBackend(testDataDir);
+    await storage.initialize();
+    expect(await storage.loadBoards()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Board, Note } from '../../../shared/src/types.js';
+import { validateBoard } from '../../../shared/src/validation.js';
+import { StorageBackend, StorageChanges } from './storageBackend.js';
+
+/**
+ * Storage backend that keeps boards and notes as individual rows in SQLite,
+ * so a save only writes what changed.
+ */
+export class SQLiteStorageBackend implements StorageBackend {
+  private dataDir: string;
+  private dbFile: string;
+  private db: Database.Database | null = null;
+
+  constructor(dataDir: string = './data') {
+    this.dataDir = dataDir;
+    this.dbFile = path.join(dataDir, 'boards.db');
+  }
+
+  /**
+   * Open the database and create tables if needed
+   */
+  async initialize(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+    this.db = new Database(this.dbFile);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS boards (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS notes (
+        id TEXT PRIMARY KEY,
+        board_id TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS notes_board_id ON notes (board_id);
+    `);
+    console.log(`SQLite database initialized at: ${this.dbFile}`);
+  }
+
+  /**
+   * Load all boards with their notes
+   */
+  async loadBoards(): Promise<Board[]> {
+    const db = this.getDb();
+    const notesByBoard = new Map<string, Note[]>();
+
+    const noteRows = db.prepare('SELECT board_id, data FROM notes ORDER BY rowid').all() as {
+      board_id: string;
+      data: string;
+    }[];
+    for (const row of noteRows) {
+      const notes = notesByBoard.get(row.board_id) || [];
+      notes.push(JSON.parse(row.data));
+      notesByBoard.set(row.board_id, notes);
+    }
+
+    const boardRows = db.prepare('SELECT data FROM boards ORDER BY rowid').all() as { data: string }[];
+    const validBoards: Board[] = [];
+    for (const row of boardRows) {
+      const board = { ...JSON.parse(row.data), notes: [] } as Board;
+      board.notes = notesByBoard.get(board.id) || [];
+      try {
+        validateBoard(board);
+        validBoards.push(board);
+      } catch (error) {
+        console.error(`Invalid board data, skipping:`, error);
+      }
+    }
+
+    console.log(`Loaded ${validBoards.length} boards from SQLite`);
+    return validBoards;
+  }
+
+  /**
+   * Replace all stored boards and notes
+   */
+  async saveBoards(boards: Board[]): Promise<void> {
+    const db = this.getDb();
+    db.transaction(() => {
+      db.prepare('DELETE FROM notes').run();
+      db.prepare('DELETE FROM boards').run();
+      for (const board of boards) {
+        this.writeBoard(board);
+        for (const note of board.notes) {
+          this.writeNote(note);
+        }
+      }
+    })();
+
+    console.log(`Saved ${boards.length} boards to SQLite`);
+  }
+
+  /**
+   * Write only the boards and notes that changed, in one transaction
+   */
+  async saveChanges(changes: StorageChanges, _boards: Board[]): Promise<void> {
+    const db = this.getDb();
+    db.transaction(() => {
+      for (const boardId of changes.deletedBoardIds) {
+        db.prepare('DELETE FROM notes WHERE board_id = ?').run(boardId);
+        db.prepare('DELETE FROM boards WHERE id = ?').run(boardId);
+      }
+      for (const noteId of changes.deletedNoteIds) {
+        db.prepare('DELETE FROM notes WHERE id = ?').run(noteId);
+      }
+      for (const board of changes.boards) {
+        this.writeBoard(board);
+      }
+      for (const note of changes.notes) {
+        this.writeNote(note);
+      }
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private writeBoard(board: Board): void {
+    const { notes: _notes, ...data } = board;
+    this.getDb()
+      .prepare('INSERT INTO boards (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data')
+      .run(board.id, JSON.stringify(data));
+  }
+
+  private writeNote(note: Note): void {
+    this.getDb()
+      .prepare(
+        'INSERT INTO notes (id, board_id, data) VALUES (?, ?, ?) ' +
+        'ON CONFLICT (id) DO UPDATE SET board_id = excluded.board_id, data = excluded.data'
+      )
+      .run(note.id, note.boardId, JSON.stringify(note));
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite storage has not been initialized');
+    }
+    return this.db;
+  }
+}
@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { StateManager } from './stateManager';
 import { PersistenceService } from './persistence';
+import { Journal } from './journal';
+import { SnapshotStore } from './snapshotStore';
+import { promises as fs } from 'fs';
 import { ValidationError } from '../../../shared/src/validation';
+import { AccessDeniedError } from '../../../shared/src/access';
 
 describe('StateManager', () => {
   let stateManager: StateManager;
@@ -78,6 +82,15 @@ describe('StateManager', () => {
       expect(note?.y).toBe(200);
     });
 
+    it('keeps an ID chosen by the client unless it is taken', () => {
+      const note = stateManager.createNote(boardId, 100, 200, undefined, 'offline-note-1');
+      expect(note?.id).toBe('offline-note-1');
+
+      // Still taken while the note is in the trash
+      stateManager.deleteNote('offline-note-1');
+      expect(() => stateManager.createNote(boardId, 0, 0, undefined, 'offline-note-1')).toThrow(ValidationError);
+    });
+
     it('gets notes for a board', () => {
       stateManager.createNote(boardId, 100, 200);
       stateManager.createNote(boardId, 300, 400);
@@ -105,4 +118,650 @@ describe('StateManager', () => {
       expect(stateManager.getNote(note!.id)).toBeUndefined();
     });
   });
+
+  describe('Collaborative Content Edits', () => {
+    let noteId: string;
+
+    beforeEach(() => {
+      const board = stateManager.createBoard('Test Board');
+      const note = stateManager.createNote(board.id, 100, 200);
+      noteId = note!.id;
+      stateManager.applyNoteEdit(noteId, 0, ['Went well']);
+    });
+
+    it('applies an edit and increments the content revision', () => {
+      const note = stateManager.getNote(noteId);
+      expect(note?.content).toBe('Went well');
+      expect(note?.contentRevision).toBe(1);
+    });
+
+    it('merges concurrent edits based on the same revision', () => {
+      stateManager.applyNoteEdit(noteId, 1, [4, ' really', 5]);
+      const result = stateManager.applyNoteEdit(noteId, 1, [9, '!']);
+
+      expect(result?.note.content).toBe('Went really well!');
+      expect(result?.note.contentRevision).toBe(3);
+      expect(result?.operation).toEqual([16, '!']);
+    });
+
+    it('keeps plain content updates in the edit history', () => {
+      stateManager.updateNote(noteId, { content: 'Went well today' });
+      const result = stateManager.applyNoteEdit(noteId, 1, ['Retro: ', 9]);
+
+      expect(result?.note.content).toBe('Retro: Went well today');
+    });
+
+    it('leaves the note and its edit history alone when an update is invalid', () => {
+      expect(stateManager.updateNote(noteId, { content: 'Went badly', width: -10 })).toBeUndefined();
+      expect(stateManager.getNote(noteId)).toMatchObject({ content: 'Went well', contentRevision: 1, version: 2 });
+
+      // Edits based on the current revision apply against the accepted text
+      const result = stateManager.applyNoteEdit(noteId, 1, [9, '!']);
+      expect(result?.note.content).toBe('Went well!');
+    });
+
+    it('rejects edits based on an unknown revision', () => {
+      expect(() => stateManager.applyNoteEdit(noteId, 5, [9, '!'])).toThrow(ValidationError);
+    });
+  });
+
+  describe('Stale Update Detection', () => {
+    let noteId: string;
+
+    beforeEach(() => {
+      const board = stateManager.createBoard('Test Board');
+      const note = stateManager.createNote(board.id, 100, 200);
+      noteId = note!.id;
+      stateManager.updateNote(noteId, { backgroundColor: 'pink' }, 'user-a');
+    });
+
+    it('allows updates to fields nobody else changed', () => {
+      expect(stateManager.getConflictingFields(noteId, { content: 'Hi' }, 1, 'user-b')).toEqual([]);
+    });
+
+    it('reports fields changed by another user since the base version', () => {
+      expect(stateManager.getConflictingFields(noteId, { backgroundColor: 'blue' }, 1, 'user-b')).toEqual(['backgroundColor']);
+    });
+
+    it('ignores fields the same user changed', () => {
+      expect(stateManager.getConflictingFields(noteId, { backgroundColor: 'blue' }, 1, 'user-a')).toEqual([]);
+    });
+
+    it('allows updates based on the current version', () => {
+      const note = stateManager.getNote(noteId);
+      expect(stateManager.getConflictingFields(noteId, { backgroundColor: 'blue' }, note!.version, 'user-b')).toEqual([]);
+    });
+  });
+
+  describe('Undo/Redo', () => {
+    let boardId: string;
+
+    beforeEach(() => {
+      boardId = stateManager.createBoard('Test Board').id;
+    });
+
+    it('undoes and redoes a move', () => {
+      const note = stateManager.createNote(boardId, 100, 200, 'user-a');
+      stateManager.moveNote(note!.id, 300, 400, 'user-a');
+
+      const undone = stateManager.undo(boardId, 'user-a');
+      expect(undone?.action).toBe('updated');
+      expect(stateManager.getNote(note!.id)).toMatchObject({ x: 100, y: 200 });
+
+      stateManager.redo(boardId, 'user-a');
+      expect(stateManager.getNote(note!.id)).toMatchObject({ x: 300, y: 400 });
+    });
+
+    it('restores a deleted note', () => {
+      const note = stateManager.createNote(boardId, 100, 200, 'user-a');
+      stateManager.updateNote(note!.id, { content: 'Keep me' }, 'user-a');
+      stateManager.deleteNote(note!.id, 'user-a');
+
+      const undone = stateManager.undo(boardId, 'user-a');
+      expect(undone?.action).toBe('created');
+      expect(stateManager.getNote(note!.id)?.content).toBe('Keep me');
+      expect(stateManager.getNotes(boardId)).toHaveLength(1);
+    });
+
+    it('restores the connectors removed with a deleted note', () => {
+      const source = stateManager.createNote(boardId, 100, 200);
+      const target = stateManager.createNote(boardId, 300, 200);
+      const connector = stateManager.createConnector({ boardId, sourceNoteId: source!.id, targetNoteId: target!.id });
+      stateManager.deleteNote(target!.id, 'user-a');
+      expect(stateManager.getConnector(connector!.id)).toBeUndefined();
+
+      const undone = stateManager.undo(boardId, 'user-a');
+      expect(undone?.connectors?.map(c => c.id)).toEqual([connector!.id]);
+      expect(stateManager.getConnector(connector!.id)).toMatchObject({ sourceNoteId: source!.id });
+
+      stateManager.redo(boardId, 'user-a');
+      expect(stateManager.getConnector(connector!.id)).toBeUndefined();
+      stateManager.undo(boardId, 'user-a');
+      expect(stateManager.getConnector(connector!.id)).toBeDefined();
+    });
+
+    it('removes a created note and redoes the creation', () => {
+      const note = stateManager.createNote(boardId, 100, 200, 'user-a');
+
+      expect(stateManager.undo(boardId, 'user-a')?.action).toBe('deleted');
+      expect(stateManager.getNote(note!.id)).toBeUndefined();
+
+      expect(stateManager.redo(boardId, 'user-a')?.action).toBe('created');
+      expect(stateManager.getNote(note!.id)).toBeDefined();
+    });
+
+    it('only undoes the requesting user\'s operations', () => {
+      const note = stateManager.createNote(boardId, 100, 200, 'user-a');
+      stateManager.updateNote(note!.id, { backgroundColor: '#FF453A' }, 'user-b');
+
+      stateManager.undo(boardId, 'user-a');
+      expect(stateManager.getNote(note!.id)).toBeUndefined();
+      expect(stateManager.undo(boardId, 'user-b')).toBeUndefined();
+    });
+
+    it('clears redo history after a new operation', () => {
+      const note = stateManager.createNote(boardId, 100, 200, 'user-a');
+      stateManager.moveNote(note!.id, 300, 400, 'user-a');
+      stateManager.undo(boardId, 'user-a');
+      stateManager.moveNote(note!.id, 500, 600, 'user-a');
+
+      expect(stateManager.redo(boardId, 'user-a')).toBeUndefined();
+    });
+  });
+
+  describe('Connectors', () => {
+    it('connects notes on the same board with default style', () => {
+      const board = stateManager.createBoard('Mind Map');
+      const source = stateManager.createNote(board.id, 0, 0)!;
+      const target = stateManager.createNote(board.id, 300, 0)!;
+
+      const connector = stateManager.createConnector({ boardId: board.id, sourceNoteId: source.id, targetNoteId: target.id })!;
+      expect(connector).toMatchObject({ label: '', style: 'solid', arrowheads: 'end' });
+      expect(stateManager.getBoard(board.id)?.connectors).toEqual([connector]);
+
+      const updated = stateManager.updateConnector(connector.id, { label: 'depends on', style: 'dashed' });
+      expect(updated).toMatchObject({ label: 'depends on', style: 'dashed', arrowheads: 'end' });
+
+      expect(stateManager.deleteConnector(connector.id)?.id).toBe(connector.id);
+      expect(stateManager.getConnector(connector.id)).toBeUndefined();
+    });
+
+    it('refuses to connect notes on different boards', () => {
+      const first = stateManager.createBoard('First');
+      const second = stateManager.createBoard('Second');
+      const source = stateManager.createNote(first.id, 0, 0)!;
+      const target = stateManager.createNote(second.id, 0, 0)!;
+
+      expect(() => stateManager.createConnector({
+        boardId: first.id,
+        sourceNoteId: source.id,
+        targetNoteId: target.id,
+      })).toThrow(ValidationError);
+    });
+
+    it('removes connectors when a connected note is deleted', () => {
+      const board = stateManager.createBoard('Mind Map');
+      const [a, b, c] = [0, 1, 2].map(i => stateManager.createNote(board.id, i * 300, 0)!);
+      stateManager.createConnector({ boardId: board.id, sourceNoteId: a.id, targetNoteId: b.id });
+      const kept = stateManager.createConnector({ boardId: board.id, sourceNoteId: b.id, targetNoteId: c.id })!;
+      stateManager.createConnector({ boardId: board.id, sourceNoteId: c.id, targetNoteId: a.id });
+
+      stateManager.deleteNote(a.id);
+
+      expect(stateManager.getBoard(board.id)?.connectors).toEqual([kept]);
+    });
+  });
+
+  describe('Bulk note operations', () => {
+    let boardId: string;
+    let noteIds: string[];
+
+    beforeEach(() => {
+      boardId = stateManager.createBoard('Bulk Board').id;
+      noteIds = [0, 1, 2].map(i => stateManager.createNote(boardId, i * 300, 100)!.id);
+    });
+
+    it('moves every note by the same offset', () => {
+      const result = stateManager.applyBulkNoteOperation({ boardId, noteIds, operation: { type: 'move', dx: 20, dy: -10 } })!;
+
+      expect(result.notes.map(note => [note.x, note.y])).toEqual([[20, 90], [320, 90], [620, 90]]);
+      expect(result.deletedNoteIds).toEqual([]);
+    });
+
+    it('recolours and deletes notes together', () => {
+      const recoloured = stateManager.applyBulkNoteOperation({
+        boardId,
+        noteIds: noteIds.slice(0, 2),
+        operation: { type: 'update', updates: { backgroundColor: '#0A84FF', fontSize: 'large' } },
+      })!;
+      expect(recoloured.notes.every(note => note.backgroundColor === '#0A84FF' && note.fontSize === 'large')).toBe(true);
+
+      const deleted = stateManager.applyBulkNoteOperation({ boardId, noteIds, operation: { type: 'delete' } })!;
+      expect(deleted.deletedNoteIds).toEqual(noteIds);
+      expect(stateManager.getNotes(boardId)).toHaveLength(0);
+    });
+
+    it('changes nothing when any note is not on the board', () => {
+      const other = stateManager.createBoard('Other');
+      const stray = stateManager.createNote(other.id, 0, 0)!;
+
+      expect(() => stateManager.applyBulkNoteOperation({
+        boardId,
+        noteIds: [...noteIds, stray.id],
+        operation: { type: 'delete' },
+      })).toThrow(ValidationError);
+      expect(stateManager.getNotes(boardId)).toHaveLength(3);
+    });
+  });
+
+  describe('Frames', () => {
+    it('creates, renames, collapses and deletes a frame', () => {
+      const board = stateManager.createBoard('Retro');
+      const frame = stateManager.createFrame({ boardId: board.id, name: ' Went well ', x: 0, y: 0, width: 800, height: 600 })!;
+      expect(frame).toMatchObject({ name: 'Went well', collapsed: false });
+      expect(stateManager.getBoard(board.id)?.frames).toEqual([frame]);
+
+      const updated = stateManager.updateFrame(frame.id, { name: 'To improve', collapsed: true });
+      expect(updated).toMatchObject({ name: 'To improve', collapsed: true, x: 0, y: 0 });
+      expect(() => stateManager.updateFrame(frame.id, { width: -1 })).toThrow(ValidationError);
+
+      expect(stateManager.deleteFrame(frame.id)?.id).toBe(frame.id);
+      expect(stateManager.getFrame(frame.id)).toBeUndefined();
+    });
+
+    it('moves the notes inside a frame along with it', () => {
+      const board = stateManager.createBoard('Retro');
+      const frame = stateManager.createFrame({ boardId: board.id, name: 'Went well', x: 0, y: 0, width: 800, height: 600 })!;
+      const inside = stateManager.createNote(board.id, 100, 100)!;
+      const outside = stateManager.createNote(board.id, 1000, 100)!;
+
+      const result = stateManager.moveFrame(frame.id, 50, -20, 'user-1')!;
+
+      expect(result.frame).toMatchObject({ x: 50, y: -20 });
+      expect(result.notes).toEqual([{ noteId: inside.id, x: 150, y: 80 }]);
+      expect(stateManager.getNote(inside.id)).toMatchObject({ x: 150, y: 80 });
+      expect(stateManager.getNote(outside.id)).toMatchObject({ x: 1000, y: 100 });
+    });
+
+    it('leaves the notes in place when a frame is deleted', () => {
+      const board = stateManager.createBoard('Retro');
+      const frame = stateManager.createFrame({ boardId: board.id, name: 'Went well', x: 0, y: 0, width: 800, height: 600 })!;
+      const note = stateManager.createNote(board.id, 100, 100)!;
+
+      stateManager.deleteFrame(frame.id);
+
+      expect(stateManager.getNote(note.id)).toMatchObject({ x: 100, y: 100 });
+      expect(stateManager.getBoard(board.id)?.frames).toEqual([]);
+    });
+  });
+
+  describe('Batches', () => {
+    it('applies operations in order and reports what changed', () => {
+      const board = stateManager.createBoard('Batch Board');
+      const first = stateManager.createNote(board.id, 0, 0)!;
+      const second = stateManager.createNote(board.id, 400, 0)!;
+      const untouched = stateManager.createNote(board.id, 800, 0)!;
+      const connector = stateManager.createConnector({ boardId: board.id, sourceNoteId: first.id, targetNoteId: second.id })!;
+
+      const result = stateManager.applyBatch({
+        boardId: board.id,
+        operations: [
+          { type: 'note:create', payload: { boardId: board.id, x: 100, y: 500 } },
+          { type: 'note:update', payload: { noteId: first.id, updates: { content: 'Plan' } } },
+          { type: 'note:move', payload: { noteId: first.id, x: 50, y: 60 } },
+          { type: 'note:delete', payload: { noteId: second.id } },
+          { type: 'frame:create', payload: { boardId: board.id, name: 'Sprint', x: 0, y: 0, width: 600, height: 400 } },
+        ],
+      }, 'user-a')!;
+
+      expect(result.notes.map(note => note.id)).toHaveLength(2);
+      expect(result.notes.find(note => note.id === first.id)).toMatchObject({ content: 'Plan', x: 50, y: 60 });
+      expect(result.notes.some(note => note.id === untouched.id)).toBe(false);
+      expect(result.deletedNoteIds).toEqual([second.id]);
+      expect(result.deletedConnectorIds).toEqual([connector.id]);
+      expect(result.frames.map(frame => frame.name)).toEqual(['Sprint']);
+      expect(stateManager.getNotes(board.id)).toHaveLength(3);
+    });
+
+    it('rolls everything back when an operation fails', () => {
+      const board = stateManager.createBoard('Batch Board');
+      const note = stateManager.createNote(board.id, 0, 0)!;
+      const other = stateManager.createNote(board.id, 400, 0)!;
+      stateManager.createConnector({ boardId: board.id, sourceNoteId: note.id, targetNoteId: other.id });
+      const before = structuredClone(stateManager.getBoard(board.id));
+
+      expect(() => stateManager.applyBatch({
+        boardId: board.id,
+        operations: [
+          { type: 'note:update', payload: { noteId: note.id, updates: { content: 'Changed' } } },
+          { type: 'note:delete', payload: { noteId: other.id } },
+          { type: 'note:create', payload: { boardId: board.id, x: 0, y: 0 } },
+          { type: 'note:move', payload: { noteId: 'missing', x: 0, y: 0 } },
+        ],
+      }, 'user-a')).toThrow('Batch operation 4 (note:move) failed: Note not found on this board');
+
+      expect(stateManager.getBoard(board.id)).toEqual(before);
+      expect(stateManager.getNote(note.id)).toMatchObject({ content: '', version: 1 });
+      expect(stateManager.getNote(other.id)).toBeDefined();
+      expect(stateManager.getTrash().notes).toHaveLength(0);
+      expect(stateManager.getHistoryState(board.id, 'user-a').canUndo).toBe(false);
+    });
+
+    it('keeps each note change undoable after a batch succeeds', () => {
+      const board = stateManager.createBoard('Batch Board');
+      const note = stateManager.createNote(board.id, 0, 0)!;
+
+      stateManager.applyBatch({
+        boardId: board.id,
+        operations: [
+          { type: 'note:move', payload: { noteId: note.id, x: 10, y: 10 } },
+          { type: 'note:update', payload: { noteId: note.id, updates: { backgroundColor: '#FF453A' } } },
+        ],
+      }, 'user-a');
+
+      expect(stateManager.undo(board.id, 'user-a')?.note.backgroundColor).toBe('#FFD60A');
+      expect(stateManager.undo(board.id, 'user-a')?.note).toMatchObject({ x: 0, y: 0 });
+    });
+  });
+
+  describe('Sync', () => {
+    it('sends the whole board without a cursor', () => {
+      const board = stateManager.createBoard('Board');
+      stateManager.createNote(board.id, 0, 0);
+
+      const response = stateManager.getBoardSync(board.id);
+      expect(response?.board?.notes).toHaveLength(1);
+      expect(response?.delta).toBeUndefined();
+    });
+
+    it('sends only the notes changed or deleted since the cursor', () => {
+      const board = stateManager.createBoard('Board');
+      const unchanged = stateManager.createNote(board.id, 0, 0)!;
+      const moved = stateManager.createNote(board.id, 0, 0)!;
+      const deleted = stateManager.createNote(board.id, 0, 0)!;
+      const { cursor } = stateManager.getBoardSync(board.id)!;
+
+      stateManager.moveNote(moved.id, 50, 50);
+      stateManager.deleteNote(deleted.id);
+      const added = stateManager.createNote(board.id, 10, 10)!;
+      stateManager.renameBoard(board.id, 'Renamed');
+
+      const response = stateManager.getBoardSync(board.id, cursor)!;
+      expect(response.board).toBeUndefined();
+      expect(response.delta?.board.name).toBe('Renamed');
+      expect(response.delta?.notes.map(note => note.id)).toEqual([moved.id, added.id]);
+      expect(response.delta?.deletedNoteIds).toEqual([deleted.id]);
+      expect(response.delta?.notes.map(note => note.id)).not.toContain(unchanged.id);
+      expect(response.cursor.seq).toBeGreaterThan(cursor.seq);
+    });
+
+    it('falls back to the whole board for a cursor from before a restart', () => {
+      const board = stateManager.createBoard('Board');
+      const response = stateManager.getBoardSync(board.id, { epoch: 'before-restart', seq: 10 });
+      expect(response?.board?.id).toBe(board.id);
+    });
+  });
+
+  describe('Trash', () => {
+    let boardId: string;
+
+    beforeEach(() => {
+      boardId = stateManager.createBoard('Test Board').id;
+    });
+
+    it('moves deleted notes to the trash', () => {
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteNote(note!.id);
+
+      expect(stateManager.getNotes(boardId)).toHaveLength(0);
+      const trash = stateManager.getTrash();
+      expect(trash.notes).toHaveLength(1);
+      expect(trash.notes[0].deletedAt).toBeDefined();
+    });
+
+    it('restores a trashed note', () => {
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteNote(note!.id);
+
+      const restored = stateManager.restoreNote(note!.id);
+      expect(restored?.deletedAt).toBeUndefined();
+      expect(stateManager.getNotes(boardId)).toHaveLength(1);
+      expect(stateManager.getTrash().notes).toHaveLength(0);
+    });
+
+    it('restores a trashed board with its notes', () => {
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteBoard(boardId);
+
+      expect(stateManager.getAllBoards()).toHaveLength(0);
+      expect(stateManager.getNote(note!.id)).toBeUndefined();
+      expect(stateManager.getTrash().boards).toHaveLength(1);
+
+      stateManager.restoreBoard(boardId);
+      expect(stateManager.getBoard(boardId)).toBeDefined();
+      expect(stateManager.getNote(note!.id)).toBeDefined();
+    });
+
+    it('does not restore a note while its board is trashed', () => {
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteNote(note!.id);
+      stateManager.deleteBoard(boardId);
+
+      expect(() => stateManager.restoreNote(note!.id)).toThrow(ValidationError);
+    });
+
+    it('purges items past the retention period', () => {
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteNote(note!.id);
+
+      expect(stateManager.purgeExpiredTrash()).toBe(0);
+      expect(stateManager.purgeExpiredTrash(Date.now() + 31 * 24 * 60 * 60 * 1000)).toBe(1);
+      expect(stateManager.restoreNote(note!.id)).toBeUndefined();
+    });
+
+    it('passes only changed boards and notes to the storage backend', async () => {
+      const saveChanges = vi.spyOn(persistenceService, 'saveChanges');
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteNote(note!.id);
+      stateManager.purgeExpiredTrash(Date.now() + 31 * 24 * 60 * 60 * 1000);
+      await stateManager.saveToDisk();
+
+      const [changes] = saveChanges.mock.calls[0];
+      expect(changes.boards.map(board => board.id)).toEqual([boardId]);
+      expect(changes.notes).toEqual([]);
+      expect(changes.deletedNoteIds).toEqual([note!.id]);
+    });
+
+    it('saves trashed items alongside live data', async () => {
+      const note = stateManager.createNote(boardId, 100, 200);
+      stateManager.deleteNote(note!.id);
+      await stateManager.saveToDisk();
+
+      const [saved] = vi.mocked(persistenceService.saveBoards).mock.calls[0][0];
+      expect(saved.notes).toHaveLength(1);
+      expect(saved.notes[0].deletedAt).toBeDefined();
+    });
+  });
+
+  describe('Access Control', () => {
+    it('gives the creator ownership and checks roles', () => {
+      const board = stateManager.createBoard('Team Board', 'alice');
+      stateManager.setBoardAcl(board.id, { editors: ['bob'], viewers: ['carol', 'bob'] });
+
+      expect(board.acl).toEqual({ owner: 'alice', editors: ['bob'], viewers: ['carol'] });
+      expect(() => stateManager.assertBoardRole(board.id, 'bob', 'editor')).not.toThrow();
+      expect(() => stateManager.assertBoardRole(board.id, 'carol', 'editor')).toThrow(AccessDeniedError);
+      expect(() => stateManager.assertBoardRole(board.id, 'bob', 'owner')).toThrow(AccessDeniedError);
+      expect(() => stateManager.assertBoardRole(board.id, 'dave', 'viewer')).toThrow(AccessDeniedError);
+    });
+
+    it('checks notes against their board, including trashed ones', () => {
+      const board = stateManager.createBoard('Team Board', 'alice');
+      const note = stateManager.createNote(board.id, 0, 0)!;
+      stateManager.deleteNote(note.id);
+
+      expect(() => stateManager.assertNoteRole(note.id, 'alice', 'editor')).not.toThrow();
+      expect(() => stateManager.assertNoteRole(note.id, 'mallory', 'editor')).toThrow(AccessDeniedError);
+    });
+
+    it('leaves boards without an ACL open to everyone', () => {
+      const board = stateManager.createBoard('Legacy Board');
+
+      expect(board.acl).toBeUndefined();
+      expect(() => stateManager.assertBoardRole(board.id, 'anyone', 'owner')).not.toThrow();
+      expect(stateManager.setBoardAcl(board.id, { editors: [], viewers: [] })).toBeUndefined();
+    });
+  });
+
+  describe('Journal Recovery', () => {
+    const journalDir = './test-data-state-journal';
+    const journalFile = `${journalDir}/journal.log`;
+    let storage: PersistenceService;
+
+    const startManager = async () => {
+      const manager = new StateManager(storage, { journal: new Journal(journalFile) });
+      await manager.loadFromDisk();
+      return manager;
+    };
+
+    beforeEach(() => {
+      storage = new PersistenceService(journalDir);
+      vi.spyOn(storage, 'initialize').mockResolvedValue();
+      vi.spyOn(storage, 'loadBoards').mockResolvedValue([]);
+      vi.spyOn(storage, 'saveBoards').mockResolvedValue();
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.rm(journalDir, { recursive: true, force: true });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('replays changes made since the last save after a crash', async () => {
+      const crashed = await startManager();
+      const board = crashed.createBoard('Recovered');
+      const note = crashed.createNote(board.id, 10, 20);
+      crashed.updateNote(note!.id, { content: 'Unsaved text' });
+      const removed = crashed.createNote(board.id, 30, 40);
+      crashed.deleteNote(removed!.id);
+      // Simulate a crash: no save, no shutdown
+      crashed['journal']?.close();
+
+      const recovered = await startManager();
+      expect(recovered.getBoard(board.id)?.name).toBe('Recovered');
+      expect(recovered.getNote(note!.id)?.content).toBe('Unsaved text');
+      expect(recovered.getTrash().notes.map(n => n.id)).toEqual([removed!.id]);
+      await recovered.shutdown();
+    });
+
+    it('journals only the board fields a change touches', async () => {
+      const crashed = await startManager();
+      const board = crashed.createBoard('Before');
+      crashed.renameBoard(board.id, 'After');
+      crashed.createNote(board.id, 10, 20);
+      crashed['journal']?.close();
+
+      const entries = new Journal(journalFile).read();
+      expect(entries.slice(1).map(entry => entry.type)).toEqual(['boardPatch', 'boardPatch', 'note']);
+      expect(entries[1]).toMatchObject({ fields: { name: 'After' } });
+      expect(Object.keys((entries[2] as { fields: object }).fields)).toEqual(['updatedAt']);
+
+      const recovered = await startManager();
+      expect(recovered.getBoard(board.id)?.name).toBe('After');
+      expect(recovered.getNotes(board.id)).toHaveLength(1);
+      await recovered.shutdown();
+    });
+
+    it('clears the journal once changes are saved', async () => {
+      const manager = await startManager();
+      manager.createBoard('Saved');
+      await manager.saveToDisk();
+      await manager.shutdown();
+
+      expect(await fs.readFile(journalFile, 'utf-8')).toBe('');
+    });
+  });
+
+  describe('Snapshot History', () => {
+    const snapshotDir = './test-data-state-snapshots';
+    let manager: StateManager;
+
+    beforeEach(async () => {
+      manager = new StateManager(persistenceService, { snapshots: new SnapshotStore(snapshotDir) });
+      await manager.loadFromDisk();
+    });
+
+    afterEach(async () => {
+      await manager.shutdown();
+      try {
+        await fs.rm(snapshotDir, { recursive: true, force: true });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it('restores one board from a snapshot without touching others', async () => {
+      const board = manager.createBoard('Restored');
+      const other = manager.createBoard('Other');
+      const kept = manager.createNote(board.id, 10, 20);
+      manager.updateNote(kept!.id, { content: 'Before' });
+      await manager.saveToDisk();
+
+      const [entry] = manager.getBoardHistory(board.id);
+      expect(entry.name).toBe('Restored');
+
+      manager.updateNote(kept!.id, { content: 'After' });
+      const added = manager.createNote(board.id, 30, 40);
+      manager.renameBoard(board.id, 'Renamed');
+      manager.renameBoard(other.id, 'Other renamed');
+
+      const restored = await manager.restoreBoardFromSnapshot(board.id, entry.snapshotId);
+      expect(restored?.name).toBe('Restored');
+      expect(manager.getNotes(board.id).map(note => note.id)).toEqual([kept!.id]);
+      expect(manager.getNote(kept!.id)?.content).toBe('Before');
+      expect(manager.getNote(kept!.id)?.version).toBeGreaterThan(3);
+      expect(manager.getNote(added!.id)).toBeUndefined();
+      expect(manager.getBoard(other.id)?.name).toBe('Other renamed');
+    });
+
+    it('brings a trashed board back from a snapshot', async () => {
+      const board = manager.createBoard('Trashed later');
+      await manager.saveToDisk();
+      manager.deleteBoard(board.id);
+
+      const [entry] = manager.getBoardHistory(board.id);
+      await manager.restoreBoardFromSnapshot(board.id, entry.snapshotId);
+      expect(manager.getBoard(board.id)).toBeDefined();
+      expect(manager.getTrash().boards).toHaveLength(0);
+    });
+
+    it('keeps who has access now rather than who had it in the snapshot', async () => {
+      const board = manager.createBoard('Shared', 'owner-1');
+      manager.setBoardAcl(board.id, { editors: ['editor-1'], viewers: ['viewer-1'] });
+      await manager.saveToDisk();
+      manager.setBoardAcl(board.id, { editors: [], viewers: [] });
+
+      const [entry] = manager.getBoardHistory(board.id);
+      await manager.restoreBoardFromSnapshot(board.id, entry.snapshotId);
+      expect(manager.getBoard(board.id)?.acl).toEqual({ owner: 'owner-1', editors: [], viewers: [] });
+    });
+
+    it('keeps the access list of a board whose snapshot predates access control', async () => {
+      const board = manager.createBoard('Legacy');
+      await manager.saveToDisk();
+      // As if the board had been claimed since
+      manager.getBoard(board.id)!.acl = { owner: 'owner-1', editors: [], viewers: [] };
+
+      const [entry] = manager.getBoardHistory(board.id);
+      await manager.restoreBoardFromSnapshot(board.id, entry.snapshotId);
+      expect(manager.getBoard(board.id)?.acl).toEqual({ owner: 'owner-1', editors: [], viewers: [] });
+    });
+
+    it('returns undefined for an unknown snapshot', async () => {
+      const board = manager.createBoard('Board');
+      expect(await manager.restoreBoardFromSnapshot(board.id, '12345')).toBeUndefined();
+    });
+  });
 });
@@ -1,18 +1,110 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Board, Note } from '../../../shared/src/types.js';
-import { validateBoard, validateNote, ValidationError } from '../../../shared/src/validation.js';
-import { PersistenceService } from './persistence.js';
+import {
+  BatchOperation,
+  BatchPayload,
+  BatchResultPayload,
+  Board,
+  BoardRole,
+  BoardSequence,
+  BulkNotePayload,
+  BulkNoteResultPayload,
+  BoardSnapshotInfo,
+  Connector,
+  CreateConnectorPayload,
+  CreateFramePayload,
+  Frame,
+  FrameMovedPayload,
+  InviteRole,
+  Note,
+  SyncCursor,
+  SyncResponsePayload,
+  TextOperation,
+  TrashContents,
+  UpdateBoardAclPayload,
+  UpdateConnectorPayload,
+  UpdateFramePayload,
+} from '../../../shared/src/types.js';
+import {
+  validateBoard,
+  validateConnector,
+  validateFrame,
+  validateNote,
+  ValidationError,
+} from '../../../shared/src/validation.js';
+import {
+  applyTextOperation,
+  diffTextOperation,
+  isNoopTextOperation,
+  transformTextOperations,
+} from '../../../shared/src/textOperation.js';
+import { AccessDeniedError, hasBoardRole } from '../../../shared/src/access.js';
+import { getFrameNotes } from '../../../shared/src/frames.js';
+import { StorageBackend, StorageChanges } from './storageBackend.js';
+import { NoteOperation, OperationLog } from './operationLog.js';
+import { Journal, JournalEntry } from './journal.js';
+import { SnapshotStore } from './snapshotStore.js';
+import { ChangeLog } from './changeLog.js';
+
+export interface HistoryResult {
+  action: 'created' | 'updated' | 'deleted';
+  note: Note;
+  connectors?: Connector[]; // Put back along with a restored note
+}
+
+const DEFAULT_TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface StateManagerOptions {
+  trashRetentionMs?: number; // How long deleted boards and notes stay in the trash
+  journal?: Journal; // Write-ahead journal of changes between saves
+  snapshots?: SnapshotStore; // Point-in-time copies of all boards
+}
+
+interface NoteFieldChanges {
+  trackedSince: number; // Note version when tracking started; older bases cannot be rebased
+  fields: Map<string, { version: number; userId?: string }>;
+}
+
+// Copy of a board and its notes' edit history, to roll a failed batch back to
+interface BoardCheckpoint {
+  board: Board;
+  trashedNoteIds: Set<string>; // The board's notes that were already in the trash
+  contentHistory: Map<string, TextOperation[]>;
+  fieldChanges: Map<string, NoteFieldChanges>;
+}
 
 export class StateManager {
   private boards: Map<string, Board> = new Map();
   private notes: Map<string, Note> = new Map();
-  private persistenceService: PersistenceService;
+  private storage: StorageBackend;
   private autoSaveInterval: NodeJS.Timeout | null = null;
   private isDirty: boolean = false;
   private isSaving: boolean = false; // Lock to prevent concurrent saves
+  // Boards and notes changed since the last save, for incremental storage backends
+  private changedBoardIds: Set<string> = new Set();
+  private changedNoteIds: Set<string> = new Set();
+  // Recent content operations per note, used to transform concurrent edits
+  private contentHistory: Map<string, TextOperation[]> = new Map();
+  private readonly contentHistoryLimit: number = 500;
+  // Version and author of the last change to each note field, used to rebase stale updates
+  private fieldChanges: Map<string, NoteFieldChanges> = new Map();
+  // Per-user undo/redo history of note operations
+  private operationLog: OperationLog = new OperationLog();
+  private isApplyingHistory: boolean = false; // Don't record undo/redo as new operations
+  private batchOperations: NoteOperation[] | null = null; // Held back until a batch succeeds
+  // Sequence numbers of the changes to each board, for delta syncs
+  private changeLog: ChangeLog = new ChangeLog();
+  // Soft-deleted boards and notes, kept until the retention period expires
+  private trashedBoards: Map<string, Board> = new Map();
+  private trashedNotes: Map<string, Note> = new Map();
+  private readonly trashRetentionMs: number;
+  private journal: Journal | null;
+  private snapshots: SnapshotStore | null;
 
-  constructor(persistenceService: PersistenceService) {
-    this.persistenceService = persistenceService;
+  constructor(storage: StorageBackend, options: StateManagerOptions = {}) {
+    this.storage = storage;
+    this.trashRetentionMs = options.trashRetentionMs ?? DEFAULT_TRASH_RETENTION_MS;
+    this.journal = options.journal || null;
+    this.snapshots = options.snapshots || null;
   }
 
   /**
@@ -20,19 +112,45 @@ export class StateManager {
    */
   async loadFromDisk(): Promise<void> {
     try {
-      await this.persistenceService.initialize();
-      const boards = await this.persistenceService.loadBoards();
+      await this.storage.initialize();
+      const boards = await this.storage.loadBoards();
+      await this.snapshots?.initialize();
+
+      // Bring the snapshot up to date with changes made since it was saved
+      if (this.journal) {
+        await this.journal.initialize();
+        const entries = this.journal.read();
+        if (entries.length > 0) {
+          this.replayJournal(boards, entries);
+          console.log(`Replayed ${entries.length} journal entries`);
+        }
+      }
       
       // Populate in-memory stores
       for (const board of boards) {
+        // Trashed notes are stored alongside the board's live notes
+        const trashed = board.notes.filter(note => note.deletedAt !== undefined);
+        board.notes = board.notes.filter(note => note.deletedAt === undefined);
+        for (const note of trashed) {
+          this.trashedNotes.set(note.id, note);
+        }
+
+        if (board.deletedAt !== undefined) {
+          this.trashedBoards.set(board.id, board);
+          continue;
+        }
+
         this.boards.set(board.id, board);
         
-        // Index all notes
+        // Index all notes. Editing leases don't survive a restart.
         for (const note of board.notes) {
+          delete note.editingBy;
           this.notes.set(note.id, note);
         }
       }
 
+      this.purgeExpiredTrash();
+
       console.log(`State manager initialized with ${this.boards.size} boards and ${this.notes.size} notes`);
 
       // Start auto-save mechanism (every 30 seconds)
@@ -48,6 +166,8 @@ export class StateManager {
    */
   private startAutoSave(): void {
     this.autoSaveInterval = setInterval(async () => {
+      this.purgeExpiredTrash();
+
       if (this.isDirty && !this.isSaving) {
         try {
           this.isSaving = true;
@@ -68,10 +188,26 @@ export class StateManager {
    * Save current state to disk
    */
   async saveToDisk(): Promise<void> {
+    const changes = this.takeChanges();
+    const journalMark = this.journal?.getLength() ?? 0;
     try {
-      const boards = Array.from(this.boards.values());
-      await this.persistenceService.saveBoards(boards);
+      // Trashed notes are stored alongside the board's live notes
+      const boards = [...this.boards.values(), ...this.trashedBoards.values()].map(board => {
+        const trashedNotes = Array.from(this.trashedNotes.values()).filter(note => note.boardId === board.id);
+        return trashedNotes.length > 0 ? { ...board, notes: [...board.notes, ...trashedNotes] } : board;
+      });
+      await this.storage.saveChanges(changes, boards);
+
+      // The snapshot now contains everything journaled before the save started
+      this.journal?.compact(journalMark);
+      await this.captureSnapshot(boards);
     } catch (error) {
+      // Keep the changes for the next save attempt
+      changes.boards.forEach(board => this.changedBoardIds.add(board.id));
+      changes.deletedBoardIds.forEach(boardId => this.changedBoardIds.add(boardId));
+      changes.notes.forEach(note => this.changedNoteIds.add(note.id));
+      changes.deletedNoteIds.forEach(noteId => this.changedNoteIds.add(noteId));
+
       // Log critical error but don't crash server
       console.error('CRITICAL: Failed to save boards to disk:', error);
       // TODO: Implement alerting mechanism for critical errors
@@ -79,12 +215,205 @@ export class StateManager {
   }
 
   /**
-   * Mark state as dirty (needs saving)
+   * Take a point-in-time snapshot if one is due. A failed snapshot does not fail the save.
+   */
+  private async captureSnapshot(boards: Board[]): Promise<void> {
+    try {
+      await this.snapshots?.capture(boards);
+    } catch (error) {
+      console.error('Failed to save snapshot:', error);
+    }
+  }
+
+  /**
+   * Mark state as dirty (needs saving), remembering which board or note changed
+   */
+  private markDirty(
+    change: { boardId?: string; boardFields?: (keyof Board)[]; noteId?: string; noteFields?: string[] } = {}
+  ): void {
+    this.isDirty = true;
+    const boardId = change.boardId ?? (change.noteId ? this.findStoredNote(change.noteId)?.boardId : undefined);
+    if (boardId) {
+      this.changeLog.record(boardId, change.noteId);
+    }
+    if (change.boardId) {
+      this.changedBoardIds.add(change.boardId);
+      this.journalBoard(change.boardId, change.boardFields);
+    }
+    if (change.noteId) {
+      this.changedNoteIds.add(change.noteId);
+      this.journalNote(change.noteId, change.noteFields);
+    }
+  }
+
+  /**
+   * Append a board's changed fields (or all its metadata, or its removal) to the journal
+   */
+  private journalBoard(boardId: string, fields?: (keyof Board)[]): void {
+    if (!this.journal) {
+      return;
+    }
+
+    const board = this.boards.get(boardId) || this.trashedBoards.get(boardId);
+    if (!board) {
+      this.journal.append({ type: 'deleteBoard', boardId });
+    } else if (fields) {
+      const values: Record<string, unknown> = {};
+      for (const field of fields) {
+        values[field] = board[field] ?? null;
+      }
+      this.journal.append({ type: 'boardPatch', boardId, fields: values });
+    } else {
+      const { notes: _notes, ...metadata } = board;
+      this.journal.append({ type: 'board', board: metadata });
+    }
+  }
+
+  /**
+   * Append a note's changed fields (or the whole note, or its removal) to the journal
+   */
+  private journalNote(noteId: string, fields?: string[]): void {
+    if (!this.journal) {
+      return;
+    }
+
+    const note = this.findStoredNote(noteId);
+    if (!note) {
+      this.journal.append({ type: 'deleteNote', noteId });
+    } else if (fields) {
+      const values: Record<string, unknown> = {};
+      for (const field of fields) {
+        values[field] = note[field as keyof Note] ?? null;
+      }
+      this.journal.append({ type: 'notePatch', noteId, fields: values });
+    } else {
+      this.journal.append({ type: 'note', note });
+    }
+  }
+
+  /**
+   * Apply journal entries to boards loaded from storage, and remember
+   * what they touched so the next save writes it to storage
    */
-  private markDirty(): void {
+  private replayJournal(boards: Board[], entries: JournalEntry[]): void {
+    const findNote = (noteId: string) => {
+      for (const board of boards) {
+        const index = board.notes.findIndex(note => note.id === noteId);
+        if (index !== -1) {
+          return { board, index };
+        }
+      }
+      return undefined;
+    };
+
+    for (const entry of entries) {
+      if (entry.type === 'board') {
+        const index = boards.findIndex(b => b.id === entry.board.id);
+        if (index !== -1) {
+          boards[index] = { ...entry.board, notes: boards[index].notes };
+        } else {
+          boards.push({ ...entry.board, notes: [] });
+        }
+        this.changedBoardIds.add(entry.board.id);
+      } else if (entry.type === 'boardPatch') {
+        const board = boards.find(b => b.id === entry.boardId) as unknown as Record<string, unknown> | undefined;
+        if (board) {
+          for (const [field, value] of Object.entries(entry.fields)) {
+            if (value === null) {
+              delete board[field];
+            } else {
+              board[field] = value;
+            }
+          }
+          this.changedBoardIds.add(entry.boardId);
+        }
+      } else if (entry.type === 'deleteBoard') {
+        const index = boards.findIndex(b => b.id === entry.boardId);
+        if (index !== -1) {
+          boards.splice(index, 1);
+        }
+        this.changedBoardIds.add(entry.boardId);
+      } else if (entry.type === 'note') {
+        const found = findNote(entry.note.id);
+        if (found) {
+          found.board.notes[found.index] = entry.note;
+        } else {
+          boards.find(b => b.id === entry.note.boardId)?.notes.push(entry.note);
+        }
+        this.changedNoteIds.add(entry.note.id);
+      } else if (entry.type === 'notePatch') {
+        const found = findNote(entry.noteId);
+        if (found) {
+          const note = found.board.notes[found.index] as unknown as Record<string, unknown>;
+          for (const [field, value] of Object.entries(entry.fields)) {
+            if (value === null) {
+              delete note[field];
+            } else {
+              note[field] = value;
+            }
+          }
+          this.changedNoteIds.add(entry.noteId);
+        }
+      } else if (entry.type === 'deleteNote') {
+        const found = findNote(entry.noteId);
+        if (found) {
+          found.board.notes.splice(found.index, 1);
+        }
+        this.changedNoteIds.add(entry.noteId);
+      }
+    }
+
     this.isDirty = true;
   }
 
+  /**
+   * Collect and reset the changes made since the last save.
+   * Anything that changed but no longer exists has been removed for good.
+   */
+  private takeChanges(): StorageChanges {
+    const changes: StorageChanges = { boards: [], notes: [], deletedBoardIds: [], deletedNoteIds: [] };
+
+    for (const boardId of this.changedBoardIds) {
+      const board = this.boards.get(boardId) || this.trashedBoards.get(boardId);
+      if (board) {
+        changes.boards.push(board);
+      } else {
+        changes.deletedBoardIds.push(boardId);
+      }
+    }
+
+    for (const noteId of this.changedNoteIds) {
+      const note = this.findStoredNote(noteId);
+      if (note) {
+        changes.notes.push(note);
+      } else {
+        changes.deletedNoteIds.push(noteId);
+      }
+    }
+
+    this.changedBoardIds.clear();
+    this.changedNoteIds.clear();
+    return changes;
+  }
+
+  /**
+   * Find a note that is live, in the trash, or on a trashed board
+   */
+  private findStoredNote(noteId: string): Note | undefined {
+    const note = this.notes.get(noteId) || this.trashedNotes.get(noteId);
+    if (note) {
+      return note;
+    }
+
+    for (const board of this.trashedBoards.values()) {
+      const boardNote = board.notes.find(n => n.id === noteId);
+      if (boardNote) {
+        return boardNote;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Shutdown and cleanup
    */
@@ -97,6 +426,8 @@ export class StateManager {
     if (this.isDirty) {
       await this.saveToDisk();
     }
+    this.journal?.close();
+    await this.storage.close?.();
 
     console.log('State manager shutdown complete');
   }
@@ -120,7 +451,7 @@ export class StateManager {
   /**
    * Create a new board
    */
-  createBoard(name: string): Board {
+  createBoard(name: string, ownerId?: string): Board {
     if (!name || name.trim().length === 0) {
       throw new ValidationError('Board name cannot be empty');
     }
@@ -133,11 +464,14 @@ export class StateManager {
       updatedAt: now,
       notes: [],
     };
+    if (ownerId) {
+      board.acl = { owner: ownerId, editors: [], viewers: [] };
+    }
 
     try {
       validateBoard(board);
       this.boards.set(board.id, board);
-      this.markDirty();
+      this.markDirty({ boardId: board.id });
       console.log(`Created board: ${board.id} - ${board.name}`);
       return board;
     } catch (error) {
@@ -147,7 +481,7 @@ export class StateManager {
   }
 
   /**
-   * Delete a board
+   * Move a board and its notes to the trash
    */
   deleteBoard(boardId: string): boolean {
     const board = this.boards.get(boardId);
@@ -155,17 +489,44 @@ export class StateManager {
       return false;
     }
 
-    // Delete all notes in the board
+    // Hide all notes in the board; they stay in board.notes for restoring
     for (const note of board.notes) {
       this.notes.delete(note.id);
+      this.contentHistory.delete(note.id);
+      this.fieldChanges.delete(note.id);
     }
 
+    board.deletedAt = Date.now();
     this.boards.delete(boardId);
-    this.markDirty();
-    console.log(`Deleted board: ${boardId}`);
+    this.trashedBoards.set(boardId, board);
+    this.operationLog.clearBoard(boardId);
+    this.markDirty({ boardId, boardFields: ['deletedAt'] });
+    console.log(`Moved board to trash: ${boardId}`);
     return true;
   }
 
+  /**
+   * Restore a board and its notes from the trash
+   */
+  restoreBoard(boardId: string): Board | undefined {
+    const board = this.trashedBoards.get(boardId);
+    if (!board) {
+      return undefined;
+    }
+
+    delete board.deletedAt;
+    board.updatedAt = Date.now();
+    this.trashedBoards.delete(boardId);
+    this.boards.set(boardId, board);
+    for (const note of board.notes) {
+      this.notes.set(note.id, note);
+    }
+
+    this.markDirty({ boardId, boardFields: ['deletedAt', 'updatedAt'] });
+    console.log(`Restored board from trash: ${boardId}`);
+    return board;
+  }
+
   /**
    * Rename a board
    */
@@ -181,11 +542,78 @@ export class StateManager {
 
     board.name = newName.trim();
     board.updatedAt = Date.now();
-    this.markDirty();
+    this.markDirty({ boardId, boardFields: ['name', 'updatedAt'] });
     console.log(`Renamed board: ${boardId} to ${newName}`);
     return board;
   }
 
+  /**
+   * Replace a board's editors and viewers. The owner cannot be changed this way.
+   */
+  setBoardAcl(boardId: string, access: UpdateBoardAclPayload): Board | undefined {
+    const board = this.boards.get(boardId);
+    if (!board || !board.acl) {
+      return undefined;
+    }
+
+    const owner = board.acl.owner;
+    const editors = Array.from(new Set(access.editors)).filter(userId => userId !== owner);
+    // Editing includes viewing, so editors are not listed twice
+    const viewers = Array.from(new Set(access.viewers)).filter(userId => userId !== owner && !editors.includes(userId));
+
+    board.acl = { owner, editors, viewers };
+    board.updatedAt = Date.now();
+    this.markDirty({ boardId, boardFields: ['acl', 'updatedAt'] });
+    console.log(`Updated access for board: ${boardId}`);
+    return board;
+  }
+
+  /**
+   * Give a user a role on a board, keeping any higher role they already have
+   */
+  grantBoardRole(boardId: string, userId: string, role: InviteRole): Board | undefined {
+    const board = this.boards.get(boardId);
+    if (!board || !board.acl) {
+      return undefined;
+    }
+    if (hasBoardRole(board, userId, role)) {
+      return board;
+    }
+
+    const { editors, viewers } = board.acl;
+    return role === 'editor'
+      ? this.setBoardAcl(boardId, { editors: [...editors, userId], viewers })
+      : this.setBoardAcl(boardId, { editors, viewers: [...viewers, userId] });
+  }
+
+  /**
+   * Find a board whether it is live or in the trash
+   */
+  findBoard(boardId: string): Board | undefined {
+    return this.boards.get(boardId) || this.trashedBoards.get(boardId);
+  }
+
+  /**
+   * Throw AccessDeniedError unless the user has at least the given role on a board.
+   * Unknown boards pass, so callers can report them as not found.
+   */
+  assertBoardRole(boardId: string, userId: string | undefined, role: BoardRole): void {
+    const board = this.findBoard(boardId);
+    if (board && !hasBoardRole(board, userId, role)) {
+      throw new AccessDeniedError(role === 'viewer' ? 'You do not have access to this board' : `Only a board ${role} can do this`);
+    }
+  }
+
+  /**
+   * Same as assertBoardRole, for the board a note (live or trashed) belongs to
+   */
+  assertNoteRole(noteId: string, userId: string | undefined, role: BoardRole): void {
+    const note = this.findStoredNote(noteId);
+    if (note) {
+      this.assertBoardRole(note.boardId, userId, role);
+    }
+  }
+
   // ===== Note CRUD Operations =====
 
   /**
@@ -206,13 +634,18 @@ export class StateManager {
   /**
    * Create a new note
    */
-  createNote(boardId: string, x: number, y: number): Note | undefined {
+  createNote(boardId: string, x: number, y: number, userId?: string, id?: string): Note | undefined {
     const board = this.boards.get(boardId);
     if (!board) {
       console.error(`Board not found: ${boardId}`);
       return undefined;
     }
 
+    // The client may have picked the ID, e.g. for a note created offline
+    if (id && this.findStoredNote(id)) {
+      throw new ValidationError('A note with this ID already exists');
+    }
+
     // Validate and clamp position to reasonable bounds
     const MAX_POSITION = 100000;
     const MIN_POSITION = -100000;
@@ -221,7 +654,7 @@ export class StateManager {
 
     const now = Date.now();
     const note: Note = {
-      id: uuidv4(),
+      id: id || uuidv4(),
       boardId,
       x: clampedX,
       y: clampedY,
@@ -243,7 +676,13 @@ export class StateManager {
       this.notes.set(note.id, note);
       board.notes.push(note);
       board.updatedAt = now;
-      this.markDirty();
+      this.recordOperation(boardId, userId, {
+        type: 'create',
+        noteId: note.id,
+        before: null,
+        after: structuredClone(note),
+      });
+      this.markDirty({ boardId, boardFields: ['updatedAt'], noteId: note.id });
       console.log(`Created note: ${note.id} on board ${boardId}`);
       return note;
     } catch (error) {
@@ -255,7 +694,7 @@ export class StateManager {
   /**
    * Update a note (last-write-wins conflict resolution)
    */
-  updateNote(noteId: string, updates: Partial<Note>): Note | undefined {
+  updateNote(noteId: string, updates: Partial<Note>, userId?: string): Note | undefined {
     const note = this.notes.get(noteId);
     if (!note) {
       console.error(`Note not found: ${noteId}`);
@@ -268,36 +707,194 @@ export class StateManager {
       return undefined;
     }
 
-    // Apply updates (last-write-wins with version increment)
-    const currentVersion = note.version || 1;
-    Object.assign(note, updates, {
-      updatedAt: Date.now(),
-      version: currentVersion + 1, // Increment version for conflict detection
-    });
+    const fields = Object.keys(updates) as (keyof Note)[];
+    const before = this.pickFields(note, fields);
+    const updatedAt = Date.now();
+    const version = (note.version || 1) + 1; // Increment version for conflict detection
 
+    // Check the result before changing anything, so a rejected update leaves
+    // no trace in the note or its history
     try {
-      validateNote(note);
-      board.updatedAt = Date.now();
-      this.markDirty();
-      console.log(`Updated note: ${noteId}`);
-      return note;
+      validateNote({ ...note, ...updates, updatedAt, version });
     } catch (error) {
       console.error('Failed to update note:', error);
       return undefined;
     }
+
+    // Record content replacements as text operations so concurrent edits still merge
+    if (updates.content !== undefined && updates.content !== note.content) {
+      this.recordContentOperation(note, diffTextOperation(note.content, updates.content));
+    }
+
+    // Apply updates (last-write-wins with version increment)
+    Object.assign(note, updates, { updatedAt, version });
+    this.recordFieldChanges(note, fields, userId);
+    board.updatedAt = updatedAt;
+    this.recordOperation(board.id, userId, {
+      type: fields.every(field => field === 'x' || field === 'y') ? 'move' : 'update',
+      noteId,
+      before,
+      after: this.pickFields(note, fields),
+    });
+    this.markDirty({
+      boardId: board.id,
+      boardFields: ['updatedAt'],
+      noteId,
+      noteFields: [...fields, 'contentRevision', 'updatedAt', 'version'],
+    });
+    console.log(`Updated note: ${noteId}`);
+    return note;
+  }
+
+  /**
+   * Show or clear who is editing a note. This mirrors the editing lease, so
+   * it isn't a change to the note: no new version and nothing to undo.
+   */
+  setEditingBy(noteId: string, userId: string | undefined): Note | undefined {
+    const note = this.notes.get(noteId);
+    if (!note) {
+      return undefined;
+    }
+
+    if (userId) {
+      note.editingBy = userId;
+    } else {
+      delete note.editingBy;
+    }
+    return note;
+  }
+
+  /**
+   * Find fields of an update that another user changed after baseVersion.
+   * An empty result means the update can be rebased onto the current note.
+   */
+  getConflictingFields(noteId: string, updates: Partial<Note>, baseVersion: number, userId?: string): string[] {
+    const note = this.notes.get(noteId);
+    if (!note || baseVersion >= (note.version || 1)) {
+      return [];
+    }
+
+    const fields = Object.keys(updates);
+    const changes = this.fieldChanges.get(noteId);
+    if (!changes || baseVersion < changes.trackedSince) {
+      // No record of what changed since the base version
+      return fields;
+    }
+
+    return fields.filter(field => {
+      const change = changes.fields.get(field);
+      return change !== undefined && change.version > baseVersion && change.userId !== userId;
+    });
+  }
+
+  /**
+   * Remember which fields changed in the note's current version
+   */
+  private recordFieldChanges(note: Note, fields: string[], userId?: string): void {
+    let changes = this.fieldChanges.get(note.id);
+    if (!changes) {
+      changes = { trackedSince: note.version - 1, fields: new Map() };
+      this.fieldChanges.set(note.id, changes);
+    }
+
+    for (const field of fields) {
+      changes.fields.set(field, { version: note.version, userId });
+    }
+  }
+
+  /**
+   * Apply a collaborative text edit to a note's content.
+   * The operation is transformed against every edit applied since the
+   * revision the client based it on, so concurrent edits merge.
+   */
+  applyNoteEdit(
+    noteId: string,
+    revision: number,
+    operation: TextOperation,
+    userId?: string
+  ): { note: Note; operation: TextOperation } | undefined {
+    const note = this.notes.get(noteId);
+    if (!note) {
+      console.error(`Note not found: ${noteId}`);
+      return undefined;
+    }
+
+    const board = this.boards.get(note.boardId);
+    if (!board) {
+      console.error(`Board not found for note: ${note.boardId}`);
+      return undefined;
+    }
+
+    const currentRevision = note.contentRevision || 0;
+    if (revision > currentRevision) {
+      throw new ValidationError(`Edit revision ${revision} is ahead of note revision ${currentRevision}`);
+    }
+
+    const history = this.contentHistory.get(noteId) || [];
+    const missed = currentRevision - revision;
+    if (missed > history.length) {
+      throw new ValidationError('Edit is based on a revision that is too old to merge');
+    }
+
+    let transformed = operation;
+    for (const applied of history.slice(history.length - missed)) {
+      [transformed] = transformTextOperations(transformed, applied);
+    }
+
+    let content: string;
+    try {
+      content = applyTextOperation(note.content, transformed);
+    } catch (error) {
+      throw new ValidationError((error as Error).message);
+    }
+
+    if (content.length > 10000) {
+      throw new ValidationError('Note content must not exceed 10,000 characters');
+    }
+
+    this.recordContentOperation(note, transformed);
+    note.content = content;
+    note.updatedAt = Date.now();
+    note.version = (note.version || 1) + 1;
+    this.recordFieldChanges(note, ['content'], userId);
+    board.updatedAt = note.updatedAt;
+    this.markDirty({
+      boardId: board.id,
+      boardFields: ['updatedAt'],
+      noteId,
+      noteFields: ['content', 'contentRevision', 'updatedAt', 'version'],
+    });
+    return { note, operation: transformed };
+  }
+
+  /**
+   * Append an applied content operation to the note's history
+   */
+  private recordContentOperation(note: Note, operation: TextOperation): void {
+    if (isNoopTextOperation(operation)) {
+      return;
+    }
+
+    const history = this.contentHistory.get(note.id) || [];
+    history.push(operation);
+    if (history.length > this.contentHistoryLimit) {
+      history.splice(0, history.length - this.contentHistoryLimit);
+    }
+    this.contentHistory.set(note.id, history);
+    note.contentRevision = (note.contentRevision || 0) + 1;
   }
 
   /**
    * Move a note to a new position
    */
-  moveNote(noteId: string, x: number, y: number): Note | undefined {
-    return this.updateNote(noteId, { x, y });
+  moveNote(noteId: string, x: number, y: number, userId?: string): Note | undefined {
+    return this.updateNote(noteId, { x, y }, userId);
   }
 
   /**
    * Delete a note
    */
-  deleteNote(noteId: string): boolean {
+  deleteNote(noteId: string, userId?: string): boolean {
     const note = this.notes.get(noteId);
     if (!note) {
       return false;
@@ -308,17 +905,809 @@ export class StateManager {
       return false;
     }
 
-    // Remove from board's notes array
+    const isAttached = (c: Connector) => c.sourceNoteId === noteId || c.targetNoteId === noteId;
+    this.recordOperation(board.id, userId, {
+      type: 'delete',
+      noteId,
+      before: structuredClone(note),
+      after: null,
+      connectors: structuredClone(board.connectors?.filter(isAttached) ?? []),
+    });
+
+    // Remove from board's notes array, along with anything connected to it
     board.notes = board.notes.filter(n => n.id !== noteId);
+    board.connectors = board.connectors?.filter(c => !isAttached(c));
     board.updatedAt = Date.now();
 
-    // Remove from notes map
+    // Move from notes map to the trash
     this.notes.delete(noteId);
-    this.markDirty();
-    console.log(`Deleted note: ${noteId}`);
+    this.contentHistory.delete(noteId);
+    this.fieldChanges.delete(noteId);
+    delete note.editingBy;
+    note.deletedAt = board.updatedAt;
+    this.trashedNotes.set(noteId, note);
+    this.markDirty({ boardId: board.id, boardFields: ['connectors', 'updatedAt'], noteId });
+    console.log(`Moved note to trash: ${noteId}`);
     return true;
   }
 
+  /**
+   * Apply one operation to several notes. Every note is checked before any
+   * is changed, so the operation either applies to all of them or to none.
+   */
+  applyBulkNoteOperation(payload: BulkNotePayload, userId?: string): BulkNoteResultPayload | undefined {
+    const board = this.boards.get(payload.boardId);
+    if (!board) {
+      return undefined;
+    }
+
+    const missing = payload.noteIds.filter(noteId => this.notes.get(noteId)?.boardId !== board.id);
+    if (missing.length > 0) {
+      throw new ValidationError(`Notes not found on this board: ${missing.join(', ')}`);
+    }
+
+    const { operation } = payload;
+    const result: BulkNoteResultPayload = { boardId: board.id, notes: [], deletedNoteIds: [] };
+    for (const noteId of payload.noteIds) {
+      if (operation.type === 'delete') {
+        this.deleteNote(noteId, userId);
+        result.deletedNoteIds.push(noteId);
+        continue;
+      }
+
+      const note = this.notes.get(noteId)!;
+      const updated = operation.type === 'move'
+        ? this.moveNote(noteId, note.x + operation.dx, note.y + operation.dy, userId)
+        : this.updateNote(noteId, operation.updates, userId);
+      if (updated) {
+        result.notes.push(updated);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Restore a note from the trash onto its board
+   */
+  restoreNote(noteId: string): Note | undefined {
+    const note = this.trashedNotes.get(noteId);
+    if (!note) {
+      return undefined;
+    }
+
+    const board = this.boards.get(note.boardId);
+    if (!board) {
+      throw new ValidationError('Restore the note\'s board from the trash first');
+    }
+
+    delete note.deletedAt;
+    note.updatedAt = Date.now();
+    note.version = (note.version || 1) + 1;
+    this.trashedNotes.delete(noteId);
+    this.notes.set(noteId, note);
+    board.notes.push(note);
+    board.updatedAt = note.updatedAt;
+    this.markDirty({ boardId: board.id, boardFields: ['updatedAt'], noteId });
+    console.log(`Restored note from trash: ${noteId}`);
+    return note;
+  }
+
+  // ===== Connectors =====
+
+  /**
+   * Find a connector on a live board
+   */
+  getConnector(connectorId: string): Connector | undefined {
+    for (const board of this.boards.values()) {
+      const connector = board.connectors?.find(c => c.id === connectorId);
+      if (connector) {
+        return connector;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Connect two notes on the same board
+   */
+  createConnector(payload: CreateConnectorPayload): Connector | undefined {
+    const board = this.boards.get(payload.boardId);
+    if (!board) {
+      return undefined;
+    }
+
+    const onBoard = (noteId: string) => this.notes.get(noteId)?.boardId === board.id;
+    if (!onBoard(payload.sourceNoteId) || !onBoard(payload.targetNoteId)) {
+      throw new ValidationError('Connectors can only join notes on the same board');
+    }
+    if (payload.id && this.getConnector(payload.id)) {
+      throw new ValidationError('A connector with this ID already exists');
+    }
+
+    const now = Date.now();
+    const connector: Connector = {
+      id: payload.id || uuidv4(),
+      boardId: board.id,
+      sourceNoteId: payload.sourceNoteId,
+      targetNoteId: payload.targetNoteId,
+      label: payload.label ?? '',
+      style: payload.style ?? 'solid',
+      arrowheads: payload.arrowheads ?? 'end',
+      createdAt: now,
+      updatedAt: now,
+    };
+    validateConnector(connector);
+
+    board.connectors = [...(board.connectors || []), connector];
+    board.updatedAt = now;
+    this.markDirty({ boardId: board.id, boardFields: ['connectors', 'updatedAt'] });
+    console.log(`Created connector: ${connector.id}`);
+    return connector;
+  }
+
+  updateConnector(connectorId: string, updates: UpdateConnectorPayload['updates']): Connector | undefined {
+    const connector = this.getConnector(connectorId);
+    const board = connector && this.boards.get(connector.boardId);
+    if (!connector || !board) {
+      return undefined;
+    }
+
+    const updated: Connector = { ...connector, ...updates, updatedAt: Date.now() };
+    validateConnector(updated);
+
+    board.connectors = board.connectors!.map(c => (c.id === connectorId ? updated : c));
+    board.updatedAt = updated.updatedAt;
+    this.markDirty({ boardId: board.id, boardFields: ['connectors', 'updatedAt'] });
+    return updated;
+  }
+
+  deleteConnector(connectorId: string): Connector | undefined {
+    const connector = this.getConnector(connectorId);
+    const board = connector && this.boards.get(connector.boardId);
+    if (!connector || !board) {
+      return undefined;
+    }
+
+    board.connectors = board.connectors!.filter(c => c.id !== connectorId);
+    board.updatedAt = Date.now();
+    this.markDirty({ boardId: board.id, boardFields: ['connectors', 'updatedAt'] });
+    console.log(`Deleted connector: ${connectorId}`);
+    return connector;
+  }
+
+  // ===== Frames =====
+
+  /**
+   * Find a frame on a live board
+   */
+  getFrame(frameId: string): Frame | undefined {
+    for (const board of this.boards.values()) {
+      const frame = board.frames?.find(f => f.id === frameId);
+      if (frame) {
+        return frame;
+      }
+    }
+    return undefined;
+  }
+
+  createFrame(payload: CreateFramePayload): Frame | undefined {
+    const board = this.boards.get(payload.boardId);
+    if (!board) {
+      return undefined;
+    }
+    if (payload.id && this.getFrame(payload.id)) {
+      throw new ValidationError('A frame with this ID already exists');
+    }
+
+    const now = Date.now();
+    const frame: Frame = {
+      id: payload.id || uuidv4(),
+      boardId: board.id,
+      name: payload.name.trim(),
+      x: payload.x,
+      y: payload.y,
+      width: payload.width,
+      height: payload.height,
+      collapsed: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    validateFrame(frame);
+
+    board.frames = [...(board.frames || []), frame];
+    board.updatedAt = now;
+    this.markDirty({ boardId: board.id, boardFields: ['frames', 'updatedAt'] });
+    console.log(`Created frame: ${frame.id}`);
+    return frame;
+  }
+
+  updateFrame(frameId: string, updates: UpdateFramePayload['updates']): Frame | undefined {
+    const frame = this.getFrame(frameId);
+    const board = frame && this.boards.get(frame.boardId);
+    if (!frame || !board) {
+      return undefined;
+    }
+
+    const updated: Frame = {
+      ...frame,
+      ...updates,
+      name: updates.name !== undefined ? updates.name.trim() : frame.name,
+      updatedAt: Date.now(),
+    };
+    validateFrame(updated);
+
+    this.replaceFrame(board, updated);
+    return updated;
+  }
+
+  /**
+   * Move a frame along with the notes inside it. Each note move is recorded
+   * on its own, so undo puts the notes back one at a time.
+   */
+  moveFrame(frameId: string, x: number, y: number, userId?: string): FrameMovedPayload | undefined {
+    const frame = this.getFrame(frameId);
+    const board = frame && this.boards.get(frame.boardId);
+    if (!frame || !board) {
+      return undefined;
+    }
+
+    const dx = x - frame.x;
+    const dy = y - frame.y;
+    const contained = getFrameNotes(frame, board.notes, board.frames!);
+
+    const updated: Frame = { ...frame, x, y, updatedAt: Date.now() };
+    validateFrame(updated);
+    this.replaceFrame(board, updated);
+
+    const notes: FrameMovedPayload['notes'] = [];
+    if (dx !== 0 || dy !== 0) {
+      for (const note of contained) {
+        const moved = this.moveNote(note.id, note.x + dx, note.y + dy, userId);
+        if (moved) {
+          notes.push({ noteId: moved.id, x: moved.x, y: moved.y });
+        }
+      }
+    }
+    return { frame: updated, notes };
+  }
+
+  /**
+   * Delete a frame; the notes inside it stay where they are
+   */
+  deleteFrame(frameId: string): Frame | undefined {
+    const frame = this.getFrame(frameId);
+    const board = frame && this.boards.get(frame.boardId);
+    if (!frame || !board) {
+      return undefined;
+    }
+
+    board.frames = board.frames!.filter(f => f.id !== frameId);
+    board.updatedAt = Date.now();
+    this.markDirty({ boardId: board.id, boardFields: ['frames', 'updatedAt'] });
+    console.log(`Deleted frame: ${frameId}`);
+    return frame;
+  }
+
+  private replaceFrame(board: Board, frame: Frame): void {
+    board.frames = board.frames!.map(f => (f.id === frame.id ? frame : f));
+    board.updatedAt = frame.updatedAt;
+    this.markDirty({ boardId: board.id, boardFields: ['frames', 'updatedAt'] });
+  }
+
+  // ===== Batches =====
+
+  /**
+   * Apply a batch of operations to a board in order. If any of them fails the
+   * board is rolled back to how it was before the batch and the error rethrown.
+   */
+  applyBatch(payload: BatchPayload, userId?: string): BatchResultPayload | undefined {
+    const board = this.boards.get(payload.boardId);
+    if (!board) {
+      return undefined;
+    }
+
+    const checkpoint = this.checkpointBoard(board);
+    const operations: NoteOperation[] = [];
+    this.batchOperations = operations;
+    try {
+      payload.operations.forEach((operation, index) => {
+        try {
+          this.applyBatchOperation(board.id, operation, userId);
+        } catch (error) {
+          throw error instanceof ValidationError
+            ? new ValidationError(`Batch operation ${index + 1} (${operation.type}) failed: ${error.message}`)
+            : error;
+        }
+      });
+    } catch (error) {
+      this.rollbackBoard(checkpoint);
+      throw error;
+    } finally {
+      this.batchOperations = null;
+    }
+
+    for (const operation of operations) {
+      this.recordOperation(board.id, userId, operation);
+    }
+    console.log(`Applied batch of ${payload.operations.length} operations to board ${board.id}`);
+    return this.diffBoard(checkpoint.board, this.boards.get(board.id)!);
+  }
+
+  /**
+   * Apply one operation of a batch, throwing ValidationError if it can't be
+   */
+  private applyBatchOperation(boardId: string, operation: BatchOperation, userId?: string): void {
+    const onBoard = <T extends { boardId: string }>(item: T | undefined, kind: string): T => {
+      if (item?.boardId !== boardId) {
+        throw new ValidationError(`${kind} not found on this board`);
+      }
+      return item;
+    };
+
+    switch (operation.type) {
+      case 'note:create': {
+        const { x, y, id } = operation.payload;
+        if (!this.createNote(boardId, x, y, userId, id)) {
+          throw new ValidationError('Failed to create note');
+        }
+        break;
+      }
+      case 'note:update': {
+        const { noteId, updates, baseVersion } = operation.payload;
+        onBoard(this.notes.get(noteId), 'Note');
+        if (baseVersion !== undefined) {
+          const conflicting = this.getConflictingFields(noteId, updates, baseVersion, userId);
+          if (conflicting.length > 0) {
+            throw new ValidationError(`Note was changed by someone else: ${conflicting.join(', ')}`);
+          }
+        }
+        if (!this.updateNote(noteId, updates, userId)) {
+          throw new ValidationError('Failed to update note');
+        }
+        break;
+      }
+      case 'note:move': {
+        const { noteId, x, y } = operation.payload;
+        onBoard(this.notes.get(noteId), 'Note');
+        if (!this.moveNote(noteId, x, y, userId)) {
+          throw new ValidationError('Failed to move note');
+        }
+        break;
+      }
+      case 'note:delete':
+        onBoard(this.notes.get(operation.payload.noteId), 'Note');
+        this.deleteNote(operation.payload.noteId, userId);
+        break;
+      case 'connector:create':
+        this.createConnector(operation.payload);
+        break;
+      case 'connector:update':
+        onBoard(this.getConnector(operation.payload.connectorId), 'Connector');
+        this.updateConnector(operation.payload.connectorId, operation.payload.updates);
+        break;
+      case 'connector:delete':
+        onBoard(this.getConnector(operation.payload.connectorId), 'Connector');
+        this.deleteConnector(operation.payload.connectorId);
+        break;
+      case 'frame:create':
+        this.createFrame(operation.payload);
+        break;
+      case 'frame:update':
+        onBoard(this.getFrame(operation.payload.frameId), 'Frame');
+        this.updateFrame(operation.payload.frameId, operation.payload.updates);
+        break;
+      case 'frame:move': {
+        const { frameId, x, y } = operation.payload;
+        onBoard(this.getFrame(frameId), 'Frame');
+        this.moveFrame(frameId, x, y, userId);
+        break;
+      }
+      case 'frame:delete':
+        onBoard(this.getFrame(operation.payload.frameId), 'Frame');
+        this.deleteFrame(operation.payload.frameId);
+        break;
+    }
+  }
+
+  private checkpointBoard(board: Board): BoardCheckpoint {
+    const contentHistory = new Map<string, TextOperation[]>();
+    const fieldChanges = new Map<string, NoteFieldChanges>();
+    for (const note of board.notes) {
+      const history = this.contentHistory.get(note.id);
+      if (history) {
+        contentHistory.set(note.id, [...history]);
+      }
+      const changes = this.fieldChanges.get(note.id);
+      if (changes) {
+        fieldChanges.set(note.id, structuredClone(changes));
+      }
+    }
+    const trashedNoteIds = new Set(
+      Array.from(this.trashedNotes.values()).filter(note => note.boardId === board.id).map(note => note.id)
+    );
+    return { board: structuredClone(board), trashedNoteIds, contentHistory, fieldChanges };
+  }
+
+  /**
+   * Put a board and its notes back to a checkpoint, undoing creations,
+   * changes and deletions made since
+   */
+  private rollbackBoard(checkpoint: BoardCheckpoint): void {
+    const board = checkpoint.board;
+    const noteIds = new Set([...(this.boards.get(board.id)?.notes || []), ...board.notes].map(note => note.id));
+    for (const note of this.trashedNotes.values()) {
+      if (note.boardId === board.id && !checkpoint.trashedNoteIds.has(note.id)) {
+        noteIds.add(note.id); // Deleted during the batch, possibly after being created by it
+      }
+    }
+
+    for (const noteId of noteIds) {
+      this.notes.delete(noteId);
+      this.trashedNotes.delete(noteId);
+      this.contentHistory.delete(noteId);
+      this.fieldChanges.delete(noteId);
+    }
+    for (const note of board.notes) {
+      this.notes.set(note.id, note);
+    }
+    checkpoint.contentHistory.forEach((history, noteId) => this.contentHistory.set(noteId, history));
+    checkpoint.fieldChanges.forEach((changes, noteId) => this.fieldChanges.set(noteId, changes));
+    this.boards.set(board.id, board);
+
+    this.markDirty({ boardId: board.id });
+    for (const noteId of noteIds) {
+      this.markDirty({ noteId });
+    }
+    console.log(`Rolled back failed batch on board ${board.id}`);
+  }
+
+  /**
+   * Everything that differs between two states of a board
+   */
+  private diffBoard(before: Board, after: Board): BatchResultPayload {
+    const compare = <T extends { id: string }>(previous: T[] = [], next: T[] = [], same: (a: T, b: T) => boolean) => {
+      const previousById = new Map(previous.map(item => [item.id, item]));
+      const nextIds = new Set(next.map(item => item.id));
+      return {
+        changed: next.filter(item => {
+          const old = previousById.get(item.id);
+          return !old || !same(old, item);
+        }),
+        deletedIds: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+      };
+    };
+    const unchanged = (a: object, b: object) => JSON.stringify(a) === JSON.stringify(b);
+
+    // Every note change bumps its version
+    const notes = compare(before.notes, after.notes, (a, b) => a.version === b.version);
+    const connectors = compare(before.connectors, after.connectors, unchanged);
+    const frames = compare(before.frames, after.frames, unchanged);
+    return {
+      boardId: after.id,
+      notes: notes.changed,
+      deletedNoteIds: notes.deletedIds,
+      connectors: connectors.changed,
+      deletedConnectorIds: connectors.deletedIds,
+      frames: frames.changed,
+      deletedFrameIds: frames.deletedIds,
+    };
+  }
+
+  // ===== Sync =====
+
+  /**
+   * What a client needs to bring its copy of a board up to date: the notes
+   * changed since its cursor, or the whole board if that can't be worked out
+   */
+  getBoardSync(boardId: string, since?: SyncCursor): SyncResponsePayload | undefined {
+    const board = this.boards.get(boardId);
+    if (!board) {
+      return undefined;
+    }
+
+    const cursor = this.changeLog.getCursor(boardId);
+    const changedNoteIds = since && this.changeLog.changedSince(boardId, since);
+    if (!changedNoteIds) {
+      return { board, cursor };
+    }
+
+    const { notes: _notes, ...metadata } = board;
+    const notes: Note[] = [];
+    const deletedNoteIds: string[] = [];
+    for (const noteId of changedNoteIds) {
+      const note = this.notes.get(noteId);
+      if (note?.boardId === boardId) {
+        notes.push(note);
+      } else {
+        deletedNoteIds.push(noteId);
+      }
+    }
+    return { delta: { board: metadata, notes, deletedNoteIds }, cursor };
+  }
+
+  /**
+   * Number the next broadcast about a board, so clients can tell when they
+   * missed one or got one twice
+   */
+  nextBroadcastSequence(boardId: string): BoardSequence {
+    return this.changeLog.takeBroadcastSequence(boardId);
+  }
+
+  // ===== Trash =====
+
+  /**
+   * List trashed boards, and trashed notes whose board is not trashed
+   */
+  getTrash(): TrashContents {
+    return {
+      boards: Array.from(this.trashedBoards.values()),
+      notes: Array.from(this.trashedNotes.values()).filter(note => this.boards.has(note.boardId)),
+    };
+  }
+
+  /**
+   * Permanently remove boards and notes that have been in the trash
+   * longer than the retention period
+   */
+  purgeExpiredTrash(now: number = Date.now()): number {
+    const cutoff = now - this.trashRetentionMs;
+    let purged = 0;
+
+    for (const [boardId, board] of this.trashedBoards) {
+      if (board.deletedAt !== undefined && board.deletedAt <= cutoff) {
+        this.trashedBoards.delete(boardId);
+        for (const [noteId, note] of this.trashedNotes) {
+          if (note.boardId === boardId) {
+            this.trashedNotes.delete(noteId);
+          }
+        }
+        this.markDirty({ boardId });
+        purged++;
+      }
+    }
+
+    for (const [noteId, note] of this.trashedNotes) {
+      if (note.deletedAt !== undefined && note.deletedAt <= cutoff) {
+        this.trashedNotes.delete(noteId);
+        this.markDirty({ noteId });
+        purged++;
+      }
+    }
+
+    if (purged > 0) {
+      console.log(`Purged ${purged} expired items from trash`);
+    }
+    return purged;
+  }
+
+  // ===== Snapshot History =====
+
+  /**
+   * List the snapshots that contain a board, newest first
+   */
+  getBoardHistory(boardId: string): BoardSnapshotInfo[] {
+    return this.snapshots?.listForBoard(boardId) || [];
+  }
+
+  /**
+   * Replace a board and its notes with their state in a snapshot.
+   * Other boards are left untouched.
+   */
+  async restoreBoardFromSnapshot(boardId: string, snapshotId: string): Promise<Board | undefined> {
+    const snapshot = await this.snapshots?.loadBoard(snapshotId, boardId);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    // Remove the board's current notes, wherever they are
+    const current = this.boards.get(boardId) || this.trashedBoards.get(boardId);
+    const previousNotes = new Map<string, Note>();
+    for (const note of current?.notes || []) {
+      previousNotes.set(note.id, note);
+    }
+    for (const note of this.trashedNotes.values()) {
+      if (note.boardId === boardId) {
+        previousNotes.set(note.id, note);
+      }
+    }
+    for (const noteId of previousNotes.keys()) {
+      this.notes.delete(noteId);
+      this.trashedNotes.delete(noteId);
+      this.contentHistory.delete(noteId);
+      this.fieldChanges.delete(noteId);
+    }
+
+    const now = Date.now();
+    const { notes: snapshotNotes, deletedAt: _deletedAt, acl: snapshotAcl, ...metadata } = snapshot;
+    const board: Board = { ...metadata, updatedAt: now, notes: [] };
+    // Restoring content doesn't undo changes to who has access since
+    const acl = current ? current.acl : snapshotAcl;
+    if (acl) {
+      board.acl = acl;
+    }
+
+    for (const snapshotNote of snapshotNotes) {
+      // Move versions past anything clients have seen so their stale edits are detected
+      const previous = previousNotes.get(snapshotNote.id);
+      const note: Note = {
+        ...snapshotNote,
+        updatedAt: now,
+        version: Math.max(snapshotNote.version || 1, previous?.version || 1) + 1,
+      };
+      if (previous?.contentRevision || snapshotNote.contentRevision) {
+        note.contentRevision = Math.max(snapshotNote.contentRevision || 0, previous?.contentRevision || 0) + 1;
+      }
+
+      if (note.deletedAt !== undefined) {
+        this.trashedNotes.set(note.id, note);
+      } else {
+        board.notes.push(note);
+        this.notes.set(note.id, note);
+      }
+    }
+
+    this.trashedBoards.delete(boardId);
+    this.boards.set(boardId, board);
+    this.operationLog.clearBoard(boardId);
+
+    this.markDirty({ boardId });
+    const noteIds = new Set([...previousNotes.keys(), ...snapshotNotes.map(note => note.id)]);
+    for (const noteId of noteIds) {
+      this.markDirty({ noteId });
+    }
+    // Notes that aren't in the snapshot can't be told apart from ones never seen
+    this.changeLog.reset(boardId);
+
+    console.log(`Restored board ${boardId} from snapshot ${snapshotId}`);
+    return board;
+  }
+
+  // ===== Undo/Redo =====
+
+  /**
+   * Revert the user's most recent operation on a board.
+   * Operations that no longer apply (e.g. the note was deleted by someone
+   * else) are discarded and the next one is tried.
+   */
+  undo(boardId: string, userId: string): HistoryResult | undefined {
+    let operation: NoteOperation | undefined;
+    while ((operation = this.operationLog.takeUndo(boardId, userId))) {
+      const result = this.applyNoteState(boardId, operation, operation.before, userId);
+      if (result) {
+        this.operationLog.pushRedo(boardId, userId, operation);
+        console.log(`Undid ${operation.type} of note ${operation.noteId} for ${userId}`);
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reapply the user's most recently undone operation on a board
+   */
+  redo(boardId: string, userId: string): HistoryResult | undefined {
+    let operation: NoteOperation | undefined;
+    while ((operation = this.operationLog.takeRedo(boardId, userId))) {
+      const result = this.applyNoteState(boardId, operation, operation.after, userId);
+      if (result) {
+        this.operationLog.pushUndo(boardId, userId, operation);
+        console.log(`Redid ${operation.type} of note ${operation.noteId} for ${userId}`);
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the user has operations to undo and redo on a board
+   */
+  getHistoryState(boardId: string, userId: string): { canUndo: boolean; canRedo: boolean } {
+    return {
+      canUndo: this.operationLog.canUndo(boardId, userId),
+      canRedo: this.operationLog.canRedo(boardId, userId),
+    };
+  }
+
+  /**
+   * Bring an operation's note to the given state: null deletes it, a full
+   * snapshot restores it, otherwise the recorded fields are updated.
+   */
+  private applyNoteState(
+    boardId: string,
+    operation: NoteOperation,
+    state: Partial<Note> | null,
+    userId: string
+  ): HistoryResult | undefined {
+    const board = this.boards.get(boardId);
+    const existing = this.notes.get(operation.noteId);
+    const isSnapshot = operation.type === 'create' || operation.type === 'delete';
+    if (!board || (existing && existing.boardId !== boardId)) {
+      return undefined;
+    }
+    if (state !== null && isSnapshot !== !existing) {
+      // Restoring a note that exists again, or updating one that is gone
+      return undefined;
+    }
+
+    this.isApplyingHistory = true;
+    try {
+      if (state === null) {
+        // Kept so that undoing this deletion puts them back too
+        const connectors = board.connectors?.filter(
+          c => c.sourceNoteId === operation.noteId || c.targetNoteId === operation.noteId
+        );
+        if (!existing || !this.deleteNote(operation.noteId)) {
+          return undefined;
+        }
+        operation.connectors = structuredClone(connectors ?? []);
+        return { action: 'deleted', note: existing };
+      }
+
+      if (this.trashedNotes.has(operation.noteId)) {
+        const note = this.restoreNote(operation.noteId);
+        return note ? { action: 'created', note, connectors: this.restoreConnectors(board, operation) } : undefined;
+      }
+
+      if (!existing) {
+        const note = structuredClone(state) as Note;
+        delete note.editingBy;
+        note.updatedAt = Date.now();
+        note.version = (note.version || 1) + 1;
+        this.notes.set(note.id, note);
+        board.notes.push(note);
+        board.updatedAt = note.updatedAt;
+        this.markDirty({ boardId: board.id, boardFields: ['updatedAt'], noteId: note.id });
+        return { action: 'created', note, connectors: this.restoreConnectors(board, operation) };
+      }
+
+      const note = this.updateNote(operation.noteId, structuredClone(state), userId);
+      return note ? { action: 'updated', note } : undefined;
+    } finally {
+      this.isApplyingHistory = false;
+    }
+  }
+
+  /**
+   * Put back the connectors removed along with an operation's note, where
+   * the note at their other end is still on the board
+   */
+  private restoreConnectors(board: Board, operation: NoteOperation): Connector[] {
+    const restored = (operation.connectors || []).filter(connector => {
+      const otherNoteId = connector.sourceNoteId === operation.noteId ? connector.targetNoteId : connector.sourceNoteId;
+      return this.notes.get(otherNoteId)?.boardId === board.id && !this.getConnector(connector.id);
+    }).map(connector => structuredClone(connector));
+    if (restored.length > 0) {
+      board.connectors = [...(board.connectors || []), ...restored];
+      this.markDirty({ boardId: board.id, boardFields: ['connectors'] });
+    }
+    return restored;
+  }
+
+  /**
+   * Add a user's operation to the board's history
+   */
+  private recordOperation(boardId: string, userId: string | undefined, operation: NoteOperation): void {
+    if (!userId || this.isApplyingHistory) {
+      return;
+    }
+    if (this.batchOperations) {
+      this.batchOperations.push(operation);
+      return;
+    }
+    this.operationLog.record(boardId, userId, operation);
+  }
+
+  /**
+   * Copy the given fields of a note
+   */
+  private pickFields(note: Note, fields: (keyof Note)[]): Partial<Note> {
+    const picked: Record<string, unknown> = {};
+    for (const field of fields) {
+      picked[field] = structuredClone(note[field]);
+    }
+    return picked as Partial<Note>;
+  }
+
   /**
    * Get statistics about current state
    */
@@ -326,6 +1715,8 @@ export class StateManager {
     return {
       boards: this.boards.size,
       notes: this.notes.size,
+      trashedBoards: this.trashedBoards.size,
+      trashedNotes: this.trashedNotes.size,
       isDirty: this.isDirty,
     };
   }
@@ -0,0 +1,44 @@
+import { Board, Note } from '../../../shared/src/types.js';
+
+/**
+ * Everything that changed since the last save.
+ * Boards are listed without regard to their notes; notes are saved separately.
+ */
+export interface StorageChanges {
+  boards: Board[]; // Boards created or changed (including moved to the trash)
+  notes: Note[]; // Notes created or changed (including moved to the trash)
+  deletedBoardIds: string[]; // Boards removed for good, along with their notes
+  deletedNoteIds: string[]; // Notes removed for good
+}
+
+/**
+ * Where StateManager keeps its data between restarts
+ */
+export interface StorageBackend {
+  /**
+   * Prepare the backend for use (create directories, tables, ...)
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Load all boards, including trashed boards and notes
+   */
+  loadBoards(): Promise<Board[]>;
+
+  /**
+   * Replace all stored data with the given boards
+   */
+  saveBoards(boards: Board[]): Promise<void>;
+
+  /**
+   * Persist the changes made since the last save.
+   * `boards` is the complete current state, for backends that cannot
+   * write individual changes.
+   */
+  saveChanges(changes: StorageChanges, boards: Board[]): Promise<void>;
+
+  /**
+   * Release any resources held by the backend
+   */
+  close?(): Promise<void>;
+}
@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { User } from '../../../shared/src/types.js';
+import { ValidationError } from '../../../shared/src/validation.js';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+interface StoredUser extends User {
+  passwordHash: string; // scrypt hash, hex
+  salt: string;
+}
+
+/**
+ * Local user accounts, kept in users.json with scrypt-hashed passwords
+ */
+export class UserStore {
+  private usersFile: string;
+  private users: Map<string, StoredUser> = new Map();
+  // Lowercased usernames of accounts being created, taken while their password hashes
+  private reserved: Set<string> = new Set();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string = './data') {
+    this.usersFile = path.join(dataDir, 'users.json');
+  }
+
+  /**
+   * Load existing accounts
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.usersFile), { recursive: true });
+    try {
+      const data = await fs.readFile(this.usersFile, 'utf-8');
+      for (const user of JSON.parse(data) as StoredUser[]) {
+        this.users.set(user.id, user);
+      }
+    } catch {
+      // No accounts yet
+    }
+    console.log(`Loaded ${this.users.size} user accounts`);
+  }
+
+  /**
+   * Create an account. Usernames are unique, ignoring case.
+   */
+  async createUser(username: string, password: string): Promise<User> {
+    const key = username.toLowerCase();
+    if (this.findByUsername(username) || this.reserved.has(key)) {
+      throw new ValidationError('Username is already taken');
+    }
+
+    this.reserved.add(key);
+    let user: StoredUser;
+    try {
+      const salt = crypto.randomBytes(16).toString('hex');
+      const hash = await scrypt(password, salt, KEY_LENGTH);
+      user = {
+        id: uuidv4(),
+        username,
+        createdAt: Date.now(),
+        passwordHash: hash.toString('hex'),
+        salt,
+      };
+    } finally {
+      this.reserved.delete(key);
+    }
+
+    this.users.set(user.id, user);
+    await this.save();
+    console.log(`Created user: ${username}`);
+    return this.toPublic(user);
+  }
+
+  /**
+   * Check a username and password, returning the user if they match
+   */
+  async verifyCredentials(username: string, password: string): Promise<User | undefined> {
+    const user = this.findByUsername(username);
+    // Hash even for unknown users so response times don't reveal which usernames exist
+    const salt = user?.salt || crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+
+    if (!user || !crypto.timingSafeEqual(hash, Buffer.from(user.passwordHash, 'hex'))) {
+      return undefined;
+    }
+    return this.toPublic(user);
+  }
+
+  getUser(userId: string): User | undefined {
+    const user = this.users.get(userId);
+    return user ? this.toPublic(user) : undefined;
+  }
+
+  private findByUsername(username: string): StoredUser | undefined {
+    const wanted = username.toLowerCase();
+    for (const user of this.users.values()) {
+      if (user.username.toLowerCase() === wanted) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  private toPublic(user: StoredUser): User {
+    return { id: user.id, username: user.username, createdAt: user.createdAt };
+  }
+
+  /**
+   * Write the file, one save at a time so an older save cannot land last
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const tempFile = `${this.usersFile}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(Array.from(this.users.values()), null, 2), 'utf-8');
+      await fs.rename(tempFile, this.usersFile);
+    });
+    return this.saving;
+  }
+}
@@ -0,0 +1,27 @@
+import { Socket } from 'socket.io';
+import { SessionStore } from '../services/sessionStore.js';
+import { UserStore } from '../services/userStore.js';
+import { getSessionToken } from '../api/auth.js';
+import { sessionRoom } from './broadcast.js';
+
+/**
+ * Socket.io middleware that accepts a connection only with a valid session
+ * cookie, and records the user in socket.data.userId (and their name in
+ * socket.data.username when a user store is given). The socket joins its
+ * session's room, so logging out can disconnect it.
+ */
+export function authenticateSocket(sessions: SessionStore, users?: UserStore) {
+  return (socket: Socket, next: (error?: Error) => void) => {
+    const token = getSessionToken(socket.handshake.headers.cookie);
+    const userId = token ? sessions.getUserId(token) : undefined;
+
+    if (!token || !userId) {
+      return next(new Error('Unauthorized'));
+    }
+
+    socket.data.userId = userId;
+    socket.data.username = users?.getUser(userId)?.username;
+    socket.join(sessionRoom(token));
+    next();
+  };
+}
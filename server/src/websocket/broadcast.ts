@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+import { Server } from 'socket.io';
+import { Board } from '../../../shared/src/types.js';
+import { getBoardMembers } from '../../../shared/src/access.js';
+
+/**
+ * Room every socket of a logged-in user joins, so board-wide events can
+ * reach a board's members without them having the board open
+ */
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Room every socket that logged in with a session joins, so they can all be
+ * disconnected when it ends. Named by a hash so the token isn't kept around.
+ */
+export function sessionRoom(token: string): string {
+  return `session:${crypto.createHash('sha256').update(token).digest('hex')}`;
+}
+
+/**
+ * Target for events about a board itself (created, renamed, deleted...).
+ * Boards without an ACL are visible to everyone.
+ */
+export function toBoardMembers(io: Server, board: Board) {
+  const members = getBoardMembers(board);
+  return members.length > 0 ? io.to(members.map(userRoom)) : io.except([]);
+}
@@ -1,45 +1,201 @@
 import { Server, Socket } from 'socket.io';
-import { StateManager } from '../services/stateManager.js';
+import { StateManager, HistoryResult } from '../services/stateManager.js';
+import { PresenceTracker } from '../services/presenceTracker.js';
+import { EditingLease, EditingLeaseTracker } from '../services/editingLeaseTracker.js';
+import { OperationAcks } from '../services/operationAcks.js';
 import { logger } from '../utils/logger.js';
 import {
   WSMessage,
+  MessageAck,
+  MessageErrorCode,
   CreateNotePayload,
   UpdateNotePayload,
+  NoteEditPayload,
   DeleteNotePayload,
   MoveNotePayload,
+  BulkNotePayload,
   CreateBoardPayload,
   DeleteBoardPayload,
   RenameBoardPayload,
   SyncRequestPayload,
+  HistoryPayload,
+  RestoreNotePayload,
+  RestoreBoardPayload,
+  PresenceHeartbeatPayload,
+  CursorMovePayload,
+  ViewportPayload,
+  EditingStartPayload,
+  EditingLeasePayload,
+  CreateConnectorPayload,
+  UpdateConnectorPayload,
+  DeleteConnectorPayload,
+  CreateFramePayload,
+  UpdateFramePayload,
+  MoveFramePayload,
+  DeleteFramePayload,
+  BatchPayload,
 } from '../../../shared/src/types.js';
 import {
   validateWSMessage,
   validateCreateNotePayload,
   validateUpdateNotePayload,
+  validateNoteEditPayload,
   validateDeleteNotePayload,
   validateMoveNotePayload,
+  validateBulkNotePayload,
   validateCreateBoardPayload,
   validateDeleteBoardPayload,
   validateRenameBoardPayload,
   validateSyncRequestPayload,
+  validateHistoryPayload,
+  validateRestoreNotePayload,
+  validateRestoreBoardPayload,
+  validatePresenceHeartbeatPayload,
+  validateEditingStartPayload,
+  validateEditingLeasePayload,
+  validateCursorMovePayload,
+  validateViewportPayload,
+  validateCreateConnectorPayload,
+  validateUpdateConnectorPayload,
+  validateDeleteConnectorPayload,
+  validateCreateFramePayload,
+  validateUpdateFramePayload,
+  validateMoveFramePayload,
+  validateDeleteFramePayload,
+  validateBatchPayload,
   ValidationError,
 } from '../../../shared/src/validation.js';
+import { AccessDeniedError } from '../../../shared/src/access.js';
+import { toBoardMembers, userRoom } from './broadcast.js';
+import { RATE_LIMITED_ERROR, SocketRateLimiter } from './rateLimit.js';
+
+type RejectMessage = (error: string, code?: MessageErrorCode) => void;
+
+export function setupWebSocketHandlers(
+  io: Server,
+  stateManager: StateManager,
+  presence: PresenceTracker = new PresenceTracker(),
+  leases: EditingLeaseTracker = new EditingLeaseTracker(),
+  rateLimiter: SocketRateLimiter = new SocketRateLimiter()
+): void {
+  // Drop people whose tab stopped sending heartbeats without disconnecting
+  const presenceSweep = setInterval(() => {
+    for (const { boardId, sessionId } of presence.expire()) {
+      emitPresenceLeft(io, boardId, sessionId);
+    }
+  }, presence.getTimeoutMs() / 3);
+  presenceSweep.unref();
+
+  // Unlock notes whose editor stopped renewing, e.g. a crashed tab
+  const leaseSweep = setInterval(() => {
+    for (const lease of leases.expire()) {
+      io.to(lease.sessionId).emit('note:editing:revoked', {
+        type: 'note:editing:revoked',
+        payload: { noteId: lease.noteId, reason: 'expired' },
+        timestamp: Date.now(),
+        userId: 'server',
+      });
+      emitEditingEnded(io, stateManager, lease, 'server');
+    }
+  }, leases.getTimeoutMs() / 3);
+  leaseSweep.unref();
+
+  const rateLimitSweep = setInterval(() => rateLimiter.prune(), 60000);
+  rateLimitSweep.unref();
+
+  const operationAcks = new OperationAcks();
 
-export function setupWebSocketHandlers(io: Server, stateManager: StateManager): void {
   io.on('connection', (socket: Socket) => {
     logger.info(`Client connected: ${socket.id}`, 'WebSocket');
 
+    const releaseRateLimits = rateLimiter.attach(socket, {
+      hasNote: noteId => !!stateManager.getNote(noteId),
+      // The client waits on each text operation's ack before sending the next
+      onRefused: (event, message) => {
+        if (event === 'note:edit') {
+          emitEditRejected(socket, stateManager, message, RATE_LIMITED_ERROR);
+        }
+      },
+    });
+
+    // The sender of a message is whoever the session belongs to, not what the client claims
+    socket.use(([, message], next) => {
+      if (socket.data.userId && typeof message === 'object' && message !== null) {
+        message.userId = socket.data.userId;
+      }
+      next();
+    });
+
+    if (socket.data.userId) {
+      socket.join(userRoom(socket.data.userId));
+    }
+
+    // Handle a client message and acknowledge it once handled, if the client
+    // asked for that. A rejection is sent in the acknowledgement and, for
+    // clients that don't ask, as an error event. Rejections with a code are
+    // reported to the client by their own event, e.g. note:conflict.
+    // Operations sent again after a dropped connection get the same answer
+    // as the first time, without being handled again.
+    const onMessage = (event: string, handler: (message: WSMessage, reject: RejectMessage) => void) => {
+      socket.on(event, (message: WSMessage, ack?: unknown) => {
+        const opId = typeof ack === 'function' && typeof message?.opId === 'string' ? message.opId : undefined;
+        const answered = opId && operationAcks.get(String(message.userId), opId);
+        if (answered) {
+          (ack as (result: MessageAck) => void)(answered);
+          return;
+        }
+
+        let result: MessageAck = { ok: true };
+        handler(message, (error, code) => {
+          result = code ? { ok: false, error, code } : { ok: false, error };
+          if (!code) {
+            socket.emit('error', { message: error, originalMessage: message });
+          }
+        });
+        if (typeof ack === 'function') {
+          ack(result);
+        }
+        if (opId) {
+          operationAcks.record(String(message.userId), opId, result);
+        }
+      });
+    };
+
+    // Announce this connection on a board and send it everyone already there
+    const joinPresence = (boardId: string) => {
+      const userId = socket.data.userId || socket.id;
+      const info = presence.join(boardId, socket.id, userId, socket.data.username || 'Guest');
+
+      socket.emit('presence:state', {
+        type: 'presence:state',
+        payload: { boardId, users: presence.getBoardPresence(boardId) },
+        timestamp: Date.now(),
+        userId,
+      });
+      socket.to(`board:${boardId}`).emit('presence:joined', {
+        type: 'presence:joined',
+        payload: { boardId, user: info },
+        timestamp: Date.now(),
+        userId,
+      });
+    };
+
     // Handle client joining a board room
     socket.on('join:board', (boardId: string) => {
       try {
         if (typeof boardId === 'string' && boardId.length > 0) {
+          stateManager.assertBoardRole(boardId, socket.data.userId, 'viewer');
           socket.join(`board:${boardId}`);
+          joinPresence(boardId);
           logger.info(`Client ${socket.id} joined board: ${boardId}`, 'WebSocket');
         } else {
           logger.warn(`Invalid boardId received from ${socket.id}`, 'WebSocket');
         }
       } catch (error) {
         logger.error(error as Error, 'join:board');
+        if (error instanceof AccessDeniedError) {
+          socket.emit('error', { message: error.message, originalMessage: boardId });
+        }
       }
     });
 
@@ -48,6 +204,9 @@ export function setupWebSocketHandlers(io: Server, stateManager: StateManager):
       try {
         if (typeof boardId === 'string' && boardId.length > 0) {
           socket.leave(`board:${boardId}`);
+          if (presence.leave(boardId, socket.id)) {
+            emitPresenceLeft(io, boardId, socket.id);
+          }
           logger.info(`Client ${socket.id} left board: ${boardId}`, 'WebSocket');
         }
       } catch (error) {
@@ -56,119 +215,222 @@ export function setupWebSocketHandlers(io: Server, stateManager: StateManager):
     });
 
     // Handle note creation
-    socket.on('note:create', (message: WSMessage) => {
+    onMessage('note:create', (message, reject) => {
       try {
         validateWSMessage(message);
         validateCreateNotePayload(message.payload);
 
         const payload = message.payload as CreateNotePayload;
-        const note = stateManager.createNote(payload.boardId, payload.x, payload.y);
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
+        const note = stateManager.createNote(payload.boardId, payload.x, payload.y, message.userId, payload.id);
 
         if (note) {
           // Broadcast to all clients in the board room (including sender)
           io.to(`board:${payload.boardId}`).emit('note:created', {
             type: 'note:created',
+            sequence: stateManager.nextBroadcastSequence(payload.boardId),
             payload: note,
             timestamp: Date.now(),
             userId: message.userId,
           });
         } else {
-          socket.emit('error', {
-            message: 'Failed to create note',
-            originalMessage: message,
-          });
+          reject('Failed to create note');
         }
       } catch (error) {
         logger.error(error as Error, 'note:create');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
       }
     });
 
     // Handle note updates
-    socket.on('note:update', (message: WSMessage) => {
+    onMessage('note:update', (message, reject) => {
       try {
         validateWSMessage(message);
         validateUpdateNotePayload(message.payload);
 
         const payload = message.payload as UpdateNotePayload;
-        const note = stateManager.updateNote(payload.noteId, payload.updates);
+        stateManager.assertNoteRole(payload.noteId, message.userId, 'editor');
+
+        // Reject stale writes that would overwrite someone else's changes
+        if (payload.baseVersion !== undefined) {
+          const conflictingFields = stateManager.getConflictingFields(
+            payload.noteId,
+            payload.updates,
+            payload.baseVersion,
+            message.userId
+          );
+          const currentNote = stateManager.getNote(payload.noteId);
+
+          if (currentNote && conflictingFields.length > 0) {
+            socket.emit('note:conflict', {
+              type: 'note:conflict',
+              payload: {
+                noteId: payload.noteId,
+                baseVersion: payload.baseVersion,
+                attemptedUpdates: payload.updates,
+                currentNote,
+                conflictingFields,
+              },
+              timestamp: Date.now(),
+              userId: message.userId,
+            });
+            reject(`Note was changed by someone else: ${conflictingFields.join(', ')}`, 'conflict');
+            return;
+          }
+        }
+
+        const note = stateManager.updateNote(payload.noteId, payload.updates, message.userId);
 
         if (note) {
           // Broadcast to all clients in the board room (including sender)
           io.to(`board:${note.boardId}`).emit('note:updated', {
             type: 'note:updated',
+            sequence: stateManager.nextBroadcastSequence(note.boardId),
             payload: note,
             timestamp: Date.now(),
             userId: message.userId,
           });
         } else {
-          socket.emit('error', {
-            message: 'Failed to update note',
-            originalMessage: message,
-          });
+          reject('Failed to update note');
         }
       } catch (error) {
         logger.error(error as Error, 'note:update');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle collaborative content edits (operational transform)
+    onMessage('note:edit', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateNoteEditPayload(message.payload);
+
+        const payload = message.payload as NoteEditPayload;
+        stateManager.assertNoteRole(payload.noteId, message.userId, 'editor');
+        const result = stateManager.applyNoteEdit(
+          payload.noteId,
+          payload.revision,
+          payload.operation,
+          message.userId
+        );
+
+        if (result) {
+          const { note, operation } = result;
+          const revision = note.contentRevision || 0;
+          // The sender isn't sent the broadcast, so the ack carries its place in the sequence
+          const sequence = stateManager.nextBroadcastSequence(note.boardId);
+
+          // Acknowledge to the sender so it can send its next buffered edit
+          socket.emit('note:edit:ack', {
+            type: 'note:edit:ack',
+            sequence,
+            payload: { noteId: note.id, revision, version: note.version },
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+
+          // Broadcast the transformed operation to everyone else in the board room
+          socket.to(`board:${note.boardId}`).emit('note:edited', {
+            type: 'note:edited',
+            sequence,
+            payload: {
+              noteId: note.id,
+              revision,
+              operation,
+              version: note.version,
+              updatedAt: note.updatedAt,
+            },
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Failed to edit note');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'note:edit');
+        reject(errorMessage(error));
+        emitEditRejected(socket, stateManager, message, errorMessage(error));
       }
     });
 
     // Handle note deletion
-    socket.on('note:delete', (message: WSMessage) => {
+    onMessage('note:delete', (message, reject) => {
       try {
         validateWSMessage(message);
         validateDeleteNotePayload(message.payload);
 
         const payload = message.payload as DeleteNotePayload;
+        stateManager.assertNoteRole(payload.noteId, message.userId, 'editor');
         const note = stateManager.getNote(payload.noteId);
 
         if (note) {
           const boardId = note.boardId;
-          const success = stateManager.deleteNote(payload.noteId);
+          const success = stateManager.deleteNote(payload.noteId, message.userId);
 
           if (success) {
+            leases.clear(payload.noteId);
+
             // Broadcast to all clients in the board room (including sender)
             io.to(`board:${boardId}`).emit('note:deleted', {
               type: 'note:deleted',
+              sequence: stateManager.nextBroadcastSequence(boardId),
               payload: { noteId: payload.noteId },
               timestamp: Date.now(),
               userId: message.userId,
             });
           }
         } else {
-          socket.emit('error', {
-            message: 'Note not found',
-            originalMessage: message,
-          });
+          reject('Note not found');
         }
       } catch (error) {
         logger.error(error as Error, 'note:delete');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle restoring a note from the trash
+    onMessage('note:restore', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateRestoreNotePayload(message.payload);
+
+        const payload = message.payload as RestoreNotePayload;
+        stateManager.assertNoteRole(payload.noteId, message.userId, 'editor');
+        const note = stateManager.restoreNote(payload.noteId);
+
+        if (note) {
+          // Broadcast to all clients in the board room (including sender)
+          io.to(`board:${note.boardId}`).emit('note:restored', {
+            type: 'note:restored',
+            sequence: stateManager.nextBroadcastSequence(note.boardId),
+            payload: note,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Note not found in trash');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'note:restore');
+        reject(errorMessage(error));
       }
     });
 
     // Handle note movement
-    socket.on('note:move', (message: WSMessage) => {
+    onMessage('note:move', (message, reject) => {
       try {
         validateWSMessage(message);
         validateMoveNotePayload(message.payload);
 
         const payload = message.payload as MoveNotePayload;
-        const note = stateManager.moveNote(payload.noteId, payload.x, payload.y);
+        stateManager.assertNoteRole(payload.noteId, message.userId, 'editor');
+        const note = stateManager.moveNote(payload.noteId, payload.x, payload.y, message.userId);
 
         if (note) {
           // Broadcast to all clients in the board room (including sender)
           io.to(`board:${note.boardId}`).emit('note:moved', {
             type: 'note:moved',
+            sequence: stateManager.nextBroadcastSequence(note.boardId),
             payload: {
               noteId: note.id,
               x: note.x,
@@ -178,30 +440,77 @@ export function setupWebSocketHandlers(io: Server, stateManager: StateManager):
             userId: message.userId,
           });
         } else {
-          socket.emit('error', {
-            message: 'Failed to move note',
-            originalMessage: message,
-          });
+          reject('Failed to move note');
         }
       } catch (error) {
         logger.error(error as Error, 'note:move');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
       }
     });
 
-    // Handle editing start
-    socket.on('note:editing:start', (message: WSMessage) => {
+    // Handle one operation on several selected notes, broadcast as a single
+    // event so collaborators never see the selection half-changed
+    onMessage('note:bulk', (message, reject) => {
       try {
         validateWSMessage(message);
-        const { noteId, userId } = message.payload;
+        validateBulkNotePayload(message.payload);
+
+        const payload = message.payload as BulkNotePayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
+        const result = stateManager.applyBulkNoteOperation(payload, message.userId);
+
+        if (result) {
+          result.deletedNoteIds.forEach(noteId => leases.clear(noteId));
+          io.to(`board:${result.boardId}`).emit('note:bulk:applied', {
+            type: 'note:bulk:applied',
+            sequence: stateManager.nextBroadcastSequence(result.boardId),
+            payload: result,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Board not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'note:bulk');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle editing start. Editing is a lease held by this connection; a
+    // note someone else is editing can only be taken over explicitly.
+    onMessage('note:editing:start', (message) => {
+      try {
+        validateWSMessage(message);
+        validateEditingStartPayload(message.payload);
+        const { noteId, takeover } = message.payload as EditingStartPayload;
+        const userId = message.userId;
+        stateManager.assertNoteRole(noteId, userId, 'editor');
         const note = stateManager.getNote(noteId);
 
         if (note) {
-          // Update note editing state
-          stateManager.updateNote(noteId, { editingBy: userId });
+          const result = leases.acquire(noteId, note.boardId, userId, socket.id, takeover === true);
+          if (!result.granted) {
+            socket.emit('note:editing:denied', {
+              type: 'note:editing:denied',
+              payload: { noteId, userId: result.holder.userId },
+              timestamp: Date.now(),
+              userId,
+            });
+            return;
+          }
+
+          // Let the previous editor know they lost the note
+          if (result.previous) {
+            io.to(result.previous.sessionId).emit('note:editing:revoked', {
+              type: 'note:editing:revoked',
+              payload: { noteId, reason: 'takeover', userId },
+              timestamp: Date.now(),
+              userId,
+            });
+          }
+
+          stateManager.setEditingBy(noteId, userId);
           
           // Broadcast to all clients in the board room
           io.to(`board:${note.boardId}`).emit('note:editing:started', {
@@ -216,72 +525,317 @@ export function setupWebSocketHandlers(io: Server, stateManager: StateManager):
       }
     });
 
-    // Handle editing end
-    socket.on('note:editing:end', (message: WSMessage) => {
+    // Handle editing lease renewal
+    onMessage('note:editing:heartbeat', (message) => {
       try {
         validateWSMessage(message);
-        const { noteId } = message.payload;
-        const note = stateManager.getNote(noteId);
+        validateEditingLeasePayload(message.payload);
+        const { noteId } = message.payload as EditingLeasePayload;
 
-        if (note) {
-          // Clear note editing state
-          stateManager.updateNote(noteId, { editingBy: undefined });
-          
-          // Broadcast to all clients in the board room
-          io.to(`board:${note.boardId}`).emit('note:editing:ended', {
-            type: 'note:editing:ended',
-            payload: { noteId },
+        if (!leases.renew(noteId, socket.id)) {
+          socket.emit('note:editing:revoked', {
+            type: 'note:editing:revoked',
+            payload: { noteId, reason: 'expired' },
             timestamp: Date.now(),
             userId: message.userId,
           });
         }
+      } catch (error) {
+        logger.error(error as Error, 'note:editing:heartbeat');
+      }
+    });
+
+    // Handle editing end
+    onMessage('note:editing:end', (message) => {
+      try {
+        validateWSMessage(message);
+        validateEditingLeasePayload(message.payload);
+        const { noteId } = message.payload as EditingLeasePayload;
+
+        // Only the lease holder can end editing, so a late message can't unlock someone else's edit
+        const lease = leases.release(noteId, socket.id);
+        if (lease) {
+          emitEditingEnded(io, stateManager, lease, message.userId);
+        }
       } catch (error) {
         logger.error(error as Error, 'note:editing:end');
       }
     });
 
+    // Handle connecting two notes
+    onMessage('connector:create', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateCreateConnectorPayload(message.payload);
+
+        const payload = message.payload as CreateConnectorPayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
+        const connector = stateManager.createConnector(payload);
+
+        if (connector) {
+          io.to(`board:${connector.boardId}`).emit('connector:created', {
+            type: 'connector:created',
+            sequence: stateManager.nextBroadcastSequence(connector.boardId),
+            payload: connector,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Board not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'connector:create');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle connector label and style changes
+    onMessage('connector:update', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateUpdateConnectorPayload(message.payload);
+
+        const payload = message.payload as UpdateConnectorPayload;
+        const existing = stateManager.getConnector(payload.connectorId);
+        if (existing) {
+          stateManager.assertBoardRole(existing.boardId, message.userId, 'editor');
+        }
+        const connector = existing && stateManager.updateConnector(payload.connectorId, payload.updates);
+
+        if (connector) {
+          io.to(`board:${connector.boardId}`).emit('connector:updated', {
+            type: 'connector:updated',
+            sequence: stateManager.nextBroadcastSequence(connector.boardId),
+            payload: connector,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Connector not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'connector:update');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle connector deletion
+    onMessage('connector:delete', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateDeleteConnectorPayload(message.payload);
+
+        const payload = message.payload as DeleteConnectorPayload;
+        const existing = stateManager.getConnector(payload.connectorId);
+        if (existing) {
+          stateManager.assertBoardRole(existing.boardId, message.userId, 'editor');
+        }
+        const connector = existing && stateManager.deleteConnector(payload.connectorId);
+
+        if (connector) {
+          io.to(`board:${connector.boardId}`).emit('connector:deleted', {
+            type: 'connector:deleted',
+            sequence: stateManager.nextBroadcastSequence(connector.boardId),
+            payload: { connectorId: connector.id, boardId: connector.boardId },
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Connector not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'connector:delete');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle frame creation
+    onMessage('frame:create', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateCreateFramePayload(message.payload);
+
+        const payload = message.payload as CreateFramePayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
+        const frame = stateManager.createFrame(payload);
+
+        if (frame) {
+          io.to(`board:${frame.boardId}`).emit('frame:created', {
+            type: 'frame:created',
+            sequence: stateManager.nextBroadcastSequence(frame.boardId),
+            payload: frame,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Board not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'frame:create');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle renaming, resizing and collapsing frames
+    onMessage('frame:update', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateUpdateFramePayload(message.payload);
+
+        const payload = message.payload as UpdateFramePayload;
+        const existing = stateManager.getFrame(payload.frameId);
+        if (existing) {
+          stateManager.assertBoardRole(existing.boardId, message.userId, 'editor');
+        }
+        const frame = existing && stateManager.updateFrame(payload.frameId, payload.updates);
+
+        if (frame) {
+          io.to(`board:${frame.boardId}`).emit('frame:updated', {
+            type: 'frame:updated',
+            sequence: stateManager.nextBroadcastSequence(frame.boardId),
+            payload: frame,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Frame not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'frame:update');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle frame moves, sent once the frame is dropped. Which notes come
+    // along is worked out here from where the frame was before the move.
+    onMessage('frame:move', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateMoveFramePayload(message.payload);
+
+        const payload = message.payload as MoveFramePayload;
+        const existing = stateManager.getFrame(payload.frameId);
+        if (existing) {
+          stateManager.assertBoardRole(existing.boardId, message.userId, 'editor');
+        }
+        const moved = existing && stateManager.moveFrame(payload.frameId, payload.x, payload.y, message.userId);
+
+        if (moved) {
+          io.to(`board:${moved.frame.boardId}`).emit('frame:moved', {
+            type: 'frame:moved',
+            sequence: stateManager.nextBroadcastSequence(moved.frame.boardId),
+            payload: moved,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Frame not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'frame:move');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle frame deletion
+    onMessage('frame:delete', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateDeleteFramePayload(message.payload);
+
+        const payload = message.payload as DeleteFramePayload;
+        const existing = stateManager.getFrame(payload.frameId);
+        if (existing) {
+          stateManager.assertBoardRole(existing.boardId, message.userId, 'editor');
+        }
+        const frame = existing && stateManager.deleteFrame(payload.frameId);
+
+        if (frame) {
+          io.to(`board:${frame.boardId}`).emit('frame:deleted', {
+            type: 'frame:deleted',
+            sequence: stateManager.nextBroadcastSequence(frame.boardId),
+            payload: { frameId: frame.id, boardId: frame.boardId },
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Frame not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'frame:delete');
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle several changes sent as one unit. They are applied all or
+    // nothing, and collaborators get a single event with the outcome.
+    onMessage('batch', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateBatchPayload(message.payload);
+
+        const payload = message.payload as BatchPayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
+        const result = stateManager.applyBatch(payload, message.userId);
+
+        if (result) {
+          result.deletedNoteIds.forEach(noteId => leases.clear(noteId));
+          io.to(`board:${result.boardId}`).emit('batch:applied', {
+            type: 'batch:applied',
+            sequence: stateManager.nextBroadcastSequence(result.boardId),
+            payload: result,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Board not found');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'batch');
+        reject(errorMessage(error));
+      }
+    });
+
     // Handle board creation (broadcast only - board already created via REST)
-    socket.on('board:create', (message: WSMessage) => {
+    onMessage('board:create', (message, reject) => {
       try {
         validateWSMessage(message);
         validateCreateBoardPayload(message.payload);
 
         const payload = message.payload as CreateBoardPayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'viewer');
         const board = stateManager.getBoard(payload.boardId);
 
         if (board) {
-          // Broadcast existing board to other clients (not sender)
-          socket.broadcast.emit('board:created', {
+          // Broadcast existing board to its other members (not sender)
+          toBoardMembers(io, board).except(socket.id).emit('board:created', {
             type: 'board:created',
             payload: board,
             timestamp: Date.now(),
             userId: message.userId,
           });
         } else {
-          socket.emit('error', {
-            message: 'Board not found',
-            originalMessage: message,
-          });
+          reject('Board not found');
         }
       } catch (error) {
         logger.error(error as Error, 'board:create');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
       }
     });
 
     // Handle board deletion (broadcast only - board already deleted via REST)
-    socket.on('board:delete', (message: WSMessage) => {
+    onMessage('board:delete', (message, reject) => {
       try {
         validateWSMessage(message);
         validateDeleteBoardPayload(message.payload);
 
         const payload = message.payload as DeleteBoardPayload;
-        
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'owner');
+        const board = stateManager.findBoard(payload.boardId);
+        const audience = board ? toBoardMembers(io, board) : io;
+
         // Broadcast to other clients (not sender - they already deleted locally)
-        socket.broadcast.emit('board:deleted', {
+        audience.except(socket.id).emit('board:deleted', {
           type: 'board:deleted',
           payload: { boardId: payload.boardId },
           timestamp: Date.now(),
@@ -289,82 +843,295 @@ export function setupWebSocketHandlers(io: Server, stateManager: StateManager):
         });
       } catch (error) {
         logger.error(error as Error, 'board:delete');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle restoring a board from the trash
+    onMessage('board:restore', (message, reject) => {
+      try {
+        validateWSMessage(message);
+        validateRestoreBoardPayload(message.payload);
+
+        const payload = message.payload as RestoreBoardPayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'owner');
+        const board = stateManager.restoreBoard(payload.boardId);
+
+        if (board) {
+          // Broadcast to all of the board's members (including sender)
+          toBoardMembers(io, board).emit('board:restored', {
+            type: 'board:restored',
+            sequence: stateManager.nextBroadcastSequence(board.id),
+            payload: board,
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        } else {
+          reject('Board not found in trash');
+        }
+      } catch (error) {
+        logger.error(error as Error, 'board:restore');
+        reject(errorMessage(error));
       }
     });
 
     // Handle board rename
-    socket.on('board:rename', (message: WSMessage) => {
+    onMessage('board:rename', (message, reject) => {
       try {
         validateWSMessage(message);
         validateRenameBoardPayload(message.payload);
 
         const payload = message.payload as RenameBoardPayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
         const board = stateManager.renameBoard(payload.boardId, payload.name);
 
         if (board) {
-          // Broadcast to all connected clients
-          io.emit('board:renamed', {
+          // Broadcast to all of the board's members
+          toBoardMembers(io, board).emit('board:renamed', {
             type: 'board:renamed',
+            sequence: stateManager.nextBroadcastSequence(board.id),
             payload: board,
             timestamp: Date.now(),
             userId: message.userId,
           });
         } else {
-          socket.emit('error', {
-            message: 'Board not found',
-            originalMessage: message,
-          });
+          reject('Board not found');
         }
       } catch (error) {
         logger.error(error as Error, 'board:rename');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
       }
     });
 
     // Handle sync request (for reconnection)
-    socket.on('sync:request', (message: WSMessage) => {
+    onMessage('sync:request', (message, reject) => {
       try {
         validateWSMessage(message);
         validateSyncRequestPayload(message.payload);
 
         const payload = message.payload as SyncRequestPayload;
-        const board = stateManager.getBoard(payload.boardId);
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'viewer');
+        const response = stateManager.getBoardSync(payload.boardId, payload.since);
 
-        if (board) {
+        if (response) {
           // Send sync response only to requesting client
           socket.emit('sync:response', {
             type: 'sync:response',
-            payload: { board },
+            payload: response,
             timestamp: Date.now(),
             userId: message.userId,
           });
         } else {
-          socket.emit('error', {
-            message: 'Board not found',
-            originalMessage: message,
-          });
+          reject('Board not found');
         }
       } catch (error) {
         logger.error(error as Error, 'sync:request');
-        socket.emit('error', {
-          message: error instanceof ValidationError ? error.message : 'Invalid message format',
-          originalMessage: message,
-        });
+        reject(errorMessage(error));
+      }
+    });
+
+    // Handle undo/redo of the sender's own operations on a board
+    const handleHistory = (direction: 'undo' | 'redo') => (message: WSMessage, reject: RejectMessage) => {
+      try {
+        validateWSMessage(message);
+        validateHistoryPayload(message.payload);
+
+        const payload = message.payload as HistoryPayload;
+        stateManager.assertBoardRole(payload.boardId, message.userId, 'editor');
+        const result = direction === 'undo'
+          ? stateManager.undo(payload.boardId, message.userId)
+          : stateManager.redo(payload.boardId, message.userId);
+
+        if (result) {
+          if (result.action === 'deleted') {
+            leases.clear(result.note.id);
+          }
+          // Broadcast the inverse as a regular note event to all clients in the board room
+          emitHistoryResult(io, stateManager, payload.boardId, result, message.userId);
+        } else {
+          reject(direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo');
+        }
+      } catch (error) {
+        logger.error(error as Error, `history:${direction}`);
+        reject(errorMessage(error));
+      }
+    };
+
+    onMessage('history:undo', handleHistory('undo'));
+    onMessage('history:redo', handleHistory('redo'));
+
+    // Keep this connection in the board's presence list
+    onMessage('presence:heartbeat', (message) => {
+      try {
+        validateWSMessage(message);
+        validatePresenceHeartbeatPayload(message.payload);
+
+        const { boardId } = message.payload as PresenceHeartbeatPayload;
+        if (!socket.rooms.has(`board:${boardId}`)) {
+          // Removed from the room, e.g. after losing access to the board
+          if (presence.leave(boardId, socket.id)) {
+            emitPresenceLeft(io, boardId, socket.id);
+          }
+        } else if (!presence.heartbeat(boardId, socket.id)) {
+          // A heartbeat after timing out (e.g. a laptop waking up) joins again
+          joinPresence(boardId);
+        }
+      } catch (error) {
+        logger.error(error as Error, 'presence:heartbeat');
+      }
+    });
+
+    // Relay cursor positions, in board coordinates, to everyone else on the board
+    onMessage('presence:cursor', (message) => {
+      try {
+        validateWSMessage(message);
+        validateCursorMovePayload(message.payload);
+
+        const { boardId, x, y } = message.payload as CursorMovePayload;
+        if (presence.moveCursor(boardId, socket.id, x, y)) {
+          socket.to(`board:${boardId}`).emit('presence:cursor', {
+            type: 'presence:cursor',
+            payload: { boardId, x, y, sessionId: socket.id },
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        }
+      } catch (error) {
+        logger.error(error as Error, 'presence:cursor');
+      }
+    });
+
+    // Relay viewport changes so others can follow this connection around the board
+    onMessage('presence:viewport', (message) => {
+      try {
+        validateWSMessage(message);
+        validateViewportPayload(message.payload);
+
+        const { boardId, x, y, scale } = message.payload as ViewportPayload;
+        if (presence.setViewport(boardId, socket.id, { x, y, scale })) {
+          socket.to(`board:${boardId}`).emit('presence:viewport', {
+            type: 'presence:viewport',
+            payload: { boardId, x, y, scale, sessionId: socket.id },
+            timestamp: Date.now(),
+            userId: message.userId,
+          });
+        }
+      } catch (error) {
+        logger.error(error as Error, 'presence:viewport');
       }
     });
 
     // Handle disconnection
     socket.on('disconnect', () => {
+      releaseRateLimits();
+      for (const boardId of presence.leaveAll(socket.id)) {
+        emitPresenceLeft(io, boardId, socket.id);
+      }
+      for (const lease of leases.releaseSession(socket.id)) {
+        emitEditingEnded(io, stateManager, lease, 'server');
+      }
       logger.info(`Client disconnected: ${socket.id}`, 'WebSocket');
     });
   });
 
   logger.info('WebSocket handlers initialized', 'WebSocket');
 }
+
+/**
+ * Tell a board that a connection has gone
+ */
+function emitPresenceLeft(io: Server, boardId: string, sessionId: string): void {
+  io.to(`board:${boardId}`).emit('presence:left', {
+    type: 'presence:left',
+    payload: { boardId, sessionId },
+    timestamp: Date.now(),
+    userId: 'server',
+  });
+}
+
+/**
+ * Let a client reset its edit state for a note to the server's copy
+ */
+function emitEditRejected(socket: Socket, stateManager: StateManager, message: WSMessage, error: string): void {
+  const noteId = message?.payload?.noteId;
+  const note = typeof noteId === 'string' ? stateManager.getNote(noteId) : undefined;
+  if (note && canView(stateManager, note.boardId, socket.data.userId)) {
+    socket.emit('note:edit:rejected', {
+      type: 'note:edit:rejected',
+      payload: {
+        noteId: note.id,
+        revision: note.contentRevision || 0,
+        content: note.content,
+        message: error,
+      },
+      timestamp: Date.now(),
+      userId: message.userId,
+    });
+  }
+}
+
+/**
+ * Unlock a note whose editing lease has ended
+ */
+function emitEditingEnded(io: Server, stateManager: StateManager, lease: EditingLease, userId: string): void {
+  stateManager.setEditingBy(lease.noteId, undefined);
+  io.to(`board:${lease.boardId}`).emit('note:editing:ended', {
+    type: 'note:editing:ended',
+    payload: { noteId: lease.noteId },
+    timestamp: Date.now(),
+    userId,
+  });
+}
+
+/**
+ * Broadcast the note change made by an undo or redo
+ */
+function emitHistoryResult(
+  io: Server,
+  stateManager: StateManager,
+  boardId: string,
+  result: HistoryResult,
+  userId: string
+): void {
+  const room = io.to(`board:${boardId}`);
+  const timestamp = Date.now();
+  const sequence = stateManager.nextBroadcastSequence(boardId);
+
+  if (result.action === 'created') {
+    room.emit('note:created', { type: 'note:created', sequence, payload: result.note, timestamp, userId });
+    for (const connector of result.connectors || []) {
+      room.emit('connector:created', {
+        type: 'connector:created',
+        sequence: stateManager.nextBroadcastSequence(boardId),
+        payload: connector,
+        timestamp,
+        userId,
+      });
+    }
+  } else if (result.action === 'deleted') {
+    room.emit('note:deleted', { type: 'note:deleted', sequence, payload: { noteId: result.note.id }, timestamp, userId });
+  } else {
+    room.emit('note:updated', { type: 'note:updated', sequence, payload: result.note, timestamp, userId });
+  }
+}
+
+/**
+ * Whether a user may see a board, and so be sent its notes' content
+ */
+function canView(stateManager: StateManager, boardId: string, userId: string | undefined): boolean {
+  try {
+    stateManager.assertBoardRole(boardId, userId, 'viewer');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Error text safe to send back to the client
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof ValidationError || error instanceof AccessDeniedError
+    ? error.message
+    : 'Invalid message format';
+}
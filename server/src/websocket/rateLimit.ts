@@ -0,0 +1,150 @@
+import { Socket } from 'socket.io';
+import { MessageAck } from '../../../shared/src/types.js';
+import { RateLimit, RateLimiter } from '../services/rateLimiter.js';
+
+export interface WebSocketRateLimits {
+  socket: RateLimit; // Every message from one connection
+  messages: Partial<Record<string, RateLimit>>; // Particular message types, on top of that
+}
+
+// Clients send drags and cursors at most 20 times a second
+export const DEFAULT_WS_RATE_LIMITS: WebSocketRateLimits = {
+  socket: { perSecond: 60, burst: 120 },
+  messages: {
+    'note:create': { perSecond: 5, burst: 20 },
+    'note:move': { perSecond: 30, burst: 60 },
+    'note:bulk': { perSecond: 5, burst: 10 },
+    'batch': { perSecond: 5, burst: 10 },
+    'presence:cursor': { perSecond: 30, burst: 30 },
+  },
+};
+
+export const RATE_LIMITED_ERROR = 'Too many changes at once, slow down';
+
+// Most notes one connection can have moves held back for at once
+const MAX_HELD_MOVES = 100;
+
+interface HeldMove {
+  next: () => void;
+  ack?: (result: MessageAck) => void;
+}
+
+export interface RateLimitHooks {
+  // Moves are only held back for notes that exist
+  hasNote(noteId: string): boolean;
+  // For refused messages the client needs to hear about in some other way too
+  onRefused?(event: string, message: any): void;
+}
+
+/**
+ * Per-connection limits on incoming messages. Anything over a limit is
+ * refused with a rate_limited error, except note moves: only a note's final
+ * position matters, so excess moves are held back and replaced by later moves
+ * of the same note until the limit allows sending the latest one on.
+ */
+export class SocketRateLimiter {
+  private socketLimiter: RateLimiter;
+  private messageLimiters: Map<string, RateLimiter> = new Map();
+
+  constructor(limits: WebSocketRateLimits = DEFAULT_WS_RATE_LIMITS) {
+    this.socketLimiter = new RateLimiter(limits.socket);
+    for (const [type, limit] of Object.entries(limits.messages)) {
+      if (limit) {
+        this.messageLimiters.set(type, new RateLimiter(limit));
+      }
+    }
+  }
+
+  /**
+   * Apply the limits to a connection's messages. Returns a function to call
+   * when it disconnects, which drops any moves still held back.
+   */
+  attach(socket: Socket, hooks: RateLimitHooks): () => void {
+    const heldMoves: Map<string, HeldMove> = new Map();
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      for (const [noteId, move] of heldMoves) {
+        if (!this.tryTake(socket.id, 'note:move')) {
+          scheduleFlush();
+          return;
+        }
+        heldMoves.delete(noteId);
+        move.next();
+      }
+    };
+
+    const scheduleFlush = () => {
+      if (!flushTimer) {
+        flushTimer = setTimeout(flush, this.getRetryAfterMs(socket.id, 'note:move'));
+      }
+    };
+
+    const refuse = (event: string, message: any, ack: unknown) => {
+      // Only clients that don't want acks get an error event, so a flood isn't answered in kind
+      if (typeof ack === 'function') {
+        ack({ ok: false, error: RATE_LIMITED_ERROR, code: 'rate_limited' } satisfies MessageAck);
+      } else {
+        socket.emit('error', { message: RATE_LIMITED_ERROR, code: 'rate_limited', originalMessage: message });
+      }
+      // Messages let through earlier are handled on the next tick, so wait for them
+      if (hooks.onRefused) {
+        process.nextTick(() => hooks.onRefused!(event, message));
+      }
+    };
+
+    socket.use(([event, message, ack], next) => {
+      const noteId = event === 'note:move' ? message?.payload?.noteId : undefined;
+      const held = typeof noteId === 'string' ? heldMoves.get(noteId) : undefined;
+      if (held) {
+        // Sending the earlier move later would undo this one
+        held.ack?.({ ok: true });
+        heldMoves.set(noteId, { next, ack: typeof ack === 'function' ? ack : undefined });
+        return;
+      }
+
+      if (this.tryTake(socket.id, event)) {
+        return next();
+      }
+
+      if (typeof noteId === 'string' && heldMoves.size < MAX_HELD_MOVES && hooks.hasNote(noteId)) {
+        heldMoves.set(noteId, { next, ack: typeof ack === 'function' ? ack : undefined });
+        scheduleFlush();
+        return;
+      }
+      refuse(event, message, ack);
+    });
+
+    return () => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+      heldMoves.clear();
+    };
+  }
+
+  // Forget connections that have gone quiet
+  prune(now: number = Date.now()): void {
+    this.socketLimiter.prune(now);
+    this.messageLimiters.forEach(limiter => limiter.prune(now));
+  }
+
+  // Takes from the connection's budget and the message type's, but only if both allow it
+  private tryTake(socketId: string, event: string): boolean {
+    const messageLimiter = this.messageLimiters.get(event);
+    if (!this.socketLimiter.canTake(socketId) || (messageLimiter && !messageLimiter.canTake(socketId))) {
+      return false;
+    }
+    this.socketLimiter.tryTake(socketId);
+    messageLimiter?.tryTake(socketId);
+    return true;
+  }
+
+  private getRetryAfterMs(socketId: string, event: string): number {
+    return Math.max(
+      this.socketLimiter.getRetryAfterMs(socketId),
+      this.messageLimiters.get(event)?.getRetryAfterMs(socketId) ?? 0
+    );
+  }
+}
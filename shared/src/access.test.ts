@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getBoardMembers, getBoardRole, hasBoardRole } from './access';
+import { Board } from './types';
+
+const board = (acl?: Board['acl']): Board => ({
+  id: 'board-1',
+  name: 'Board',
+  createdAt: 1,
+  updatedAt: 1,
+  notes: [],
+  acl,
+});
+
+describe('Board access', () => {
+  const shared = board({ owner: 'alice', editors: ['bob'], viewers: ['carol'] });
+
+  it('resolves each user to their role', () => {
+    expect(getBoardRole(shared, 'alice')).toBe('owner');
+    expect(getBoardRole(shared, 'bob')).toBe('editor');
+    expect(getBoardRole(shared, 'carol')).toBe('viewer');
+    expect(getBoardRole(shared, 'dave')).toBeNull();
+    expect(getBoardRole(shared, undefined)).toBeNull();
+  });
+
+  it('treats higher roles as including lower ones', () => {
+    expect(hasBoardRole(shared, 'alice', 'editor')).toBe(true);
+    expect(hasBoardRole(shared, 'bob', 'viewer')).toBe(true);
+    expect(hasBoardRole(shared, 'carol', 'editor')).toBe(false);
+  });
+
+  it('opens boards without an ACL to everyone', () => {
+    expect(getBoardRole(board(), 'anyone')).toBe('owner');
+    expect(getBoardMembers(board())).toEqual([]);
+    expect(getBoardMembers(shared)).toEqual(['alice', 'bob', 'carol']);
+  });
+});
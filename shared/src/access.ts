@@ -0,0 +1,40 @@
+// Board access control shared by the server (enforcement) and client (read-only mode)
+
+import { Board, BoardRole } from './types';
+
+// Access control error class
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+const ROLE_RANK: Record<BoardRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+// A user's role on a board, or null without access.
+// Boards created before access control have no ACL and stay open to everyone.
+export function getBoardRole(board: Board, userId: string | undefined): BoardRole | null {
+  if (!board.acl) return 'owner';
+  if (!userId) return null;
+  if (board.acl.owner === userId) return 'owner';
+  if (board.acl.editors.includes(userId)) return 'editor';
+  if (board.acl.viewers.includes(userId)) return 'viewer';
+  return null;
+}
+
+// Whether a user's role on a board is at least the required one
+export function hasBoardRole(board: Board, userId: string | undefined, required: BoardRole): boolean {
+  const role = getBoardRole(board, userId);
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Every user with any access to the board
+export function getBoardMembers(board: Board): string[] {
+  if (!board.acl) return [];
+  return [board.acl.owner, ...board.acl.editors, ...board.acl.viewers];
+}
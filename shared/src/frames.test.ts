@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getFrameNotes, getNoteFrame, isNoteInFrame } from './frames';
+import { Frame, Note } from './types';
+
+const frame = (id: string, x: number, y: number, createdAt: number): Frame => ({
+  id,
+  boardId: 'board-1',
+  name: id,
+  x,
+  y,
+  width: 400,
+  height: 300,
+  collapsed: false,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const note = (id: string, x: number, y: number): Note => ({
+  id,
+  boardId: 'board-1',
+  x,
+  y,
+  width: 100,
+  height: 100,
+  content: '',
+  backgroundColor: '#FFD60A',
+  fontSize: 'medium',
+  isExpanded: false,
+  images: [],
+  stickers: [],
+  createdAt: 1,
+  updatedAt: 1,
+  version: 1,
+});
+
+describe('Frames', () => {
+  it('puts a note in a frame when its centre is inside', () => {
+    const f = frame('frame-1', 0, 0, 1);
+    expect(isNoteInFrame(note('a', 10, 10), f)).toBe(true);
+    // Mostly outside but the centre is on the edge
+    expect(isNoteInFrame(note('b', 350, 250), f)).toBe(true);
+    expect(isNoteInFrame(note('c', 360, 10), f)).toBe(false);
+  });
+
+  it('gives overlapping space to the newest frame', () => {
+    const older = frame('older', 0, 0, 1);
+    const newer = frame('newer', 200, 0, 2);
+    expect(getNoteFrame(note('a', 250, 50), [newer, older])?.id).toBe('newer');
+    expect(getNoteFrame(note('b', 50, 50), [newer, older])?.id).toBe('older');
+    expect(getNoteFrame(note('c', 900, 900), [newer, older])).toBeUndefined();
+  });
+
+  it('lists the notes in a frame', () => {
+    const older = frame('older', 0, 0, 1);
+    const newer = frame('newer', 200, 0, 2);
+    const notes = [note('a', 250, 50), note('b', 50, 50), note('c', 900, 900)];
+    expect(getFrameNotes(older, notes, [older, newer]).map(n => n.id)).toEqual(['b']);
+    expect(getFrameNotes(newer, notes, [older, newer]).map(n => n.id)).toEqual(['a']);
+  });
+});
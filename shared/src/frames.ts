@@ -0,0 +1,33 @@
+// Frame membership, worked out the same way on the server and the client
+
+import { Frame, Note } from './types';
+
+type Rect = Pick<Frame, 'x' | 'y' | 'width' | 'height'>;
+
+// A note belongs to a frame while its centre is inside it, so dropping a
+// note into a frame or dragging it out is all it takes to change membership
+export function isNoteInFrame(note: Pick<Note, 'x' | 'y' | 'width' | 'height'>, frame: Rect): boolean {
+  const centerX = note.x + note.width / 2;
+  const centerY = note.y + note.height / 2;
+  return (
+    centerX >= frame.x &&
+    centerX <= frame.x + frame.width &&
+    centerY >= frame.y &&
+    centerY <= frame.y + frame.height
+  );
+}
+
+// The frame a note is in; the most recently created one wins where frames overlap
+export function getNoteFrame<F extends Frame>(note: Pick<Note, 'x' | 'y' | 'width' | 'height'>, frames: F[]): F | undefined {
+  let found: F | undefined;
+  for (const frame of frames) {
+    if (isNoteInFrame(note, frame) && (!found || frame.createdAt >= found.createdAt)) {
+      found = frame;
+    }
+  }
+  return found;
+}
+
+export function getFrameNotes<N extends Note>(frame: Frame, notes: N[], frames: Frame[]): N[] {
+  return notes.filter(note => getNoteFrame(note, frames)?.id === frame.id);
+}
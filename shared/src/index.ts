@@ -1,2 +1,6 @@
 export * from './types';
 export * from './validation';
+export * from './textOperation';
+export * from './access';
+export * from './frames';
+export * from './markdown';
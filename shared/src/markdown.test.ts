@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToPlainText, parseMarkdown, sanitizeUrl, toggleMarkdownTask } from './markdown';
+
+describe('Markdown', () => {
+  describe('parseMarkdown', () => {
+    it('parses headings, paragraphs and inline formatting', () => {
+      expect(parseMarkdown('## Plan\nShip **the _new_ board** with `npm run build`')).toEqual([
+        { type: 'heading', level: 2, children: [{ type: 'text', text: 'Plan' }] },
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', text: 'Ship ' },
+            {
+              type: 'strong',
+              children: [
+                { type: 'text', text: 'the ' },
+                { type: 'emphasis', children: [{ type: 'text', text: 'new' }] },
+                { type: 'text', text: ' board' },
+              ],
+            },
+            { type: 'text', text: ' with ' },
+            { type: 'code', text: 'npm run build' },
+          ],
+        },
+      ]);
+    });
+
+    it('keeps line breaks inside a paragraph', () => {
+      expect(parseMarkdown('one\ntwo')).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'one' }, { type: 'break' }, { type: 'text', text: 'two' }] },
+      ]);
+    });
+
+    it('parses bullet, numbered and task lists', () => {
+      const [bullets, numbers] = parseMarkdown('- [ ] Draft\n- [x] Review\n* Plain\n\n3. Third\n4. Fourth');
+
+      expect(bullets).toMatchObject({
+        type: 'list',
+        ordered: false,
+        items: [
+          { checked: false, line: 0, children: [{ type: 'text', text: 'Draft' }] },
+          { checked: true, line: 1, children: [{ type: 'text', text: 'Review' }] },
+          { line: 2, children: [{ type: 'text', text: 'Plain' }] },
+        ],
+      });
+      expect(bullets.type === 'list' && bullets.items[2].checked).toBeUndefined();
+      expect(numbers).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    });
+
+    it('leaves snake_case, stray markers and HTML as text', () => {
+      expect(parseMarkdown('run my_long_name * 2 <img src=x onerror=alert(1)>')).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'run my_long_name * 2 <img src=x onerror=alert(1)>' }] },
+      ]);
+      expect(markdownToPlainText('\\*not italic\\*')).toBe('*not italic*');
+    });
+
+    it('drops unsafe link targets', () => {
+      expect(parseMarkdown('[docs](https://example.com)')[0]).toMatchObject({
+        children: [{ type: 'link', href: 'https://example.com' }],
+      });
+      expect(parseMarkdown('[bad](javascript:alert)')[0]).toMatchObject({
+        children: [{ type: 'link', href: null, children: [{ type: 'text', text: 'bad' }] }],
+      });
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('allows web, mail and relative links only', () => {
+      expect(sanitizeUrl('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+      expect(sanitizeUrl('mailto:team@example.com')).toBe('mailto:team@example.com');
+      expect(sanitizeUrl('/boards/1')).toBe('/boards/1');
+      expect(sanitizeUrl('JavaScript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+    });
+  });
+
+  describe('markdownToPlainText', () => {
+    it('returns the text a reader sees', () => {
+      expect(markdownToPlainText('# Retro\n- [x] **Fix** the [build](https://ci.example.com)\n\nDone `today`'))
+        .toBe('Retro\nFix the build\nDone today');
+    });
+  });
+
+  describe('toggleMarkdownTask', () => {
+    it('ticks and unticks the checkbox on a line', () => {
+      const source = 'Todo\n- [ ] Draft\n- [X] Review';
+      expect(toggleMarkdownTask(source, 1)).toBe('Todo\n- [x] Draft\n- [X] Review');
+      expect(toggleMarkdownTask(source, 2)).toBe('Todo\n- [ ] Draft\n- [ ] Review');
+      expect(toggleMarkdownTask(source, 0)).toBe(source);
+    });
+  });
+});
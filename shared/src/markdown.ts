@@ -0,0 +1,219 @@
+// Markdown for note content
+//
+// Notes store their Markdown source. This parses the small subset notes
+// support (headings, bold, italic, lists, task checkboxes, links and inline
+// code) into a tree that clients render as elements. Raw HTML is never
+// interpreted: anything that isn't Markdown stays text.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'link'; href: string | null; children: MarkdownInline[] }; // null when the URL is unsafe
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked?: boolean; // Set on task items
+  line: number; // Source line, for toggling checkboxes
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+/;
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+/**
+ * The URL to link to, or null if following it could run script or load
+ * something other than a page. Relative links are kept.
+ */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace inside a scheme, e.g. "java\tscript:"
+  const normalized = trimmed.replace(/[\u0000- \u007f]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*:)/.exec(normalized)?.[1];
+  if (scheme) {
+    return SAFE_SCHEMES.includes(scheme) ? trimmed : null;
+  }
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseParagraph(paragraph) });
+      paragraph = [];
+    }
+  };
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    const heading = HEADING.exec(line);
+    const listItem = LIST_ITEM.exec(line);
+
+    if (line.trim() === '') {
+      endParagraph();
+    } else if (heading) {
+      endParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+    } else if (listItem) {
+      endParagraph();
+      const ordered = listItem[2] !== undefined;
+      const task = TASK.exec(listItem[3]);
+      const item: MarkdownListItem = {
+        children: parseInline(task ? listItem[3].slice(task[0].length) : listItem[3]),
+        line: index,
+      };
+      if (task) {
+        item.checked = task[1] !== ' ';
+      }
+
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered && last.items[last.items.length - 1].line === index - 1) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, start: ordered ? Number(listItem[2]) : 1, items: [item] });
+      }
+    } else {
+      paragraph.push(line);
+    }
+  });
+
+  endParagraph();
+  return blocks;
+}
+
+// Lines of a paragraph keep their breaks, as they would in a plain note
+function parseParagraph(lines: string[]): MarkdownInline[] {
+  return lines.flatMap((line, index) => (
+    index === 0 ? parseInline(line) : [{ type: 'break' as const }, ...parseInline(line)]
+  ));
+}
+
+function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plain = '';
+  let i = 0;
+
+  const push = (node: MarkdownInline) => {
+    if (plain) {
+      nodes.push({ type: 'text', text: plain });
+      plain = '';
+    }
+    nodes.push(node);
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[\\`*_[\]()#+\-.!]/.test(text[i + 1])) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = /^\[([^\]]+)\]\(([^()\s]+)\)/.exec(text.slice(i));
+      if (link) {
+        push({ type: 'link', href: sanitizeUrl(link[2]), children: parseInline(link[1]) });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const delimiter = text[i + 1] === char ? char + char : char;
+      // Underscores inside words, as in snake_case, are not emphasis
+      const intraword = char === '_' && /\w/.test(text[i - 1] ?? '');
+      const end = intraword ? -1 : findClosing(text, delimiter, i + delimiter.length);
+      if (end !== -1) {
+        const children = parseInline(text.slice(i + delimiter.length, end));
+        push(delimiter.length === 2 ? { type: 'strong', children } : { type: 'emphasis', children });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    plain += char;
+    i++;
+  }
+
+  if (plain) {
+    nodes.push({ type: 'text', text: plain });
+  }
+  return nodes;
+}
+
+// Where an emphasis run closes; it has to hug its text on both sides
+function findClosing(text: string, delimiter: string, from: number): number {
+  if (from >= text.length || /\s/.test(text[from])) {
+    return -1;
+  }
+  for (let end = text.indexOf(delimiter, from); end !== -1; end = text.indexOf(delimiter, end + 1)) {
+    const after = text[end + delimiter.length];
+    const before = text[end - 1];
+    if (end > from && !/\s/.test(before) && before !== delimiter[0] && after !== delimiter[0]) {
+      if (delimiter[0] === '_' && /\w/.test(after ?? '')) {
+        continue;
+      }
+      return end;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The text a reader sees, without Markdown syntax. Used for searching notes
+ * and for short previews.
+ */
+export function markdownToPlainText(source: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return '\n';
+      default:
+        return inlineText(node.children);
+    }
+  }).join('');
+
+  return parseMarkdown(source).map(block => (
+    block.type === 'list'
+      ? block.items.map(item => inlineText(item.children)).join('\n')
+      : inlineText(block.children)
+  )).join('\n');
+}
+
+/**
+ * Tick or untick the task checkbox on a line of the source
+ */
+export function toggleMarkdownTask(source: string, line: number): string {
+  const lines = source.split('\n');
+  const match = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/.exec(lines[line] ?? '');
+  if (!match) {
+    return source;
+  }
+
+  const box = match[2] === ' ' ? '[x]' : '[ ]';
+  lines[line] = match[1] + box + lines[line].slice(match[0].length);
+  return lines.join('\n');
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTextOperation,
+  composeTextOperations,
+  diffTextOperation,
+  isTextOperation,
+  transformTextIndex,
+  transformTextOperations,
+} from './textOperation';
+
+describe('Text operations', () => {
+  describe('diffTextOperation', () => {
+    it('produces an operation that turns old text into new text', () => {
+      const operation = diffTextOperation('hello world', 'hello brave world');
+      expect(operation).toEqual([6, 'brave ', 5]);
+      expect(applyTextOperation('hello world', operation)).toBe('hello brave world');
+    });
+
+    it('handles deletions and replacements', () => {
+      const operation = diffTextOperation('shopping list', 'shop list');
+      expect(applyTextOperation('shopping list', operation)).toBe('shop list');
+    });
+  });
+
+  describe('applyTextOperation', () => {
+    it('throws when the base length does not match', () => {
+      expect(() => applyTextOperation('abc', [5])).toThrow();
+    });
+  });
+
+  describe('composeTextOperations', () => {
+    it('composes consecutive operations', () => {
+      const first = diffTextOperation('abc', 'abXc');
+      const second = diffTextOperation('abXc', 'aXc');
+      const composed = composeTextOperations(first, second);
+      expect(applyTextOperation('abc', composed)).toBe('aXc');
+    });
+  });
+
+  describe('transformTextOperations', () => {
+    it('merges concurrent inserts', () => {
+      const base = 'Went well';
+      const a = diffTextOperation(base, 'Went really well');
+      const b = diffTextOperation(base, 'Went well!');
+      const [aPrime, bPrime] = transformTextOperations(a, b);
+
+      const viaA = applyTextOperation(applyTextOperation(base, a), bPrime);
+      const viaB = applyTextOperation(applyTextOperation(base, b), aPrime);
+      expect(viaA).toBe('Went really well!');
+      expect(viaB).toBe(viaA);
+    });
+
+    it('merges overlapping deletes', () => {
+      const base = 'one two three';
+      const a = diffTextOperation(base, 'one three');
+      const b = diffTextOperation(base, 'one tw three');
+      const [aPrime, bPrime] = transformTextOperations(a, b);
+
+      const viaA = applyTextOperation(applyTextOperation(base, a), bPrime);
+      const viaB = applyTextOperation(applyTextOperation(base, b), aPrime);
+      expect(viaA).toBe('one three');
+      expect(viaB).toBe(viaA);
+    });
+  });
+
+  describe('transformTextIndex', () => {
+    it('shifts a caret after inserted text', () => {
+      expect(transformTextIndex(5, ['abc', 10])).toBe(8);
+    });
+
+    it('moves a caret to the start of deleted text', () => {
+      expect(transformTextIndex(5, [2, -6, 2])).toBe(2);
+    });
+  });
+
+  describe('isTextOperation', () => {
+    it('rejects malformed operations', () => {
+      expect(isTextOperation([1, 'a', -1])).toBe(true);
+      expect(isTextOperation([0])).toBe(false);
+      expect(isTextOperation([''])).toBe(false);
+      expect(isTextOperation('abc')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,380 @@
+// Operational transform for collaborative editing of note content
+//
+// A TextOperation is a list of components applied left to right:
+//   positive number -> retain that many characters
+//   negative number -> delete that many characters
+//   string          -> insert that text
+
+import { TextOperation } from './types';
+
+function isRetain(component: any): component is number {
+  return typeof component === 'number' && component > 0;
+}
+
+function isDelete(component: any): component is number {
+  return typeof component === 'number' && component < 0;
+}
+
+function isInsert(component: any): component is string {
+  return typeof component === 'string';
+}
+
+// Builders keep operations in canonical form (merged runs, inserts before deletes)
+function retain(operation: TextOperation, count: number): void {
+  if (count === 0) return;
+  const last = operation[operation.length - 1];
+  if (isRetain(last)) {
+    operation[operation.length - 1] = last + count;
+  } else {
+    operation.push(count);
+  }
+}
+
+function insert(operation: TextOperation, text: string): void {
+  if (text === '') return;
+  const last = operation[operation.length - 1];
+  if (isInsert(last)) {
+    operation[operation.length - 1] = last + text;
+  } else if (isDelete(last)) {
+    const beforeLast = operation[operation.length - 2];
+    if (isInsert(beforeLast)) {
+      operation[operation.length - 2] = beforeLast + text;
+    } else {
+      operation[operation.length - 1] = text;
+      operation.push(last);
+    }
+  } else {
+    operation.push(text);
+  }
+}
+
+function remove(operation: TextOperation, count: number): void {
+  if (count === 0) return;
+  const length = -Math.abs(count);
+  const last = operation[operation.length - 1];
+  if (isDelete(last)) {
+    operation[operation.length - 1] = last + length;
+  } else {
+    operation.push(length);
+  }
+}
+
+/**
+ * Check that a value is a well-formed text operation
+ */
+export function isTextOperation(value: any): value is TextOperation {
+  if (!Array.isArray(value)) {
+    return false;
+  }
+
+  return value.every(component =>
+    (typeof component === 'string' && component.length > 0) ||
+    (typeof component === 'number' && Number.isInteger(component) && component !== 0)
+  );
+}
+
+/**
+ * Length of the document the operation can be applied to
+ */
+export function textOperationBaseLength(operation: TextOperation): number {
+  let length = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      length += component;
+    } else if (isDelete(component)) {
+      length -= component;
+    }
+  }
+  return length;
+}
+
+/**
+ * Length of the document after the operation has been applied
+ */
+export function textOperationTargetLength(operation: TextOperation): number {
+  let length = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      length += component;
+    } else if (isInsert(component)) {
+      length += component.length;
+    }
+  }
+  return length;
+}
+
+/**
+ * Check whether an operation leaves the document unchanged
+ */
+export function isNoopTextOperation(operation: TextOperation): boolean {
+  return operation.every(isRetain);
+}
+
+/**
+ * Apply an operation to a document
+ */
+export function applyTextOperation(document: string, operation: TextOperation): string {
+  if (textOperationBaseLength(operation) !== document.length) {
+    throw new Error('Text operation base length does not match document length');
+  }
+
+  let result = '';
+  let index = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      result += document.slice(index, index + component);
+      index += component;
+    } else if (isInsert(component)) {
+      result += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the operation that turns oldText into newText
+ */
+export function diffTextOperation(oldText: string, newText: string): TextOperation {
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const operation: TextOperation = [];
+  retain(operation, prefix);
+  insert(operation, newText.slice(prefix, newText.length - suffix));
+  remove(operation, oldText.length - prefix - suffix);
+  retain(operation, suffix);
+  return operation;
+}
+
+/**
+ * Combine two consecutive operations into one with the same effect
+ */
+export function composeTextOperations(first: TextOperation, second: TextOperation): TextOperation {
+  if (textOperationTargetLength(first) !== textOperationBaseLength(second)) {
+    throw new Error('Cannot compose text operations: length mismatch');
+  }
+
+  const result: TextOperation = [];
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = first[i1++];
+  let op2 = second[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isDelete(op1)) {
+      remove(result, op1);
+      op1 = first[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      insert(result, op2);
+      op2 = second[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new Error('Cannot compose text operations: operation is too short');
+    }
+
+    if (isRetain(op1) && isRetain(op2)) {
+      if (op1 > op2) {
+        retain(result, op2);
+        op1 = op1 - op2;
+        op2 = second[i2++];
+      } else if (op1 === op2) {
+        retain(result, op1);
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        retain(result, op1);
+        op2 = op2 - op1;
+        op1 = first[i1++];
+      }
+    } else if (isInsert(op1) && isDelete(op2)) {
+      if (op1.length > -op2) {
+        op1 = op1.slice(-op2);
+        op2 = second[i2++];
+      } else if (op1.length === -op2) {
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        op2 = op2 + op1.length;
+        op1 = first[i1++];
+      }
+    } else if (isInsert(op1) && isRetain(op2)) {
+      if (op1.length > op2) {
+        insert(result, op1.slice(0, op2));
+        op1 = op1.slice(op2);
+        op2 = second[i2++];
+      } else if (op1.length === op2) {
+        insert(result, op1);
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        insert(result, op1);
+        op2 = op2 - op1.length;
+        op1 = first[i1++];
+      }
+    } else if (isRetain(op1) && isDelete(op2)) {
+      if (op1 > -op2) {
+        remove(result, op2);
+        op1 = op1 + op2;
+        op2 = second[i2++];
+      } else if (op1 === -op2) {
+        remove(result, op2);
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        remove(result, op1);
+        op2 = op2 + op1;
+        op1 = first[i1++];
+      }
+    } else {
+      throw new Error('Cannot compose text operations: invalid components');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Transform two concurrent operations against each other.
+ * Returns [first', second'] such that applying first then second' equals
+ * applying second then first'. Inserts from the first operation win ties.
+ */
+export function transformTextOperations(
+  first: TextOperation,
+  second: TextOperation
+): [TextOperation, TextOperation] {
+  if (textOperationBaseLength(first) !== textOperationBaseLength(second)) {
+    throw new Error('Cannot transform text operations: base length mismatch');
+  }
+
+  const firstPrime: TextOperation = [];
+  const secondPrime: TextOperation = [];
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = first[i1++];
+  let op2 = second[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isInsert(op1)) {
+      insert(firstPrime, op1);
+      retain(secondPrime, op1.length);
+      op1 = first[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      retain(firstPrime, op2.length);
+      insert(secondPrime, op2);
+      op2 = second[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new Error('Cannot transform text operations: operation is too short');
+    }
+
+    let length: number;
+    if (isRetain(op1) && isRetain(op2)) {
+      if (op1 > op2) {
+        length = op2;
+        op1 = op1 - op2;
+        op2 = second[i2++];
+      } else if (op1 === op2) {
+        length = op2;
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        length = op1;
+        op2 = op2 - op1;
+        op1 = first[i1++];
+      }
+      retain(firstPrime, length);
+      retain(secondPrime, length);
+    } else if (isDelete(op1) && isDelete(op2)) {
+      // Both sides deleted the same text, nothing left to do
+      if (-op1 > -op2) {
+        op1 = op1 - op2;
+        op2 = second[i2++];
+      } else if (op1 === op2) {
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        op2 = op2 - op1;
+        op1 = first[i1++];
+      }
+    } else if (isDelete(op1) && isRetain(op2)) {
+      if (-op1 > op2) {
+        length = op2;
+        op1 = op1 + op2;
+        op2 = second[i2++];
+      } else if (-op1 === op2) {
+        length = op2;
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        length = -op1;
+        op2 = op2 + op1;
+        op1 = first[i1++];
+      }
+      remove(firstPrime, length);
+    } else if (isRetain(op1) && isDelete(op2)) {
+      if (op1 > -op2) {
+        length = -op2;
+        op1 = op1 + op2;
+        op2 = second[i2++];
+      } else if (op1 === -op2) {
+        length = op1;
+        op1 = first[i1++];
+        op2 = second[i2++];
+      } else {
+        length = op1;
+        op2 = op2 + op1;
+        op1 = first[i1++];
+      }
+      remove(secondPrime, length);
+    } else {
+      throw new Error('Cannot transform text operations: invalid components');
+    }
+  }
+
+  return [firstPrime, secondPrime];
+}
+
+/**
+ * Map a caret position in the old document to the new document
+ */
+export function transformTextIndex(index: number, operation: TextOperation): number {
+  let remaining = index;
+  let newIndex = index;
+
+  for (const component of operation) {
+    if (isRetain(component)) {
+      remaining -= component;
+    } else if (isInsert(component)) {
+      newIndex += component.length;
+    } else {
+      newIndex -= Math.min(remaining, -component);
+      remaining += component;
+    }
+
+    if (remaining < 0) {
+      break;
+    }
+  }
+
+  return newIndex;
+}
@@ -6,6 +6,18 @@ export interface Board {
   createdAt: number;
   updatedAt: number;
   notes: Note[];
+  deletedAt?: number; // Set while the board is in the trash
+  acl?: BoardAcl; // Absent on boards created before access control
+  connectors?: Connector[]; // Absent on boards created before connectors
+  frames?: Frame[]; // Absent on boards created before frames
+}
+
+export type BoardRole = 'owner' | 'editor' | 'viewer';
+
+export interface BoardAcl {
+  owner: string; // User ID
+  editors: string[];
+  viewers: string[]; // Read-only
 }
 
 export interface Note {
@@ -25,15 +37,55 @@ export interface Note {
   updatedAt: number;
   editingBy?: string;
   version: number; // For conflict detection
+  contentRevision?: number; // Number of text operations applied to content
+  deletedAt?: number; // Set while the note is in the trash
 }
 
-export interface Image {
+export type ConnectorStyle = 'solid' | 'dashed' | 'dotted';
+
+// Which ends of a connector get an arrowhead
+export type ConnectorArrowheads = 'none' | 'end' | 'start' | 'both';
+
+// A line drawn between two notes on the same board
+export interface Connector {
+  id: string;
+  boardId: string;
+  sourceNoteId: string;
+  targetNoteId: string;
+  label: string;
+  style: ConnectorStyle;
+  arrowheads: ConnectorArrowheads;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A named area of the board grouping the notes inside it
+export interface Frame {
   id: string;
+  boardId: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  collapsed: boolean; // Shows just the title bar and hides the notes inside
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ImageThumbnail {
+  width: number;
   url: string;
+}
+
+export interface Image {
+  id: string;
+  url: string; // Full-size image, loaded on demand
   width: number;
   height: number;
   x: number;
   y: number;
+  thumbnails?: ImageThumbnail[]; // Smallest first
 }
 
 export interface Sticker {
@@ -49,42 +101,149 @@ export type WSMessageType =
   | 'note:update'
   | 'note:delete'
   | 'note:move'
+  | 'note:bulk'
   | 'note:editing:start'
   | 'note:editing:end'
+  | 'note:editing:heartbeat'
+  | 'note:editing:denied'
+  | 'note:editing:revoked'
+  | 'note:edit'
+  | 'note:edit:ack'
+  | 'note:edit:rejected'
+  | 'note:conflict'
   | 'board:create'
   | 'board:delete'
   | 'board:rename'
+  | 'board:acl:update'
   | 'sync:request'
-  | 'sync:response';
+  | 'sync:response'
+  | 'history:undo'
+  | 'history:redo'
+  | 'note:restore'
+  | 'board:restore'
+  | 'presence:state'
+  | 'presence:join'
+  | 'presence:leave'
+  | 'presence:heartbeat'
+  | 'presence:cursor'
+  | 'presence:viewport'
+  | 'connector:create'
+  | 'connector:update'
+  | 'connector:delete'
+  | 'frame:create'
+  | 'frame:update'
+  | 'frame:move'
+  | 'frame:delete'
+  | 'batch';
 
 export interface WSMessage {
   type: WSMessageType;
   payload: any;
   timestamp: number;
   userId: string;
+  sequence?: BoardSequence; // Set by the server on changes it broadcasts to a board
+  opId?: string; // Set by the client on changes it wants acknowledged
 }
 
+export type MessageErrorCode = 'conflict' | 'rate_limited';
+
+// Acknowledgement of a client message
+export type MessageAck =
+  | { ok: true }
+  | { ok: false; error: string; code?: MessageErrorCode };
+
+// Where a broadcast change falls in its board's sequence of changes. A client
+// that has seen up to prevSeq is up to date once it applies this one.
+export interface BoardSequence {
+  boardId: string;
+  seq: number;
+  prevSeq: number;
+}
+
+// Text operation components: positive = retain, negative = delete, string = insert
+export type TextOperation = Array<number | string>;
+
 export interface CreateNotePayload {
   boardId: string;
   x: number;
   y: number;
+  id?: string; // Chosen by the client so changes made offline can refer to the note
 }
 
 export interface UpdateNotePayload {
   noteId: string;
   updates: Partial<Note>;
+  baseVersion?: number; // Note version the updates were made against
+}
+
+export interface NoteConflictPayload {
+  noteId: string;
+  baseVersion: number;
+  attemptedUpdates: Partial<Note>; // The rejected changes
+  currentNote: Note; // The server's version of the note
+  conflictingFields: string[];
+}
+
+export interface NoteEditPayload {
+  noteId: string;
+  revision: number; // Content revision the operation was based on
+  operation: TextOperation;
+}
+
+export interface NoteEditedPayload {
+  noteId: string;
+  revision: number;
+  operation: TextOperation;
+  version: number;
+  updatedAt: number;
+}
+
+export interface NoteEditAckPayload {
+  noteId: string;
+  revision: number;
+  version: number;
+}
+
+export interface NoteEditRejectedPayload {
+  noteId: string;
+  revision: number;
+  content: string;
+  message: string;
 }
 
 export interface DeleteNotePayload {
   noteId: string;
 }
 
+export interface RestoreNotePayload {
+  noteId: string;
+}
+
 export interface MoveNotePayload {
   noteId: string;
   x: number;
   y: number;
 }
 
+// One change applied to every selected note
+export type BulkNoteOperation =
+  | { type: 'move'; dx: number; dy: number }
+  | { type: 'update'; updates: Partial<Pick<Note, 'backgroundColor' | 'fontSize'>> }
+  | { type: 'delete' };
+
+export interface BulkNotePayload {
+  boardId: string;
+  noteIds: string[];
+  operation: BulkNoteOperation;
+}
+
+// Broadcast once a bulk operation has been applied to all of its notes
+export interface BulkNoteResultPayload {
+  boardId: string;
+  notes: Note[]; // Moved or updated
+  deletedNoteIds: string[];
+}
+
 export interface CreateBoardPayload {
   boardId: string;
   name: string;
@@ -94,25 +253,233 @@ export interface DeleteBoardPayload {
   boardId: string;
 }
 
+export interface RestoreBoardPayload {
+  boardId: string;
+}
+
 export interface RenameBoardPayload {
   boardId: string;
   name: string;
 }
 
+// How far a copy of a board is up to. Sequence numbers start over when the
+// server restarts, so they are only comparable within one epoch.
+export interface SyncCursor {
+  epoch: string;
+  seq: number;
+}
+
 export interface SyncRequestPayload {
   boardId: string;
+  since?: SyncCursor; // The client's copy, so only what changed since is sent
+}
+
+// What changed on a board after a client's cursor
+export interface BoardSyncDelta {
+  board: Omit<Board, 'notes'>; // Metadata, connectors and frames are small enough to send whole
+  notes: Note[]; // Created or changed
+  deletedNoteIds: string[]; // Deleted or moved to the trash
 }
 
+// Exactly one of board and delta is set
 export interface SyncResponsePayload {
-  board: Board;
+  board?: Board; // The whole board, when the request had no usable cursor
+  delta?: BoardSyncDelta;
+  cursor: SyncCursor; // Where the board is up to now
+}
+
+export interface TrashContents {
+  boards: Board[];
+  notes: Note[]; // Trashed notes whose board is not in the trash
+}
+
+export interface BoardSnapshotInfo {
+  snapshotId: string;
+  createdAt: number;
+  name: string; // Board name at the time of the snapshot
+  noteCount: number;
+}
+
+export interface HistoryPayload {
+  boardId: string;
+}
+
+// Someone with a board open. A user with several tabs has one entry per connection.
+export interface PresenceInfo {
+  sessionId: string; // Socket ID
+  userId: string;
+  name: string;
+  color: string;
+  cursor?: { x: number; y: number }; // Board coordinates
+  viewport?: Viewport;
+}
+
+// What part of the board someone is looking at: the board point at the centre of their screen, and their zoom
+export interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export interface PresenceStatePayload {
+  boardId: string;
+  users: PresenceInfo[];
+}
+
+export interface PresenceHeartbeatPayload {
+  boardId: string;
+}
+
+export interface CursorMovePayload {
+  boardId: string;
+  x: number;
+  y: number;
+  sessionId?: string; // Set by the server when relaying
+}
+
+export interface ViewportPayload extends Viewport {
+  boardId: string;
+  sessionId?: string; // Set by the server when relaying
+}
+
+export interface CreateConnectorPayload {
+  boardId: string;
+  sourceNoteId: string;
+  targetNoteId: string;
+  label?: string;
+  style?: ConnectorStyle;
+  arrowheads?: ConnectorArrowheads;
+  id?: string; // Chosen by the client, as for notes
+}
+
+export interface UpdateConnectorPayload {
+  connectorId: string;
+  updates: Partial<Pick<Connector, 'label' | 'style' | 'arrowheads'>>;
+}
+
+export interface DeleteConnectorPayload {
+  connectorId: string;
+}
+
+export interface CreateFramePayload {
+  boardId: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  id?: string; // Chosen by the client, as for notes
+}
+
+export interface UpdateFramePayload {
+  frameId: string;
+  updates: Partial<Pick<Frame, 'name' | 'width' | 'height' | 'collapsed'>>;
+}
+
+// Moving a frame carries the notes inside it along
+export interface MoveFramePayload {
+  frameId: string;
+  x: number;
+  y: number;
+}
+
+export interface DeleteFramePayload {
+  frameId: string;
+}
+
+// Broadcast after a move with where the contained notes ended up
+export interface FrameMovedPayload {
+  frame: Frame;
+  notes: Array<{ noteId: string; x: number; y: number }>;
+}
+
+// One change inside a batch, with the same payload as the message of that type
+export type BatchOperation =
+  | { type: 'note:create'; payload: CreateNotePayload }
+  | { type: 'note:update'; payload: UpdateNotePayload }
+  | { type: 'note:move'; payload: MoveNotePayload }
+  | { type: 'note:delete'; payload: DeleteNotePayload }
+  | { type: 'connector:create'; payload: CreateConnectorPayload }
+  | { type: 'connector:update'; payload: UpdateConnectorPayload }
+  | { type: 'connector:delete'; payload: DeleteConnectorPayload }
+  | { type: 'frame:create'; payload: CreateFramePayload }
+  | { type: 'frame:update'; payload: UpdateFramePayload }
+  | { type: 'frame:move'; payload: MoveFramePayload }
+  | { type: 'frame:delete'; payload: DeleteFramePayload };
+
+// Operations on one board, applied in order and all or nothing
+export interface BatchPayload {
+  boardId: string;
+  operations: BatchOperation[];
+}
+
+// Broadcast once a batch has been applied, with the final state of everything it changed
+export interface BatchResultPayload {
+  boardId: string;
+  notes: Note[]; // Created, updated or moved
+  deletedNoteIds: string[];
+  connectors: Connector[]; // Created or updated
+  deletedConnectorIds: string[];
+  frames: Frame[]; // Created, updated or moved
+  deletedFrameIds: string[];
 }
 
 export interface EditingStartPayload {
   noteId: string;
-  userId: string;
+  takeover?: boolean; // Replace another connection's lease instead of being refused
 }
 
-export interface EditingEndPayload {
+// Used for note:editing:end and note:editing:heartbeat
+export interface EditingLeasePayload {
   noteId: string;
-  userId: string;
+}
+
+// Sent to a connection that asked to edit a note someone else is editing
+export interface EditingDeniedPayload {
+  noteId: string;
+  userId: string; // Current holder
+}
+
+// Sent to a connection that lost its lease
+export interface EditingRevokedPayload {
+  noteId: string;
+  reason: 'takeover' | 'expired';
+  userId?: string; // Who took over
+}
+
+export interface UpdateBoardAclPayload {
+  editors: string[];
+  viewers: string[];
+}
+
+export type InviteRole = Exclude<BoardRole, 'owner'>;
+
+export interface Invite {
+  id: string;
+  boardId: string;
+  role: InviteRole;
+  createdBy: string; // User ID
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CreateInvitePayload {
+  role: InviteRole;
+  expiresInHours?: number; // Defaults to 7 days
+}
+
+export interface CreatedInvite {
+  invite: Invite;
+  token: string; // Signed token for the /invite/:token link
+}
+
+export interface User {
+  id: string;
+  username: string;
+  createdAt: number;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
 }
@@ -4,6 +4,12 @@ import {
   validateNote,
   validateImage,
   validateSticker,
+  validateCreateNotePayload,
+  validateBulkNotePayload,
+  validateBatchPayload,
+  validateSyncRequestPayload,
+  validateEditingStartPayload,
+  validateUpdateNotePayload,
   ValidationError,
 } from './validation';
 
@@ -30,6 +36,56 @@ describe('Validation', () => {
       };
       expect(() => validateBoard(board)).toThrow(ValidationError);
     });
+
+    it('validates connectors on a board', () => {
+      const connector = {
+        id: 'connector-1',
+        boardId: 'board-1',
+        sourceNoteId: 'note-1',
+        targetNoteId: 'note-2',
+        label: '',
+        style: 'solid',
+        arrowheads: 'end',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      const board = {
+        id: 'board-1',
+        name: 'Test Board',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        notes: [],
+        connectors: [connector],
+      };
+      expect(() => validateBoard(board)).not.toThrow();
+      expect(() => validateBoard({ ...board, connectors: [{ ...connector, style: 'wavy' }] })).toThrow(ValidationError);
+    });
+
+    it('validates frames on a board', () => {
+      const frame = {
+        id: 'frame-1',
+        boardId: 'board-1',
+        name: 'Went well',
+        x: 0,
+        y: 0,
+        width: 600,
+        height: 400,
+        collapsed: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      const board = {
+        id: 'board-1',
+        name: 'Test Board',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        notes: [],
+        frames: [frame],
+      };
+      expect(() => validateBoard(board)).not.toThrow();
+      expect(() => validateBoard({ ...board, frames: [{ ...frame, width: 0 }] })).toThrow(ValidationError);
+      expect(() => validateBoard({ ...board, frames: [{ ...frame, name: '  ' }] })).toThrow(ValidationError);
+    });
   });
 
   describe('validateNote', () => {
@@ -86,6 +142,20 @@ describe('Validation', () => {
       };
       expect(() => validateImage(image)).not.toThrow();
     });
+
+    it('validates image thumbnails', () => {
+      const image = {
+        id: 'img-1',
+        url: '/api/blobs/abc',
+        width: 200,
+        height: 150,
+        x: 0,
+        y: 0,
+        thumbnails: [{ width: 160, url: '/api/blobs/def' }],
+      };
+      expect(() => validateImage(image)).not.toThrow();
+      expect(() => validateImage({ ...image, thumbnails: [{ width: 0, url: '/api/blobs/def' }] })).toThrow(ValidationError);
+    });
   });
 
   describe('validateSticker', () => {
@@ -111,4 +181,89 @@ describe('Validation', () => {
       expect(() => validateSticker(sticker)).toThrow(ValidationError);
     });
   });
+
+  describe('validateCreateNotePayload', () => {
+    it('accepts an ID chosen by the client', () => {
+      const payload = { boardId: 'board-1', x: 0, y: 0 };
+      expect(() => validateCreateNotePayload(payload)).not.toThrow();
+      expect(() => validateCreateNotePayload({ ...payload, id: '3f2b9c1e-7d4a-4e8b-9a61-0c5d2e8f4b7a' })).not.toThrow();
+      expect(() => validateCreateNotePayload({ ...payload, id: '' })).toThrow(ValidationError);
+      expect(() => validateCreateNotePayload({ ...payload, id: 'board/../x' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateBulkNotePayload', () => {
+    const payload = { boardId: 'board-1', noteIds: ['note-1', 'note-2'] };
+
+    it('validates each kind of bulk operation', () => {
+      expect(() => validateBulkNotePayload({ ...payload, operation: { type: 'move', dx: 10, dy: -5 } })).not.toThrow();
+      expect(() => validateBulkNotePayload({ ...payload, operation: { type: 'update', updates: { fontSize: 'large' } } })).not.toThrow();
+      expect(() => validateBulkNotePayload({ ...payload, operation: { type: 'delete' } })).not.toThrow();
+    });
+
+    it('rejects repeated notes and fields that cannot be bulk updated', () => {
+      expect(() => validateBulkNotePayload({ ...payload, noteIds: ['note-1', 'note-1'], operation: { type: 'delete' } }))
+        .toThrow(ValidationError);
+      expect(() => validateBulkNotePayload({ ...payload, operation: { type: 'update', updates: { content: 'hi' } } }))
+        .toThrow(ValidationError);
+      expect(() => validateBulkNotePayload({ ...payload, operation: { type: 'update', updates: { fontSize: 'huge' } } }))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('validateSyncRequestPayload', () => {
+    it('accepts an optional cursor to sync from', () => {
+      expect(() => validateSyncRequestPayload({ boardId: 'board-1' })).not.toThrow();
+      expect(() => validateSyncRequestPayload({ boardId: 'board-1', since: { epoch: 'e1', seq: 12 } })).not.toThrow();
+      expect(() => validateSyncRequestPayload({ boardId: 'board-1', since: { epoch: 'e1', seq: -1 } })).toThrow(ValidationError);
+      expect(() => validateSyncRequestPayload({ boardId: 'board-1', since: { seq: 12 } })).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateUpdateNotePayload', () => {
+    it('only allows fields editors may change', () => {
+      expect(() => validateUpdateNotePayload({ noteId: 'note-1', updates: { x: 10, content: 'Hi' } })).not.toThrow();
+      for (const field of ['id', 'boardId', 'version', 'contentRevision', 'createdAt', 'updatedAt']) {
+        expect(() => validateUpdateNotePayload({ noteId: 'note-1', updates: { [field]: 'x' } }))
+          .toThrow(`UpdateNotePayload updates cannot set: ${field}`);
+      }
+    });
+
+    it('leaves the edit lock to the editing lease', () => {
+      expect(() => validateUpdateNotePayload({ noteId: 'note-1', updates: { editingBy: 'user-1' } }))
+        .toThrow('updates.editingBy cannot be set');
+    });
+  });
+
+  describe('validateEditingStartPayload', () => {
+    it('requires a note ID and allows asking to take over', () => {
+      expect(() => validateEditingStartPayload({ noteId: 'note-1' })).not.toThrow();
+      expect(() => validateEditingStartPayload({ noteId: 'note-1', takeover: true })).not.toThrow();
+      expect(() => validateEditingStartPayload({ noteId: 'note-1', takeover: 'yes' })).toThrow(ValidationError);
+      expect(() => validateEditingStartPayload({})).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateBatchPayload', () => {
+    it('validates each operation with the rules for its message type', () => {
+      const operations = [
+        { type: 'note:create', payload: { boardId: 'board-1', x: 0, y: 0 } },
+        { type: 'note:update', payload: { noteId: 'note-1', updates: { content: 'Hi' } } },
+        { type: 'frame:delete', payload: { frameId: 'frame-1' } },
+      ];
+      expect(() => validateBatchPayload({ boardId: 'board-1', operations })).not.toThrow();
+      expect(() => validateBatchPayload({
+        boardId: 'board-1',
+        operations: [...operations, { type: 'note:move', payload: { noteId: 'note-1', x: 'left', y: 0 } }],
+      })).toThrow('BatchPayload operation 4: MoveNotePayload x must be a number');
+    });
+
+    it('rejects empty batches, unknown operations and other boards', () => {
+      expect(() => validateBatchPayload({ boardId: 'board-1', operations: [] })).toThrow(ValidationError);
+      expect(() => validateBatchPayload({ boardId: 'board-1', operations: [{ type: 'board:delete', payload: { boardId: 'board-1' } }] }))
+        .toThrow(ValidationError);
+      expect(() => validateBatchPayload({ boardId: 'board-1', operations: [{ type: 'note:create', payload: { boardId: 'board-2', x: 0, y: 0 } }] }))
+        .toThrow(ValidationError);
+    });
+  });
 });
@@ -8,14 +8,38 @@ import {
   WSMessage,
   CreateNotePayload,
   UpdateNotePayload,
+  NoteEditPayload,
   DeleteNotePayload,
   MoveNotePayload,
+  BulkNotePayload,
   CreateBoardPayload,
   DeleteBoardPayload,
   RenameBoardPayload,
   SyncRequestPayload,
   SyncResponsePayload,
+  HistoryPayload,
+  RestoreNotePayload,
+  RestoreBoardPayload,
+  Credentials,
+  UpdateBoardAclPayload,
+  CreateInvitePayload,
+  PresenceHeartbeatPayload,
+  CursorMovePayload,
+  ViewportPayload,
+  EditingStartPayload,
+  EditingLeasePayload,
+  Connector,
+  CreateConnectorPayload,
+  UpdateConnectorPayload,
+  DeleteConnectorPayload,
+  Frame,
+  CreateFramePayload,
+  UpdateFramePayload,
+  MoveFramePayload,
+  DeleteFramePayload,
+  BatchPayload,
 } from './types';
+import { isTextOperation } from './textOperation';
 
 // Validation error class
 export class ValidationError extends Error {
@@ -50,6 +74,57 @@ function isValidFontSize(value: any): value is 'small' | 'medium' | 'large' {
   return value === 'small' || value === 'medium' || value === 'large';
 }
 
+// IDs a client may pick for the notes, connectors and frames it creates
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+function validateClientId(obj: Record<string, any>, name: string): void {
+  if (obj.id !== undefined && (!isString(obj.id) || !CLIENT_ID_PATTERN.test(obj.id))) {
+    throw new ValidationError(`${name} id must be 1-64 letters, digits or dashes`);
+  }
+}
+
+const CONNECTOR_STYLES = ['solid', 'dashed', 'dotted'];
+const CONNECTOR_ARROWHEADS = ['none', 'end', 'start', 'both'];
+export const MAX_CONNECTOR_LABEL_LENGTH = 200;
+
+function validateConnectorFields(obj: Record<string, any>, name: string): void {
+  if (obj.label !== undefined && (!isString(obj.label) || obj.label.length > MAX_CONNECTOR_LABEL_LENGTH)) {
+    throw new ValidationError(`${name} label must be a string of at most ${MAX_CONNECTOR_LABEL_LENGTH} characters`);
+  }
+
+  if (obj.style !== undefined && !CONNECTOR_STYLES.includes(obj.style)) {
+    throw new ValidationError(`${name} style must be one of: ${CONNECTOR_STYLES.join(', ')}`);
+  }
+
+  if (obj.arrowheads !== undefined && !CONNECTOR_ARROWHEADS.includes(obj.arrowheads)) {
+    throw new ValidationError(`${name} arrowheads must be one of: ${CONNECTOR_ARROWHEADS.join(', ')}`);
+  }
+}
+
+export const MAX_FRAME_NAME_LENGTH = 100;
+
+function validateFrameFields(obj: Record<string, any>, name: string): void {
+  if (obj.name !== undefined && (!isString(obj.name) || obj.name.trim().length === 0 || obj.name.length > MAX_FRAME_NAME_LENGTH)) {
+    throw new ValidationError(`${name} name must be a non-empty string of at most ${MAX_FRAME_NAME_LENGTH} characters`);
+  }
+
+  for (const field of ['x', 'y']) {
+    if (obj[field] !== undefined && (!isNumber(obj[field]) || !isFinite(obj[field]))) {
+      throw new ValidationError(`${name} ${field} must be a number`);
+    }
+  }
+
+  for (const field of ['width', 'height']) {
+    if (obj[field] !== undefined && (!isNumber(obj[field]) || !isFinite(obj[field]) || obj[field] <= 0)) {
+      throw new ValidationError(`${name} ${field} must be a positive number`);
+    }
+  }
+
+  if (obj.collapsed !== undefined && !isBoolean(obj.collapsed)) {
+    throw new ValidationError(`${name} collapsed must be a boolean`);
+  }
+}
+
 // Sticker validation
 export function validateSticker(data: any): data is Sticker {
   if (!isObject(data)) {
@@ -113,6 +188,24 @@ export function validateImage(data: any): data is Image {
     throw new ValidationError('Image y must be a number');
   }
 
+  if (obj.thumbnails !== undefined) {
+    if (!isArray(obj.thumbnails)) {
+      throw new ValidationError('Image thumbnails must be an array');
+    }
+    for (const thumbnail of obj.thumbnails) {
+      if (!isObject(thumbnail)) {
+        throw new ValidationError('Image thumbnail must be an object');
+      }
+      const { width, url } = thumbnail as Record<string, any>;
+      if (!isNumber(width) || width <= 0) {
+        throw new ValidationError('Image thumbnail width must be a positive number');
+      }
+      if (!isString(url) || url.length === 0) {
+        throw new ValidationError('Image thumbnail url must be a non-empty string');
+      }
+    }
+  }
+
   return true;
 }
 
@@ -196,6 +289,14 @@ export function validateNote(data: any): data is Note {
     throw new ValidationError('Note editingBy must be a string or undefined');
   }
 
+  if (obj.contentRevision !== undefined && (!Number.isInteger(obj.contentRevision) || obj.contentRevision < 0)) {
+    throw new ValidationError('Note contentRevision must be a non-negative integer or undefined');
+  }
+
+  if (obj.deletedAt !== undefined && (!isNumber(obj.deletedAt) || obj.deletedAt <= 0)) {
+    throw new ValidationError('Note deletedAt must be a positive number or undefined');
+  }
+
   return true;
 }
 
@@ -227,10 +328,103 @@ export function validateBoard(data: any): data is Board {
     throw new ValidationError('Board notes must be an array');
   }
 
+  if (obj.deletedAt !== undefined && (!isNumber(obj.deletedAt) || obj.deletedAt <= 0)) {
+    throw new ValidationError('Board deletedAt must be a positive number or undefined');
+  }
+
+  if (obj.acl !== undefined) {
+    if (!isObject(obj.acl)) {
+      throw new ValidationError('Board acl must be an object');
+    }
+    const acl = obj.acl as Record<string, any>;
+    if (!isString(acl.owner) || acl.owner.length === 0) {
+      throw new ValidationError('Board acl owner must be a non-empty string');
+    }
+    validateUpdateBoardAclPayload(acl);
+  }
+
   for (const note of obj.notes) {
     validateNote(note);
   }
 
+  if (obj.connectors !== undefined) {
+    if (!isArray(obj.connectors)) {
+      throw new ValidationError('Board connectors must be an array');
+    }
+    for (const connector of obj.connectors) {
+      validateConnector(connector);
+    }
+  }
+
+  if (obj.frames !== undefined) {
+    if (!isArray(obj.frames)) {
+      throw new ValidationError('Board frames must be an array');
+    }
+    for (const frame of obj.frames) {
+      validateFrame(frame);
+    }
+  }
+
+  return true;
+}
+
+export function validateConnector(data: any): data is Connector {
+  if (!isObject(data)) {
+    throw new ValidationError('Connector must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  for (const field of ['id', 'boardId', 'sourceNoteId', 'targetNoteId']) {
+    if (!isString(obj[field]) || obj[field].length === 0) {
+      throw new ValidationError(`Connector ${field} must be a non-empty string`);
+    }
+  }
+
+  if (!isString(obj.label) || !isString(obj.style) || !isString(obj.arrowheads)) {
+    throw new ValidationError('Connector label, style and arrowheads are required');
+  }
+  validateConnectorFields(obj, 'Connector');
+
+  if (!isNumber(obj.createdAt) || obj.createdAt <= 0) {
+    throw new ValidationError('Connector createdAt must be a positive number');
+  }
+
+  if (!isNumber(obj.updatedAt) || obj.updatedAt <= 0) {
+    throw new ValidationError('Connector updatedAt must be a positive number');
+  }
+
+  return true;
+}
+
+export function validateFrame(data: any): data is Frame {
+  if (!isObject(data)) {
+    throw new ValidationError('Frame must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  for (const field of ['id', 'boardId']) {
+    if (!isString(obj[field]) || obj[field].length === 0) {
+      throw new ValidationError(`Frame ${field} must be a non-empty string`);
+    }
+  }
+
+  for (const field of ['name', 'x', 'y', 'width', 'height', 'collapsed']) {
+    if (obj[field] === undefined) {
+      throw new ValidationError(`Frame ${field} is required`);
+    }
+  }
+  validateFrameFields(obj, 'Frame');
+
+  if (!isNumber(obj.createdAt) || obj.createdAt <= 0) {
+    throw new ValidationError('Frame createdAt must be a positive number');
+  }
+
+  if (!isNumber(obj.updatedAt) || obj.updatedAt <= 0) {
+    throw new ValidationError('Frame updatedAt must be a positive number');
+  }
+
   return true;
 }
 
@@ -254,9 +448,15 @@ export function validateCreateNotePayload(data: any): data is CreateNotePayload
     throw new ValidationError('CreateNotePayload y must be a number');
   }
 
+  validateClientId(obj, 'CreateNotePayload');
   return true;
 }
 
+// Fields of a note its editors may change directly; the rest belong to the server
+const EDITABLE_NOTE_FIELDS = [
+  'x', 'y', 'width', 'height', 'content', 'backgroundColor', 'fontSize', 'isExpanded', 'images', 'stickers',
+];
+
 export function validateUpdateNotePayload(data: any): data is UpdateNotePayload {
   if (!isObject(data)) {
     throw new ValidationError('UpdateNotePayload must be an object');
@@ -272,9 +472,26 @@ export function validateUpdateNotePayload(data: any): data is UpdateNotePayload
     throw new ValidationError('UpdateNotePayload updates must be an object');
   }
 
+  if (obj.baseVersion !== undefined && (!Number.isInteger(obj.baseVersion) || obj.baseVersion <= 0)) {
+    throw new ValidationError('UpdateNotePayload baseVersion must be a positive integer');
+  }
+
   // Validate partial note updates
   const updates = obj.updates as Record<string, any>;
   
+  if (updates.deletedAt !== undefined) {
+    throw new ValidationError('UpdateNotePayload updates.deletedAt cannot be set; delete or restore the note instead');
+  }
+
+  if (updates.editingBy !== undefined) {
+    throw new ValidationError('UpdateNotePayload updates.editingBy cannot be set; start or stop editing the note instead');
+  }
+
+  const readOnly = Object.keys(updates).filter(field => !EDITABLE_NOTE_FIELDS.includes(field));
+  if (readOnly.length > 0) {
+    throw new ValidationError(`UpdateNotePayload updates cannot set: ${readOnly.join(', ')}`);
+  }
+
   if (updates.x !== undefined && !isNumber(updates.x)) {
     throw new ValidationError('UpdateNotePayload updates.x must be a number');
   }
@@ -333,6 +550,28 @@ export function validateUpdateNotePayload(data: any): data is UpdateNotePayload
   return true;
 }
 
+export function validateNoteEditPayload(data: any): data is NoteEditPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('NoteEditPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.noteId) || obj.noteId.length === 0) {
+    throw new ValidationError('NoteEditPayload noteId must be a non-empty string');
+  }
+
+  if (!Number.isInteger(obj.revision) || obj.revision < 0) {
+    throw new ValidationError('NoteEditPayload revision must be a non-negative integer');
+  }
+
+  if (!isTextOperation(obj.operation)) {
+    throw new ValidationError('NoteEditPayload operation must be a valid text operation');
+  }
+
+  return true;
+}
+
 export function validateDeleteNotePayload(data: any): data is DeleteNotePayload {
   if (!isObject(data)) {
     throw new ValidationError('DeleteNotePayload must be an object');
@@ -347,6 +586,78 @@ export function validateDeleteNotePayload(data: any): data is DeleteNotePayload
   return true;
 }
 
+export const MAX_BULK_NOTES = 500;
+
+export function validateBulkNotePayload(data: any): data is BulkNotePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('BulkNotePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('BulkNotePayload boardId must be a non-empty string');
+  }
+
+  if (!isArray(obj.noteIds) || obj.noteIds.length === 0 || obj.noteIds.length > MAX_BULK_NOTES) {
+    throw new ValidationError(`BulkNotePayload noteIds must list between 1 and ${MAX_BULK_NOTES} notes`);
+  }
+
+  if (obj.noteIds.some((noteId: any) => !isString(noteId) || noteId.length === 0)) {
+    throw new ValidationError('BulkNotePayload noteIds must be non-empty strings');
+  }
+
+  if (new Set(obj.noteIds).size !== obj.noteIds.length) {
+    throw new ValidationError('BulkNotePayload noteIds must not repeat');
+  }
+
+  if (!isObject(obj.operation)) {
+    throw new ValidationError('BulkNotePayload operation must be an object');
+  }
+
+  const operation = obj.operation as Record<string, any>;
+  switch (operation.type) {
+    case 'move':
+      if (!isNumber(operation.dx) || !isNumber(operation.dy)) {
+        throw new ValidationError('BulkNotePayload move dx and dy must be numbers');
+      }
+      break;
+    case 'update': {
+      if (!isObject(operation.updates)) {
+        throw new ValidationError('BulkNotePayload update updates must be an object');
+      }
+      const allowed = ['backgroundColor', 'fontSize'];
+      const fields = Object.keys(operation.updates);
+      if (fields.length === 0 || fields.some(field => !allowed.includes(field))) {
+        throw new ValidationError(`BulkNotePayload can only update: ${allowed.join(', ')}`);
+      }
+      // Same rules as updating a single note
+      validateUpdateNotePayload({ noteId: obj.noteIds[0], updates: operation.updates });
+      break;
+    }
+    case 'delete':
+      break;
+    default:
+      throw new ValidationError('BulkNotePayload operation type must be "move", "update" or "delete"');
+  }
+
+  return true;
+}
+
+export function validateRestoreNotePayload(data: any): data is RestoreNotePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('RestoreNotePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.noteId) || obj.noteId.length === 0) {
+    throw new ValidationError('RestoreNotePayload noteId must be a non-empty string');
+  }
+
+  return true;
+}
+
 export function validateMoveNotePayload(data: any): data is MoveNotePayload {
   if (!isObject(data)) {
     throw new ValidationError('MoveNotePayload must be an object');
@@ -401,6 +712,20 @@ export function validateDeleteBoardPayload(data: any): data is DeleteBoardPayloa
   return true;
 }
 
+export function validateRestoreBoardPayload(data: any): data is RestoreBoardPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('RestoreBoardPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('RestoreBoardPayload boardId must be a non-empty string');
+  }
+
+  return true;
+}
+
 export function validateRenameBoardPayload(data: any): data is RenameBoardPayload {
   if (!isObject(data)) {
     throw new ValidationError('RenameBoardPayload must be an object');
@@ -419,6 +744,22 @@ export function validateRenameBoardPayload(data: any): data is RenameBoardPayloa
   return true;
 }
 
+function validateSyncCursor(data: any, name: string): void {
+  if (!isObject(data)) {
+    throw new ValidationError(`${name} must be an object`);
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.epoch) || obj.epoch.length === 0) {
+    throw new ValidationError(`${name} epoch must be a non-empty string`);
+  }
+
+  if (!Number.isInteger(obj.seq) || obj.seq < 0) {
+    throw new ValidationError(`${name} seq must be a non-negative integer`);
+  }
+}
+
 export function validateSyncRequestPayload(data: any): data is SyncRequestPayload {
   if (!isObject(data)) {
     throw new ValidationError('SyncRequestPayload must be an object');
@@ -430,6 +771,10 @@ export function validateSyncRequestPayload(data: any): data is SyncRequestPayloa
     throw new ValidationError('SyncRequestPayload boardId must be a non-empty string');
   }
 
+  if (obj.since !== undefined) {
+    validateSyncCursor(obj.since, 'SyncRequestPayload since');
+  }
+
   return true;
 }
 
@@ -440,11 +785,377 @@ export function validateSyncResponsePayload(data: any): data is SyncResponsePayl
 
   const obj = data as Record<string, any>;
 
-  if (!isObject(obj.board)) {
-    throw new ValidationError('SyncResponsePayload board must be an object');
+  if (isObject(obj.board) === isObject(obj.delta)) {
+    throw new ValidationError('SyncResponsePayload must have either a board or a delta');
   }
 
-  validateBoard(obj.board);
+  if (obj.board) {
+    validateBoard(obj.board);
+  } else {
+    const delta = obj.delta as Record<string, any>;
+    validateBoard({ ...delta.board, notes: delta.notes });
+    if (!isArray(delta.deletedNoteIds) || !delta.deletedNoteIds.every(isString)) {
+      throw new ValidationError('SyncResponsePayload delta deletedNoteIds must be an array of strings');
+    }
+  }
+
+  validateSyncCursor(obj.cursor, 'SyncResponsePayload cursor');
+  return true;
+}
+
+export function validateHistoryPayload(data: any): data is HistoryPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('HistoryPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('HistoryPayload boardId must be a non-empty string');
+  }
+
+  return true;
+}
+
+export function validatePresenceHeartbeatPayload(data: any): data is PresenceHeartbeatPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('PresenceHeartbeatPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('PresenceHeartbeatPayload boardId must be a non-empty string');
+  }
+
+  return true;
+}
+
+export function validateCursorMovePayload(data: any): data is CursorMovePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('CursorMovePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('CursorMovePayload boardId must be a non-empty string');
+  }
+
+  if (!isNumber(obj.x) || !isFinite(obj.x) || !isNumber(obj.y) || !isFinite(obj.y)) {
+    throw new ValidationError('CursorMovePayload x and y must be finite numbers');
+  }
+
+  return true;
+}
+
+export function validateViewportPayload(data: any): data is ViewportPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('ViewportPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('ViewportPayload boardId must be a non-empty string');
+  }
+
+  if (!isNumber(obj.x) || !isFinite(obj.x) || !isNumber(obj.y) || !isFinite(obj.y)) {
+    throw new ValidationError('ViewportPayload x and y must be finite numbers');
+  }
+
+  if (!isNumber(obj.scale) || !isFinite(obj.scale) || obj.scale <= 0) {
+    throw new ValidationError('ViewportPayload scale must be a positive number');
+  }
+
+  return true;
+}
+
+export function validateCreateConnectorPayload(data: any): data is CreateConnectorPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('CreateConnectorPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  for (const field of ['boardId', 'sourceNoteId', 'targetNoteId']) {
+    if (!isString(obj[field]) || obj[field].length === 0) {
+      throw new ValidationError(`CreateConnectorPayload ${field} must be a non-empty string`);
+    }
+  }
+
+  if (obj.sourceNoteId === obj.targetNoteId) {
+    throw new ValidationError('CreateConnectorPayload cannot connect a note to itself');
+  }
+
+  validateConnectorFields(obj, 'CreateConnectorPayload');
+  validateClientId(obj, 'CreateConnectorPayload');
+  return true;
+}
+
+export function validateUpdateConnectorPayload(data: any): data is UpdateConnectorPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('UpdateConnectorPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.connectorId) || obj.connectorId.length === 0) {
+    throw new ValidationError('UpdateConnectorPayload connectorId must be a non-empty string');
+  }
+
+  if (!isObject(obj.updates)) {
+    throw new ValidationError('UpdateConnectorPayload updates must be an object');
+  }
+
+  const allowed = ['label', 'style', 'arrowheads'];
+  const unknown = Object.keys(obj.updates).filter(field => !allowed.includes(field));
+  if (unknown.length > 0) {
+    throw new ValidationError(`UpdateConnectorPayload cannot update: ${unknown.join(', ')}`);
+  }
+
+  validateConnectorFields(obj.updates, 'UpdateConnectorPayload');
+  return true;
+}
+
+export function validateDeleteConnectorPayload(data: any): data is DeleteConnectorPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('DeleteConnectorPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.connectorId) || obj.connectorId.length === 0) {
+    throw new ValidationError('DeleteConnectorPayload connectorId must be a non-empty string');
+  }
+
+  return true;
+}
+
+export function validateCreateFramePayload(data: any): data is CreateFramePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('CreateFramePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('CreateFramePayload boardId must be a non-empty string');
+  }
+
+  for (const field of ['name', 'x', 'y', 'width', 'height']) {
+    if (obj[field] === undefined) {
+      throw new ValidationError(`CreateFramePayload ${field} is required`);
+    }
+  }
+  validateFrameFields(obj, 'CreateFramePayload');
+  validateClientId(obj, 'CreateFramePayload');
+  return true;
+}
+
+export function validateUpdateFramePayload(data: any): data is UpdateFramePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('UpdateFramePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.frameId) || obj.frameId.length === 0) {
+    throw new ValidationError('UpdateFramePayload frameId must be a non-empty string');
+  }
+
+  if (!isObject(obj.updates)) {
+    throw new ValidationError('UpdateFramePayload updates must be an object');
+  }
+
+  // Position changes go through frame:move so the notes inside come along
+  const allowed = ['name', 'width', 'height', 'collapsed'];
+  const unknown = Object.keys(obj.updates).filter(field => !allowed.includes(field));
+  if (unknown.length > 0) {
+    throw new ValidationError(`UpdateFramePayload cannot update: ${unknown.join(', ')}`);
+  }
+
+  validateFrameFields(obj.updates, 'UpdateFramePayload');
+  return true;
+}
+
+export function validateMoveFramePayload(data: any): data is MoveFramePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('MoveFramePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.frameId) || obj.frameId.length === 0) {
+    throw new ValidationError('MoveFramePayload frameId must be a non-empty string');
+  }
+
+  if (obj.x === undefined || obj.y === undefined) {
+    throw new ValidationError('MoveFramePayload x and y are required');
+  }
+  validateFrameFields(obj, 'MoveFramePayload');
+  return true;
+}
+
+export function validateDeleteFramePayload(data: any): data is DeleteFramePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('DeleteFramePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.frameId) || obj.frameId.length === 0) {
+    throw new ValidationError('DeleteFramePayload frameId must be a non-empty string');
+  }
+
+  return true;
+}
+
+export const MAX_BATCH_OPERATIONS = 100;
+
+// Each operation in a batch is checked by the validator for its own message type
+const BATCH_OPERATION_VALIDATORS: Record<string, (payload: any) => boolean> = {
+  'note:create': validateCreateNotePayload,
+  'note:update': validateUpdateNotePayload,
+  'note:move': validateMoveNotePayload,
+  'note:delete': validateDeleteNotePayload,
+  'connector:create': validateCreateConnectorPayload,
+  'connector:update': validateUpdateConnectorPayload,
+  'connector:delete': validateDeleteConnectorPayload,
+  'frame:create': validateCreateFramePayload,
+  'frame:update': validateUpdateFramePayload,
+  'frame:move': validateMoveFramePayload,
+  'frame:delete': validateDeleteFramePayload,
+};
+
+export function validateBatchPayload(data: any): data is BatchPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('BatchPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.boardId) || obj.boardId.length === 0) {
+    throw new ValidationError('BatchPayload boardId must be a non-empty string');
+  }
+
+  if (!isArray(obj.operations) || obj.operations.length === 0 || obj.operations.length > MAX_BATCH_OPERATIONS) {
+    throw new ValidationError(`BatchPayload operations must list between 1 and ${MAX_BATCH_OPERATIONS} operations`);
+  }
+
+  obj.operations.forEach((operation: any, index: number) => {
+    const name = `BatchPayload operation ${index + 1}`;
+    if (!isObject(operation)) {
+      throw new ValidationError(`${name} must be an object`);
+    }
+
+    const { type, payload } = operation as Record<string, any>;
+    const validate = isString(type) ? BATCH_OPERATION_VALIDATORS[type] : undefined;
+    if (!validate) {
+      throw new ValidationError(`${name} type must be one of: ${Object.keys(BATCH_OPERATION_VALIDATORS).join(', ')}`);
+    }
+
+    try {
+      validate(payload);
+    } catch (error) {
+      throw error instanceof ValidationError ? new ValidationError(`${name}: ${error.message}`) : error;
+    }
+
+    // A batch is applied to, and broadcast on, a single board
+    if (payload.boardId !== undefined && payload.boardId !== obj.boardId) {
+      throw new ValidationError(`${name} must be on board ${obj.boardId}`);
+    }
+  });
+
+  return true;
+}
+
+export function validateEditingStartPayload(data: any): data is EditingStartPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('EditingStartPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.noteId) || obj.noteId.length === 0) {
+    throw new ValidationError('EditingStartPayload noteId must be a non-empty string');
+  }
+
+  if (obj.takeover !== undefined && !isBoolean(obj.takeover)) {
+    throw new ValidationError('EditingStartPayload takeover must be a boolean');
+  }
+
+  return true;
+}
+
+export function validateEditingLeasePayload(data: any): data is EditingLeasePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('EditingLeasePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.noteId) || obj.noteId.length === 0) {
+    throw new ValidationError('EditingLeasePayload noteId must be a non-empty string');
+  }
+
+  return true;
+}
+
+export function validateUpdateBoardAclPayload(data: any): data is UpdateBoardAclPayload {
+  if (!isObject(data)) {
+    throw new ValidationError('UpdateBoardAclPayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  for (const field of ['editors', 'viewers']) {
+    if (!isArray(obj[field]) || !obj[field].every((userId: any) => isString(userId) && userId.length > 0)) {
+      throw new ValidationError(`UpdateBoardAclPayload ${field} must be an array of user IDs`);
+    }
+  }
+
+  return true;
+}
+
+export const MAX_INVITE_HOURS = 30 * 24;
+
+export function validateCreateInvitePayload(data: any): data is CreateInvitePayload {
+  if (!isObject(data)) {
+    throw new ValidationError('CreateInvitePayload must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (obj.role !== 'editor' && obj.role !== 'viewer') {
+    throw new ValidationError('CreateInvitePayload role must be one of: editor, viewer');
+  }
+
+  if (
+    obj.expiresInHours !== undefined &&
+    (!isNumber(obj.expiresInHours) || obj.expiresInHours <= 0 || obj.expiresInHours > MAX_INVITE_HOURS)
+  ) {
+    throw new ValidationError(`CreateInvitePayload expiresInHours must be between 0 and ${MAX_INVITE_HOURS}`);
+  }
+
+  return true;
+}
+
+// Credentials validation
+export function validateCredentials(data: any): data is Credentials {
+  if (!isObject(data)) {
+    throw new ValidationError('Credentials must be an object');
+  }
+
+  const obj = data as Record<string, any>;
+
+  if (!isString(obj.username) || !/^[a-zA-Z0-9_.-]{3,32}$/.test(obj.username)) {
+    throw new ValidationError('Username must be 3-32 letters, digits, dots, dashes or underscores');
+  }
+
+  if (!isString(obj.password) || obj.password.length < 8 || obj.password.length > 256) {
+    throw new ValidationError('Password must be between 8 and 256 characters');
+  }
 
   return true;
 }
@@ -462,11 +1173,31 @@ export function validateWSMessage(data: any): data is WSMessage {
     'note:update',
     'note:delete',
     'note:move',
+    'note:bulk',
+    'note:edit',
+    'note:editing:start',
+    'note:editing:end',
+    'note:editing:heartbeat',
     'board:create',
     'board:delete',
     'board:rename',
     'sync:request',
     'sync:response',
+    'history:undo',
+    'history:redo',
+    'note:restore',
+    'board:restore',
+    'presence:heartbeat',
+    'presence:cursor',
+    'presence:viewport',
+    'connector:create',
+    'connector:update',
+    'connector:delete',
+    'frame:create',
+    'frame:update',
+    'frame:move',
+    'frame:delete',
+    'batch',
   ];
 
   if (!isString(obj.type) || !validTypes.includes(obj.type)) {
@@ -499,6 +1230,19 @@ export function validateWSMessage(data: any): data is WSMessage {
     case 'note:move':
       validateMoveNotePayload(obj.payload);
       break;
+    case 'note:bulk':
+      validateBulkNotePayload(obj.payload);
+      break;
+    case 'note:edit':
+      validateNoteEditPayload(obj.payload);
+      break;
+    case 'note:editing:start':
+      validateEditingStartPayload(obj.payload);
+      break;
+    case 'note:editing:end':
+    case 'note:editing:heartbeat':
+      validateEditingLeasePayload(obj.payload);
+      break;
     case 'board:create':
       validateCreateBoardPayload(obj.payload);
       break;
@@ -514,6 +1258,49 @@ export function validateWSMessage(data: any): data is WSMessage {
     case 'sync:response':
       validateSyncResponsePayload(obj.payload);
       break;
+    case 'history:undo':
+    case 'history:redo':
+      validateHistoryPayload(obj.payload);
+      break;
+    case 'note:restore':
+      validateRestoreNotePayload(obj.payload);
+      break;
+    case 'board:restore':
+      validateRestoreBoardPayload(obj.payload);
+      break;
+    case 'presence:heartbeat':
+      validatePresenceHeartbeatPayload(obj.payload);
+      break;
+    case 'presence:cursor':
+      validateCursorMovePayload(obj.payload);
+      break;
+    case 'presence:viewport':
+      validateViewportPayload(obj.payload);
+      break;
+    case 'connector:create':
+      validateCreateConnectorPayload(obj.payload);
+      break;
+    case 'connector:update':
+      validateUpdateConnectorPayload(obj.payload);
+      break;
+    case 'connector:delete':
+      validateDeleteConnectorPayload(obj.payload);
+      break;
+    case 'frame:create':
+      validateCreateFramePayload(obj.payload);
+      break;
+    case 'frame:update':
+      validateUpdateFramePayload(obj.payload);
+      break;
+    case 'frame:move':
+      validateMoveFramePayload(obj.payload);
+      break;
+    case 'frame:delete':
+      validateDeleteFramePayload(obj.payload);
+      break;
+    case 'batch':
+      validateBatchPayload(obj.payload);
+      break;
   }
 
   return true;